@@ -1,4 +1,4 @@
-const { existsSync, mkdirSync, rmSync } = require('node:fs');
+const { cpSync, existsSync, mkdirSync, rmSync } = require('node:fs');
 const path = require('node:path');
 const { context, build } = require('esbuild');
 const { polyfillNode } = require('esbuild-plugin-polyfill-node');
@@ -7,7 +7,7 @@ const { polyfillNode } = require('esbuild-plugin-polyfill-node');
  * Create output directories if they don't exist
  */
 function ensureOutputDirs() {
-  const outDirs = ['out/native', 'out/web'];
+  const outDirs = ['out/native', 'out/web', 'out/cli'];
   for (const dir of outDirs) {
     const fullPath = path.resolve(__dirname, dir);
     if (!existsSync(fullPath)) {
@@ -28,6 +28,27 @@ function cleanOutput() {
   console.log('[build] Cleaned output directory');
 }
 
+/**
+ * Copy the browser libraries listed in src/markdown/runtime-assets.json to
+ * out/assets, so the preview can load them without network access
+ */
+function copyRuntimeAssets() {
+  const manifest = require('./src/markdown/runtime-assets.json');
+  for (const [name, { files }] of Object.entries(manifest)) {
+    for (const file of files) {
+      const from = path.resolve(__dirname, 'node_modules', name, file);
+      if (!existsSync(from)) {
+        console.warn(`[build] Runtime asset not found: ${name}/${file}`);
+        continue;
+      }
+      cpSync(from, path.resolve(__dirname, 'out/assets', name, file), {
+        recursive: true,
+      });
+    }
+  }
+  console.log('[build] Copied runtime assets');
+}
+
 /**
  * @type {import('esbuild').Plugin}
  */
@@ -67,6 +88,22 @@ const nativeConfig = {
   sourcemap: true,
 };
 
+/**
+ * Standalone CLI (no VS Code host, so `vscode` must not be reachable from it)
+ * @type {import('esbuild').BuildOptions}
+ */
+const cliConfig = {
+  entryPoints: ['./src/cli.ts'],
+  bundle: true,
+  minify: true,
+  platform: 'node',
+  outfile: './out/cli/mlp.js',
+  target: 'node16',
+  format: 'cjs',
+  banner: { js: '#!/usr/bin/env node' },
+  sourcemap: true,
+};
+
 const defaultWindow = {
   document: {
     currentScript: {
@@ -93,7 +130,8 @@ const webConfig = {
   outfile: './out/web/extension.js',
   target: 'es2020',
   format: 'cjs',
-  external: ['vscode'],
+  // PDF export drives a local browser and is disabled on the web
+  external: ['vscode', 'puppeteer-core'],
   sourcemap: true,
   plugins: [
     polyfillNode({
@@ -102,6 +140,11 @@ const webConfig = {
       },
     }),
   ],
+  // node:crypto is an empty polyfill: code chunks, which hash and sign with
+  // it, only run in the desktop extension
+  logOverride: {
+    'import-is-undefined': 'silent',
+  },
   define: {
     'window': JSON.stringify(defaultWindow),
     'process.env.IS_VSCODE_WEB_EXTENSION': '"true"',
@@ -112,6 +155,7 @@ async function main() {
   // Clean output and ensure directories
   cleanOutput();
   ensureOutputDirs();
+  copyRuntimeAssets();
 
   try {
     // Watch mode
@@ -134,10 +178,25 @@ async function main() {
         plugins: [esbuildProblemMatcherPlugin, ...webConfig.plugins],
       });
 
-      await Promise.all([nativeContext.watch(), webContext.watch()]);
+      // CLI
+      const cliContext = await context({
+        ...cliConfig,
+        minify: false,
+        plugins: [esbuildProblemMatcherPlugin],
+      });
+
+      await Promise.all([
+        nativeContext.watch(),
+        webContext.watch(),
+        cliContext.watch(),
+      ]);
     } else {
       // Build mode
-      await Promise.all([build(nativeConfig), build(webConfig)]);
+      await Promise.all([
+        build(nativeConfig),
+        build(webConfig),
+        build(cliConfig),
+      ]);
       console.log('[build] Build completed');
     }
   } catch (error) {
@@ -0,0 +1,253 @@
+/**
+ * Command line interface - renders markdown with the same engine as the preview,
+ * without a VS Code host (CI, docs builds, terminals).
+ *
+ *   mlp render <file> [-o <output>] [-c <config.json>] [--inline-assets]
+ *   mlp export <file> [-f html|pdf|docx|epub|slides|slides-pdf|pptx]
+ *              [-o <output>] [-c <config.json>]
+ *   mlp site <folder> [-o <output-dir>] [-c <config.json>]
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { resolveConfig } from './config/defaults';
+import { getExportFormat } from './export/ExportFormats';
+import { buildSite } from './export/SiteBuilder';
+import { MarkdownEngine } from './markdown/MarkdownEngine';
+import type {
+  MarkdownLivePreviewConfig,
+  MarkdownLivePreviewConfigOverrides,
+} from './types';
+
+const USAGE = `Usage: mlp <command> <file|folder> [options]
+
+Commands:
+  render                Render the preview page, as shown in VS Code
+  export                Export a self-contained document
+  site                  Build a static site from the markdown files of
+                        a folder (default output: <folder>/_site)
+
+Options:
+  -o, --output <file>   Output file (default: next to <file>, "-" for stdout)
+  -c, --config <file>   JSON file with config overrides, grouped by section
+                        e.g. { "theme": { "preview": "nord" } }
+  -f, --format <name>   Export format: html (default), pdf, docx, epub,
+                        slides (standalone deck), slides-pdf (page per slide),
+                        pptx (PowerPoint)
+                        (pdf uses a local Chrome/Chromium, see "chromePath")
+  --inline-assets       render: embed the bundled KaTeX/Mermaid/Reveal.js/...
+                        copies in the page, so it opens without network access
+  -h, --help            Show this help
+`;
+
+interface CliArgs {
+  command?: string;
+  input?: string;
+  output?: string;
+  config?: string;
+  format: string;
+  inlineAssets: boolean;
+  help: boolean;
+}
+
+interface LoadedDocument {
+  inputPath: string;
+  markdown: string;
+  sourceUri: string;
+  config: MarkdownLivePreviewConfig;
+  engine: MarkdownEngine;
+}
+
+/**
+ * Parse process arguments into a command, its input and options
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { format: 'html', inlineAssets: false, help: false };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '-o':
+      case '--output':
+        args.output = argv[++i];
+        break;
+      case '-c':
+      case '--config':
+        args.config = argv[++i];
+        break;
+      case '-f':
+      case '--format':
+        args.format = argv[++i];
+        break;
+      case '--inline-assets':
+        args.inlineAssets = true;
+        break;
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-') {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        positional.push(arg);
+    }
+  }
+
+  [args.command, args.input] = positional;
+  return args;
+}
+
+/**
+ * Load config overrides from a JSON file
+ */
+function loadConfigOverrides(
+  configPath?: string,
+): MarkdownLivePreviewConfigOverrides {
+  if (!configPath) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(path.resolve(configPath), 'utf-8'));
+}
+
+/**
+ * Read the input file and create an engine for it
+ */
+function loadDocument(args: CliArgs): LoadedDocument {
+  if (!args.input) {
+    throw new Error('Missing input file');
+  }
+
+  const inputPath = path.resolve(args.input);
+  const config = resolveConfig(loadConfigOverrides(args.config));
+  return {
+    inputPath,
+    markdown: fs.readFileSync(inputPath, 'utf-8'),
+    sourceUri: pathToFileURL(inputPath).href,
+    config,
+    engine: new MarkdownEngine(config),
+  };
+}
+
+/**
+ * Write the result to --output, stdout, or next to the input file
+ */
+function writeOutput(
+  args: CliArgs,
+  inputPath: string,
+  content: string | Buffer,
+  extension: string,
+): void {
+  if (args.output === '-') {
+    process.stdout.write(content);
+    return;
+  }
+
+  const outputPath = path.resolve(
+    args.output ||
+      path.join(
+        path.dirname(inputPath),
+        `${path.basename(inputPath, path.extname(inputPath))}.${extension}`,
+      ),
+  );
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, content);
+  console.log(`${args.input} -> ${path.relative(process.cwd(), outputPath)}`);
+}
+
+/**
+ * Render a markdown file to the preview page
+ */
+async function render(args: CliArgs): Promise<void> {
+  const { inputPath, markdown, sourceUri, engine } = loadDocument(args);
+
+  const html = await engine.generateHTMLTemplateForPreview({
+    inputString: markdown,
+    config: {
+      sourceUri,
+      isVSCode: false,
+      scrollSync: false,
+    },
+    inlineAssets: args.inlineAssets,
+  });
+
+  writeOutput(args, inputPath, html, 'html');
+}
+
+/**
+ * Export a markdown file to a self-contained document
+ */
+async function exportDocument(args: CliArgs): Promise<void> {
+  const format = getExportFormat(args.format);
+  if (!format) {
+    throw new Error(`Unknown export format: ${args.format}`);
+  }
+
+  const { inputPath, markdown, sourceUri, config, engine } = loadDocument(args);
+  const content = await format.render(engine, markdown, sourceUri, config);
+  writeOutput(args, inputPath, content, format.extension);
+}
+
+/**
+ * Build a folder of markdown files into a static site
+ */
+async function site(args: CliArgs): Promise<void> {
+  if (!args.input) {
+    throw new Error('Missing input folder');
+  }
+
+  const root = path.resolve(args.input);
+  const config = resolveConfig(loadConfigOverrides(args.config));
+  const outputDir = path.resolve(
+    args.output || path.join(root, config.export.siteOutputDirectory),
+  );
+  const { pages, errors } = await buildSite(
+    new MarkdownEngine(config),
+    root,
+    config,
+    { outputDir },
+  );
+
+  for (const error of errors) {
+    console.error(`mlp: ${error}`);
+  }
+  console.log(
+    `${args.input} -> ${path.relative(process.cwd(), outputDir)} (${pages} pages)`,
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `${errors.length} ${errors.length === 1 ? 'error' : 'errors'} building the site`,
+    );
+  }
+}
+
+const commands = new Map<string, (args: CliArgs) => Promise<void>>([
+  ['render', render],
+  ['export', exportDocument],
+  ['site', site],
+]);
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help || !args.command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const command = commands.get(args.command);
+  if (!command) {
+    throw new Error(`Unknown command: ${args.command}`);
+  }
+  await command(args);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(`mlp: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,100 @@
+/**
+ * Code chunk CodeLens - Run / Stop, Interrupt Session and Restart Session
+ * actions above the code chunks of markdown documents
+ */
+
+import * as vscode from 'vscode';
+import { getCodeChunkManager } from './code-chunk';
+import { getMLPConfig } from './config/ConfigManager';
+
+/**
+ * Shows the actions of each code chunk while script execution is enabled.
+ * Call refresh() when a chunk starts or stops running.
+ */
+export class CodeChunkCodeLensProvider
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.languages.registerCodeLensProvider(
+        [
+          { language: 'markdown', scheme: 'file' },
+          { language: 'markdown', scheme: 'untitled' },
+        ],
+        this,
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration(
+            'markdown-live-preview.enableScriptExecution',
+          )
+        ) {
+          this.refresh();
+        }
+      }),
+    );
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!getMLPConfig<boolean>('enableScriptExecution')) {
+      return [];
+    }
+
+    const uri = document.uri.toString();
+    const manager = getCodeChunkManager(uri);
+    manager.parseChunks(document.getText());
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const chunkId of manager.getChunkIds()) {
+      const chunk = manager.getChunk(chunkId);
+      if (!chunk) continue;
+      const range = new vscode.Range(chunk.line, 0, chunk.line, 0);
+      const lens = (title: string, command: string, tooltip: string) =>
+        new vscode.CodeLens(range, {
+          title,
+          command,
+          tooltip,
+          arguments: [uri, chunkId],
+        });
+
+      if (manager.isChunkRunning(chunkId)) {
+        lenses.push(
+          lens('$(debug-stop) Stop', '_mlp.stopCodeChunk', 'Stop the chunk'),
+        );
+      } else {
+        lenses.push(lens('$(play) Run', '_mlp.runCodeChunk', 'Run the chunk'));
+      }
+      if (chunk.attrs.continue !== false) {
+        lenses.push(
+          lens(
+            '$(debug-pause) Interrupt Session',
+            '_mlp.interruptCodeChunkSession',
+            'Interrupt the code running in the session (SIGINT)',
+          ),
+          lens(
+            '$(debug-restart) Restart Session',
+            '_mlp.restartCodeChunkSession',
+            'Restart the session, discarding its state',
+          ),
+        );
+      }
+    }
+    return lenses;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * AnsiToHtml - converts the ANSI escape sequences that programs colour and
+ * style terminal output with into HTML.
+ *
+ * The 16 basic colours become `ansi-<colour>-fg` / `ansi-<colour>-bg`
+ * classes, which the preview styles; 256-colour and true colour values
+ * become inline styles. Other sequences, such as cursor movement, are
+ * dropped.
+ */
+
+const ESC = String.fromCharCode(27);
+const BEL = String.fromCharCode(7);
+
+// SGR (colour and style) sequences, the other CSI and OSC sequences, a
+// sequence cut off at the end of output still streaming, and two-character
+// escapes
+const SEQUENCE_PATTERN = new RegExp(
+  [
+    `${ESC}\\[([0-9;?]*)[ -/]*([@-~])`,
+    `${ESC}\\][^${BEL}${ESC}]*(?:${BEL}|${ESC}\\\\)`,
+    `${ESC}(?:\\[[0-9;?]*[ -/]*|\\][^${BEL}${ESC}]*)?$`,
+    `${ESC}.`,
+  ].join('|'),
+  'g',
+);
+
+const COLORS = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+];
+
+interface Style {
+  // A colour name of the palette, or a CSS colour
+  fg: string;
+  bg: string;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+function createStyle(): Style {
+  return {
+    fg: '',
+    bg: '',
+    bold: false,
+    dim: false,
+    italic: false,
+    underline: false,
+  };
+}
+
+/**
+ * Colour of the 256-colour palette: the 16 basic colours, a 6×6×6 cube and
+ * a grey ramp
+ */
+function getPaletteColor(index: number): string {
+  if (index < 8) {
+    return COLORS[index];
+  }
+  if (index < 16) {
+    return `bright-${COLORS[index - 8]}`;
+  }
+  if (index < 232) {
+    const level = (value: number) => (value ? 55 + value * 40 : 0);
+    const cube = index - 16;
+    return `rgb(${level(Math.floor(cube / 36))}, ${level(
+      Math.floor(cube / 6) % 6,
+    )}, ${level(cube % 6)})`;
+  }
+  const grey = 8 + (index - 232) * 10;
+  return `rgb(${grey}, ${grey}, ${grey})`;
+}
+
+/**
+ * Apply the parameters of an SGR sequence to the current style
+ */
+function applySgr(style: Style, params: string): void {
+  const codes = params.split(';').map((code) => Number(code) || 0);
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) {
+      Object.assign(style, createStyle());
+    } else if (code === 1) {
+      style.bold = true;
+    } else if (code === 2) {
+      style.dim = true;
+    } else if (code === 3) {
+      style.italic = true;
+    } else if (code === 4) {
+      style.underline = true;
+    } else if (code === 22) {
+      style.bold = false;
+      style.dim = false;
+    } else if (code === 23) {
+      style.italic = false;
+    } else if (code === 24) {
+      style.underline = false;
+    } else if (code >= 30 && code <= 37) {
+      style.fg = COLORS[code - 30];
+    } else if (code >= 90 && code <= 97) {
+      style.fg = `bright-${COLORS[code - 90]}`;
+    } else if (code === 39) {
+      style.fg = '';
+    } else if (code >= 40 && code <= 47) {
+      style.bg = COLORS[code - 40];
+    } else if (code >= 100 && code <= 107) {
+      style.bg = `bright-${COLORS[code - 100]}`;
+    } else if (code === 49) {
+      style.bg = '';
+    } else if (code === 38 || code === 48) {
+      // Extended colour: 5;<index> or 2;<r>;<g>;<b>
+      let color = '';
+      if (codes[i + 1] === 5) {
+        color = getPaletteColor(codes[i + 2] ?? 0);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        color = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${
+          codes[i + 4] ?? 0
+        })`;
+        i += 4;
+      }
+      if (code === 38) {
+        style.fg = color;
+      } else {
+        style.bg = color;
+      }
+    }
+  }
+}
+
+/**
+ * Wrap text in a span carrying the style, if it has any
+ */
+function renderSpan(text: string, style: Style): string {
+  if (!text) {
+    return '';
+  }
+  const classes: string[] = [];
+  const css: string[] = [];
+  for (const [color, kind, property] of [
+    [style.fg, 'fg', 'color'],
+    [style.bg, 'bg', 'background-color'],
+  ]) {
+    if (color.startsWith('rgb')) {
+      css.push(`${property}: ${color}`);
+    } else if (color) {
+      classes.push(`ansi-${color}-${kind}`);
+    }
+  }
+  for (const flag of ['bold', 'dim', 'italic', 'underline'] as const) {
+    if (style[flag]) {
+      classes.push(`ansi-${flag}`);
+    }
+  }
+
+  const escaped = escapeHtml(text);
+  if (classes.length === 0 && css.length === 0) {
+    return escaped;
+  }
+  const classAttr = classes.length ? ` class="${classes.join(' ')}"` : '';
+  const styleAttr = css.length ? ` style="${css.join('; ')}"` : '';
+  return `<span${classAttr}${styleAttr}>${escaped}</span>`;
+}
+
+/**
+ * Convert terminal output to HTML. A carriage return rewrites its line, as
+ * progress bars do, so only the text after the last one shows.
+ */
+export function ansiToHtml(text: string): string {
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const content = line.replace(/\r+$/, '');
+      return content.slice(content.lastIndexOf('\r') + 1);
+    });
+
+  const style = createStyle();
+  let html = '';
+  let lastIndex = 0;
+  const source = lines.join('\n');
+  SEQUENCE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SEQUENCE_PATTERN.exec(source)) !== null) {
+    html += renderSpan(source.slice(lastIndex, match.index), style);
+    lastIndex = match.index + match[0].length;
+    if (match[2] === 'm') {
+      applySgr(style, match[1]);
+    }
+  }
+  return html + renderSpan(source.slice(lastIndex), style);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -5,16 +5,43 @@
  * and configurable timeout.
  */
 
-import { spawn } from 'node:child_process';
+import { type ChildProcess, spawn } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import type { CodeChunk } from '../types';
+import type { CodeChunk, MimeBundle } from '../types';
+import { OUTPUT_ENV, takeOutputs } from './RichOutput';
 
 export interface ExecutionResult {
   stdout: string;
   stderr: string;
   exitCode: number | null;
+  // Rich outputs of a Jupyter kernel, in the order they were displayed
+  outputs?: MimeBundle[];
+}
+
+/**
+ * Called with the output so far each time running code writes some.
+ */
+export type OutputCallback = (stdout: string, stderr: string) => void;
+
+/**
+ * Send a signal to a process spawned with `detached`, together with the
+ * processes it started, such as the program that a shell runs.
+ */
+export function signalProcess(
+  proc: ChildProcess,
+  signal: NodeJS.Signals,
+): void {
+  try {
+    if (process.platform !== 'win32' && proc.pid) {
+      process.kill(-proc.pid, signal);
+    } else {
+      proc.kill(signal);
+    }
+  } catch {
+    // Already exited
+  }
 }
 
 /**
@@ -53,7 +80,8 @@ const TEMP_EXT_MAP: Record<string, string> = {
 export class CodeChunkExecutor {
   /**
    * Execute a code chunk. Resolves the command, determines execution mode
-   * (stdin vs temp file), and handles special languages.
+   * (stdin vs temp file), and handles special languages. Aborting `signal`
+   * stops the command.
    */
   async execute(
     chunk: CodeChunk,
@@ -63,6 +91,8 @@ export class CodeChunkExecutor {
     timeout: number,
     defaultShell?: string,
     defaultLatexEngine?: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
     if (!enableScriptExecution) {
       return {
@@ -81,43 +111,69 @@ export class CodeChunkExecutor {
       };
     }
 
+    // Special handling for LaTeX
+    if (chunk.language === 'latex' || chunk.language === 'tex') {
+      return this.executeLatex(
+        combinedCode,
+        workingDir,
+        chunk.attrs,
+        timeout,
+        defaultLatexEngine,
+        signal,
+      );
+    }
+
+    // Rich outputs that the chunk writes to the side channel file
+    const outputFile = path.join(
+      os.tmpdir(),
+      `mpe_code_chunk_output_${Date.now()}_${Math.random()
+        .toString(36)
+        .slice(2)}.jsonl`,
+    );
+    let result: ExecutionResult;
+
     // Special handling for matplotlib
     if (
       chunk.attrs.matplotlib &&
       (chunk.language === 'python' || chunk.language === 'python3')
     ) {
-      return this.executePythonMatplotlib(
+      result = await this.executePythonMatplotlib(
         cmd,
         combinedCode,
         workingDir,
         timeout,
+        outputFile,
+        onOutput,
+        signal,
       );
-    }
-
-    // Special handling for LaTeX
-    if (chunk.language === 'latex' || chunk.language === 'tex') {
-      return this.executeLatex(combinedCode, workingDir, chunk.attrs, timeout, defaultLatexEngine);
-    }
-
-    // Standard execution
-    if (chunk.attrs.stdin) {
-      return this.executeViaStdin(
+    } else if (chunk.attrs.stdin) {
+      // Standard execution
+      result = await this.executeViaStdin(
         cmd,
         chunk.attrs.args,
         combinedCode,
         workingDir,
         timeout,
+        outputFile,
+        onOutput,
+        signal,
       );
     } else {
-      return this.executeViaTempFile(
+      result = await this.executeViaTempFile(
         cmd,
         chunk.attrs.args,
         combinedCode,
         chunk.language,
         workingDir,
         timeout,
+        outputFile,
+        onOutput,
+        signal,
       );
     }
+
+    result.outputs = takeOutputs(outputFile);
+    return result;
   }
 
   /**
@@ -146,6 +202,9 @@ export class CodeChunkExecutor {
     language: string,
     workingDir: string,
     timeout: number,
+    outputFile: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
     const ext = TEMP_EXT_MAP[language] || '.tmp';
     const tmpFile = path.join(
@@ -170,6 +229,9 @@ export class CodeChunkExecutor {
         '',
         workingDir,
         timeout,
+        outputFile,
+        onOutput,
+        signal,
       );
     } finally {
       try {
@@ -189,8 +251,20 @@ export class CodeChunkExecutor {
     code: string,
     workingDir: string,
     timeout: number,
+    outputFile: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
-    return this.spawnCommand(cmd, args, code, workingDir, timeout);
+    return this.spawnCommand(
+      cmd,
+      args,
+      code,
+      workingDir,
+      timeout,
+      outputFile,
+      onOutput,
+      signal,
+    );
   }
 
   /**
@@ -203,6 +277,9 @@ export class CodeChunkExecutor {
     code: string,
     workingDir: string,
     timeout: number,
+    outputFile: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
     const tmpPng = path.join(os.tmpdir(), `mpe_matplotlib_${Date.now()}.png`);
     const preamble = `
@@ -230,6 +307,9 @@ plt.close('all')
         '',
         workingDir,
         timeout,
+        outputFile,
+        onOutput,
+        signal,
       );
 
       // Extract base64 PNG from stdout
@@ -266,6 +346,7 @@ plt.close('all')
     attrs: CodeChunk['attrs'],
     timeout: number,
     defaultLatexEngine?: string,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
     const engine = attrs.latex_engine || defaultLatexEngine || 'pdflatex';
     const tmpDir = path.join(os.tmpdir(), `mpe_latex_${Date.now()}`);
@@ -283,6 +364,9 @@ plt.close('all')
         '',
         workingDir,
         timeout,
+        undefined,
+        undefined,
+        signal,
       );
 
       if (latexResult.exitCode !== 0) {
@@ -350,6 +434,9 @@ plt.close('all')
 
   /**
    * Spawn a command and collect stdout/stderr with timeout.
+   * `outputFile` is passed to the command as the side channel file,
+   * `onOutput` is called as the output arrives, and aborting `signal` kills
+   * the command.
    */
   private spawnCommand(
     cmd: string,
@@ -357,32 +444,72 @@ plt.close('all')
     stdinData: string,
     cwd: string,
     timeout: number,
+    outputFile?: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
   ): Promise<ExecutionResult> {
     return new Promise((resolve) => {
       let stdout = '';
       let stderr = '';
 
+      if (signal?.aborted) {
+        resolve({ stdout, stderr: '[Stopped]', exitCode: 1 });
+        return;
+      }
+
       const proc = spawn(cmd, args, {
         cwd,
         shell: true,
-        timeout,
-        env: { ...process.env },
+        // In a process group of its own, so that stopping the shell also
+        // stops the program it runs
+        detached: process.platform !== 'win32',
+        // Python buffers output written to a pipe, which would hold it
+        // back until the process exits
+        env: {
+          ...process.env,
+          PYTHONUNBUFFERED: '1',
+          ...(outputFile ? { [OUTPUT_ENV]: outputFile } : {}),
+        },
       });
 
       proc.stdout?.on('data', (data: Buffer) => {
         stdout += data.toString();
+        onOutput?.(stdout, stderr);
       });
 
       proc.stderr?.on('data', (data: Buffer) => {
         stderr += data.toString();
+        onOutput?.(stdout, stderr);
       });
 
+      const onAbort = () => {
+        stderr += '\n[Stopped]';
+        signalProcess(proc, 'SIGTERM');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Rather than the timeout option of spawn, which stops only the shell
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        stderr += '\n[Timeout]';
+        signalProcess(proc, 'SIGTERM');
+      }, timeout);
+
       proc.on('error', (err) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
         resolve({ stdout, stderr: `${stderr}\n${err.message}`, exitCode: 1 });
       });
 
       proc.on('close', (code) => {
-        resolve({ stdout, stderr, exitCode: code });
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve({
+          stdout,
+          stderr,
+          exitCode: signal?.aborted || timedOut ? 1 : code,
+        });
       });
 
       if (stdinData) {
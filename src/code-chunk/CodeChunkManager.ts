@@ -5,14 +5,31 @@
  * execution via CodeChunkExecutor or CodeChunkSession, and formats output.
  */
 
+import { fileURLToPath } from 'node:url';
 import { getFullConfig } from '../config/ConfigManager';
+import { MarkdownParser } from '../markdown/MarkdownParser';
 import type {
   CodeChunk,
   CodeChunkAttributes,
   CodeChunkOutputFormat,
+  MimeBundle,
 } from '../types';
-import { CodeChunkExecutor, type ExecutionResult } from './CodeChunkExecutor';
+import { ansiToHtml } from './AnsiToHtml';
+import {
+  CodeChunkExecutor,
+  type ExecutionResult,
+  type OutputCallback,
+} from './CodeChunkExecutor';
 import { CodeChunkSession } from './CodeChunkSession';
+import { type CachedOutput, hashChunk, OutputCache } from './OutputCache';
+import { renderMimeBundle } from './RichOutput';
+
+export interface CachedChunkOutput {
+  chunkId: string;
+  output: CachedOutput;
+  // The chunk has changed since the output was cached
+  stale: boolean;
+}
 
 /**
  * Regex to extract fenced code blocks with their info strings and content.
@@ -45,6 +62,7 @@ function parseCodeChunkAttrs(
     latex_width: '',
     latex_height: '',
     latex_engine: 'pdflatex',
+    kernel: '',
   };
 
   if (!attrStr) return attrs;
@@ -194,6 +212,9 @@ function setAttr(attrs: CodeChunkAttributes, key: string, value: string): void {
     case 'latex_engine':
       attrs.latex_engine = value;
       break;
+    case 'kernel':
+      attrs.kernel = value;
+      break;
   }
 }
 
@@ -205,6 +226,19 @@ export class CodeChunkManager {
   private chunkOrder: string[] = [];
   private executor: CodeChunkExecutor = new CodeChunkExecutor();
   private session: CodeChunkSession = new CodeChunkSession();
+  private cache: OutputCache | null = null;
+  // Running chunks, with the controllers that stop them
+  private running: Map<string, AbortController> = new Map();
+
+  /**
+   * @param sourceUri Document of the chunks; the outputs of chunks in
+   * `file:` documents are cached on disk
+   */
+  constructor(sourceUri?: string) {
+    if (sourceUri?.startsWith('file:')) {
+      this.cache = new OutputCache(fileURLToPath(sourceUri));
+    }
+  }
 
   /**
    * Parse all code chunks from markdown source text.
@@ -244,6 +278,7 @@ export class CodeChunkManager {
         attrs,
         line: lineOffset,
         result: '',
+        stdout: '',
         status: 'idle',
         running: false,
         error: '',
@@ -257,44 +292,74 @@ export class CodeChunkManager {
   }
 
   /**
-   * Run a single code chunk by ID.
+   * Run a single code chunk by ID. `onProgress` is called with the output
+   * rendered so far each time the chunk writes some.
    */
   async runChunk(
     chunkId: string,
     workingDir: string,
+    onProgress?: (html: string) => void,
   ): Promise<CodeChunk | null> {
     const chunk = this.chunks.get(chunkId);
     if (!chunk) return null;
 
     const config = getFullConfig();
+    // Hashed before the run, as the chunks may be parsed again meanwhile
+    const hash = this.getChunkHash(chunk);
 
     chunk.status = 'running';
     chunk.running = true;
+    const controller = new AbortController();
+    this.running.set(chunkId, controller);
     chunk.error = '';
+    chunk.stdout = '';
 
     try {
       // Build combined code for continue chains
       const combinedCode = this.buildContinuedCode(chunkId);
-      let result: ExecutionResult;
+      const sessionId = this.getSessionId(chunk);
+      let result: ExecutionResult | null = null;
+      const onOutput: OutputCallback | undefined =
+        onProgress &&
+        ((stdout, stderr) =>
+          onProgress(this.renderProgress(stdout, stderr, chunk)));
+
+      // Continue chunks share a Jupyter kernel with the jupyter backend,
+      // when one is installed for the language
+      if (
+        chunk.attrs.continue !== false &&
+        config.codeChunk.sessionBackend === 'jupyter'
+      ) {
+        result = await this.session.sendCodeToKernel(
+          chunk.language,
+          sessionId,
+          chunk.code,
+          workingDir,
+          config.codeChunk.executionTimeout,
+          chunk.attrs.kernel || undefined,
+          onOutput,
+          controller.signal,
+        );
+      }
 
       // Use session for continue chunks
-      if (chunk.attrs.continue !== false) {
-        const sessionId =
-          typeof chunk.attrs.continue === 'string' &&
-          chunk.attrs.continue !== 'true'
-            ? chunk.attrs.continue
-            : chunk.language;
+      if (result) {
+        // Ran on a kernel
+      } else if (chunk.attrs.continue !== false) {
         const sessionResult = await this.session.sendCode(
           chunk.language,
           sessionId,
           chunk.code, // Only send this chunk's code to session (previous code already executed)
           workingDir,
           config.codeChunk.executionTimeout,
+          onOutput,
+          controller.signal,
         );
         result = {
           stdout: sessionResult.stdout,
           stderr: sessionResult.stderr,
           exitCode: sessionResult.stderr ? 1 : 0,
+          outputs: sessionResult.outputs,
         };
       } else {
         result = await this.executor.execute(
@@ -305,6 +370,8 @@ export class CodeChunkManager {
           config.codeChunk.executionTimeout,
           config.codeChunk.defaultShell || undefined,
           config.codeChunk.latexEngine || undefined,
+          onOutput,
+          controller.signal,
         );
       }
 
@@ -313,9 +380,12 @@ export class CodeChunkManager {
         result.stderr,
         chunk.attrs.output,
         chunk.attrs.matplotlib,
+        result.outputs,
       );
+      chunk.stdout = result.stdout;
       chunk.status = result.exitCode === 0 ? 'success' : 'error';
       chunk.error = result.stderr;
+      this.saveOutput(chunk, hash);
     } catch (err) {
       chunk.status = 'error';
       chunk.error = String(err);
@@ -324,34 +394,67 @@ export class CodeChunkManager {
       )}</pre>`;
     } finally {
       chunk.running = false;
+      if (this.running.get(chunkId) === controller) {
+        this.running.delete(chunkId);
+      }
     }
 
     return chunk;
   }
 
   /**
-   * Run all code chunks sequentially.
+   * Whether a chunk is running.
    */
-  async runAllChunks(workingDir: string): Promise<CodeChunk[]> {
-    const results: CodeChunk[] = [];
-    for (const id of this.chunkOrder) {
-      const result = await this.runChunk(id, workingDir);
-      if (result) results.push(result);
-    }
-    return results;
+  isChunkRunning(chunkId: string): boolean {
+    return this.running.has(chunkId);
+  }
+
+  /**
+   * Stop a running chunk: its process is killed, or the session it runs in
+   * is interrupted. Returns false when the chunk is not running.
+   */
+  stopChunk(chunkId: string): boolean {
+    const controller = this.running.get(chunkId);
+    controller?.abort();
+    return Boolean(controller);
+  }
+
+  /**
+   * Interrupt the session of a `continue` chunk (SIGINT).
+   * Returns false when the chunk has no session running.
+   */
+  interruptSession(chunkId: string): boolean {
+    const chunk = this.chunks.get(chunkId);
+    if (!chunk || chunk.attrs.continue === false) return false;
+    return this.session.interrupt(
+      chunk.language,
+      this.getSessionId(chunk),
+      chunk.attrs.kernel || undefined,
+    );
   }
 
   /**
-   * Run only chunks that have run_on_save=true.
+   * Restart the session of a `continue` chunk, discarding its state.
+   * Returns false when the chunk has no session running.
    */
-  async runOnSaveChunks(workingDir: string): Promise<CodeChunk[]> {
+  restartSession(chunkId: string): boolean {
+    const chunk = this.chunks.get(chunkId);
+    if (!chunk || chunk.attrs.continue === false) return false;
+    return this.session.restart(
+      chunk.language,
+      this.getSessionId(chunk),
+      chunk.attrs.kernel || undefined,
+    );
+  }
+
+  /**
+   * Run all code chunks sequentially.
+   */
+  async runAllChunks(workingDir: string): Promise<CodeChunk[]> {
     const results: CodeChunk[] = [];
     for (const id of this.chunkOrder) {
-      const chunk = this.chunks.get(id);
-      if (chunk?.attrs.run_on_save) {
-        const result = await this.runChunk(id, workingDir);
-        if (result) results.push(result);
-      }
+      const result = await this.runChunk(id, workingDir);
+      if (result) results.push(result);
     }
     return results;
   }
@@ -434,6 +537,94 @@ export class CodeChunkManager {
     codeBlocks.push(chunk.code);
   }
 
+  /**
+   * ID of the session that a `continue` chunk runs in: the chunk it
+   * continues, or its language.
+   */
+  private getSessionId(chunk: CodeChunk): string {
+    return typeof chunk.attrs.continue === 'string' &&
+      chunk.attrs.continue !== 'true'
+      ? chunk.attrs.continue
+      : chunk.language;
+  }
+
+  /**
+   * Hash of what a chunk runs: its language, attributes and the code of
+   * its continue chain.
+   */
+  private getChunkHash(chunk: CodeChunk): string {
+    return hashChunk([
+      chunk.language,
+      chunk.attrs,
+      this.buildContinuedCode(chunk.id),
+    ]);
+  }
+
+  /**
+   * Cache the output of a chunk's last run on disk, with the hash of what
+   * it ran.
+   */
+  private saveOutput(chunk: CodeChunk, hash: string): void {
+    try {
+      this.cache?.set(
+        chunk.id,
+        {
+          hash,
+          result: chunk.result,
+          stdout: chunk.stdout,
+          status: chunk.status,
+          error: chunk.error,
+        },
+        this.chunkOrder,
+      );
+    } catch (err) {
+      console.warn('Failed to cache code chunk output:', err);
+    }
+  }
+
+  /**
+   * Cached outputs of the parsed chunks that are not running, from their
+   * last run. An output is stale when the chunk's code, attributes or
+   * continue chain have changed since.
+   */
+  getCachedOutputs(): CachedChunkOutput[] {
+    const outputs: CachedChunkOutput[] = [];
+    for (const id of this.chunkOrder) {
+      const chunk = this.chunks.get(id);
+      if (!chunk || !this.cache || this.running.has(id)) continue;
+      const hash = this.getChunkHash(chunk);
+      const output = this.cache.get(id, hash);
+      if (output) {
+        outputs.push({ chunkId: id, output, stale: output.hash !== hash });
+      }
+    }
+    return outputs;
+  }
+
+  /**
+   * Delete the document's cached outputs.
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Render the output of a chunk that is still running. Only text output
+   * shows as it streams; the other formats are complete once the chunk ends.
+   */
+  private renderProgress(
+    stdout: string,
+    stderr: string,
+    chunk: CodeChunk,
+  ): string {
+    const showStdout = chunk.attrs.output === 'text' && !chunk.attrs.matplotlib;
+    return this.renderOutput(
+      showStdout ? stdout : '',
+      stderr,
+      showStdout ? 'text' : 'none',
+    );
+  }
+
   /**
    * Render execution output based on the output format.
    */
@@ -442,6 +633,7 @@ export class CodeChunkManager {
     stderr: string,
     format: CodeChunkOutputFormat,
     isMatplotlib: boolean = false,
+    outputs: MimeBundle[] = [],
   ): string {
     let html = '';
 
@@ -452,7 +644,7 @@ export class CodeChunkManager {
       switch (format) {
         case 'text':
           html = stdout
-            ? `<pre class="code-chunk-output-text">${escapeHtml(stdout)}</pre>`
+            ? `<pre class="code-chunk-output-text">${ansiToHtml(stdout)}</pre>`
             : '';
           break;
         case 'html':
@@ -473,9 +665,23 @@ export class CodeChunkManager {
       }
     }
 
+    // Rich outputs, from a Jupyter kernel or the side channel, follow the
+    // streamed output
+    if (format !== 'none') {
+      // Markdown outputs render with the document's markdown settings
+      let parser: MarkdownParser | undefined;
+      const renderMarkdown = (markdown: string) => {
+        parser ??= new MarkdownParser(getFullConfig());
+        return parser.render(markdown, { noSourceLines: true });
+      };
+      for (const bundle of outputs) {
+        html += renderMimeBundle(bundle, renderMarkdown);
+      }
+    }
+
     // Always show stderr if present
     if (stderr) {
-      html += `<pre class="code-chunk-error">${escapeHtml(stderr)}</pre>`;
+      html += `<pre class="code-chunk-error">${ansiToHtml(stderr)}</pre>`;
     }
 
     return html;
@@ -533,7 +739,7 @@ const managerCache: Map<string, CodeChunkManager> = new Map();
 export function getCodeChunkManager(sourceUri: string): CodeChunkManager {
   let manager = managerCache.get(sourceUri);
   if (!manager) {
-    manager = new CodeChunkManager();
+    manager = new CodeChunkManager(sourceUri);
     managerCache.set(sourceUri, manager);
   }
   return manager;
@@ -3,16 +3,40 @@
  *
  * When a code chunk uses `continue=true` or `continue="id"`, it shares
  * a persistent REPL process so that variables/state carry across chunks.
+ * With the `jupyter` session backend the chain shares a Jupyter kernel
+ * instead.
  */
 
 import { type ChildProcess, spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { MimeBundle } from '../types';
+import {
+  type ExecutionResult,
+  type OutputCallback,
+  signalProcess,
+} from './CodeChunkExecutor';
+import { findKernelSpec, JupyterKernel } from './JupyterKernel';
+import { OUTPUT_ENV, takeOutputs } from './RichOutput';
 
 interface Session {
   process: ChildProcess;
   language: string;
   cwd: string;
+  // Side channel file of the rich outputs, read after each chunk
+  outputFile: string;
+  // Ends the wait of the chunk running in the session, with a message
+  // for its stderr
+  settle?: (message: string) => void;
 }
 
+const DELIMITER_PREFIX = '__MPE_SESSION_END__';
+
+// Delimiters of earlier chunks whose wait ended before their output did,
+// e.g. when interrupted
+const STALE_DELIMITER_PATTERN = new RegExp(`${DELIMITER_PREFIX}\\w+\\n?`, 'g');
+
 /**
  * Builds a language-specific echo command that prints a delimiter string.
  * Used to detect when a code chunk's output ends in the persistent session.
@@ -43,8 +67,21 @@ function buildDelimiterEcho(language: string, delimiter: string): string {
   }
 }
 
+/**
+ * Output short of the start of a delimiter that may be arriving in pieces
+ */
+function withoutPartialDelimiter(output: string, delimiter: string): string {
+  for (let length = delimiter.length - 1; length > 0; length--) {
+    if (output.endsWith(delimiter.slice(0, length))) {
+      return output.slice(0, -length);
+    }
+  }
+  return output;
+}
+
 export class CodeChunkSession {
   private sessions: Map<string, Session> = new Map();
+  private kernels: Map<string, Promise<JupyterKernel>> = new Map();
 
   /**
    * Get or create a persistent session for a given language and session ID.
@@ -55,32 +92,51 @@ export class CodeChunkSession {
     cwd: string,
   ): Session {
     const key = `${language}:${sessionId}`;
-    let session = this.sessions.get(key);
+    const session = this.sessions.get(key);
     if (session && !session.process.killed) {
       return session;
     }
 
     // Determine the command for the REPL process
     const cmd = this.getInterpreterCommand(language);
+    const outputFile = path.join(
+      os.tmpdir(),
+      `mpe_session_output_${Date.now()}_${Math.random()
+        .toString(36)
+        .slice(2)}.jsonl`,
+    );
     const proc = spawn(cmd, [], {
       cwd,
       shell: true,
+      // In a process group of its own, so that signals reach the
+      // interpreter rather than just the shell
+      detached: process.platform !== 'win32',
       stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, PYTHONUNBUFFERED: '1', [OUTPUT_ENV]: outputFile },
     });
 
-    session = { process: proc, language, cwd };
-    this.sessions.set(key, session);
+    const created: Session = { process: proc, language, cwd, outputFile };
+    this.sessions.set(key, created);
 
+    proc.stdin?.on('error', () => {
+      // The interpreter exited; 'exit' ends the wait
+    });
     proc.on('exit', () => {
-      this.sessions.delete(key);
+      if (this.sessions.get(key) === created) {
+        this.sessions.delete(key);
+      }
+      created.settle?.('[Session exited]');
+      fs.rmSync(outputFile, { force: true });
     });
 
-    return session;
+    return created;
   }
 
   /**
    * Send code to a persistent session and wait for output.
-   * Returns stdout collected up to a delimiter marker.
+   * Returns stdout collected up to a delimiter marker, and the rich outputs
+   * written to the side channel meanwhile. `onOutput` is called as the
+   * output arrives, and aborting `signal` interrupts the session.
    */
   sendCode(
     language: string,
@@ -88,44 +144,67 @@ export class CodeChunkSession {
     code: string,
     cwd: string,
     timeout: number,
-  ): Promise<{ stdout: string; stderr: string }> {
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
+  ): Promise<{ stdout: string; stderr: string; outputs: MimeBundle[] }> {
     return new Promise((resolve, _reject) => {
       const session = this.getOrCreateSession(language, sessionId, cwd);
       const proc = session.process;
-      const delimiter = `__MPE_SESSION_END__${Date.now()}_${Math.random()
+      const delimiter = `${DELIMITER_PREFIX}${Date.now()}_${Math.random()
         .toString(36)
         .slice(2)}`;
 
       let stdout = '';
       let stderr = '';
-      let settled = false;
 
-      const timer = setTimeout(() => {
-        if (!settled) {
-          settled = true;
-          resolve({ stdout, stderr: `${stderr}\n[Timeout]` });
+      const settle = (message: string) => {
+        clearTimeout(timer);
+        proc.stdout?.off('data', onStdout);
+        proc.stderr?.off('data', onStderr);
+        signal?.removeEventListener('abort', onAbort);
+        if (session.settle === settle) {
+          session.settle = undefined;
         }
-      }, timeout);
+        resolve({
+          stdout: stdout.replace(STALE_DELIMITER_PATTERN, ''),
+          stderr: message ? `${stderr}\n${message}` : stderr,
+          outputs: takeOutputs(session.outputFile),
+        });
+      };
+
+      const timer = setTimeout(() => settle('[Timeout]'), timeout);
+
+      // Output so far, for onOutput
+      const getProgress = () =>
+        withoutPartialDelimiter(stdout, delimiter).replace(
+          STALE_DELIMITER_PATTERN,
+          '',
+        );
+
+      const onAbort = () => {
+        signalProcess(proc, 'SIGINT');
+        settle('[Stopped]');
+      };
 
       const onStdout = (data: Buffer) => {
         const text = data.toString();
         stdout += text;
         const delimIdx = stdout.indexOf(delimiter);
         if (delimIdx !== -1) {
-          clearTimeout(timer);
-          if (!settled) {
-            settled = true;
-            proc.stdout?.off('data', onStdout);
-            proc.stderr?.off('data', onStderr);
-            resolve({ stdout: stdout.substring(0, delimIdx), stderr });
-          }
+          stdout = stdout.substring(0, delimIdx);
+          settle('');
+        } else {
+          onOutput?.(getProgress(), stderr);
         }
       };
 
       const onStderr = (data: Buffer) => {
         stderr += data.toString();
+        onOutput?.(getProgress(), stderr);
       };
 
+      session.settle = settle;
+      signal?.addEventListener('abort', onAbort, { once: true });
       proc.stdout?.on('data', onStdout);
       proc.stderr?.on('data', onStderr);
 
@@ -135,6 +214,114 @@ export class CodeChunkSession {
     });
   }
 
+  /**
+   * Send code to the Jupyter kernel of a session, started on first use.
+   * `kernelName` picks the kernelspec, otherwise the first one installed
+   * for the language is used. Returns null when there is no kernel for the
+   * language, so the caller can fall back to a REPL process. `onOutput` is
+   * called as the streams output arrives, and aborting `signal` interrupts
+   * the kernel.
+   */
+  async sendCodeToKernel(
+    language: string,
+    sessionId: string,
+    code: string,
+    cwd: string,
+    timeout: number,
+    kernelName?: string,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
+  ): Promise<ExecutionResult | null> {
+    const key = `${kernelName || language}:${sessionId}`;
+    let kernel = this.kernels.get(key);
+    if (!kernel) {
+      const spec = findKernelSpec(language, kernelName);
+      if (!spec) {
+        return kernelName
+          ? {
+              stdout: '',
+              stderr: `Jupyter kernel "${kernelName}" is not installed.`,
+              exitCode: 1,
+            }
+          : null;
+      }
+      const starting = new JupyterKernel(spec);
+      kernel = starting.start(cwd).then(() => starting);
+      this.kernels.set(key, kernel);
+    }
+
+    let running: JupyterKernel;
+    try {
+      running = await kernel;
+    } catch (err) {
+      this.kernels.delete(key);
+      return { stdout: '', stderr: (err as Error).message, exitCode: 1 };
+    }
+    if (!running.isAlive()) {
+      // The kernel died since the last chunk; start a fresh one
+      this.kernels.delete(key);
+      return this.sendCodeToKernel(
+        language,
+        sessionId,
+        code,
+        cwd,
+        timeout,
+        kernelName,
+        onOutput,
+        signal,
+      );
+    }
+    return running.execute(code, timeout, onOutput, signal);
+  }
+
+  /**
+   * Interrupt the code running in a session, like Ctrl+C: SIGINT to its
+   * interpreter, or an interrupt request to its Jupyter kernel. Interpreters
+   * that exit on it start again with the next chunk. Returns false when the
+   * session has not started.
+   */
+  interrupt(language: string, sessionId: string, kernelName?: string): boolean {
+    const session = this.sessions.get(`${language}:${sessionId}`);
+    if (session) {
+      signalProcess(session.process, 'SIGINT');
+      session.settle?.('[Interrupted]');
+    }
+    const kernel = this.kernels.get(`${kernelName || language}:${sessionId}`);
+    kernel?.then(
+      (running) => running.interrupt(),
+      () => {
+        // never started
+      },
+    );
+    return Boolean(session || kernel);
+  }
+
+  /**
+   * End a session, discarding its state; the next chunk starts a fresh
+   * one. Returns false when the session has not started.
+   */
+  restart(language: string, sessionId: string, kernelName?: string): boolean {
+    const key = `${language}:${sessionId}`;
+    const session = this.sessions.get(key);
+    if (session) {
+      this.sessions.delete(key);
+      session.settle?.('[Session restarted]');
+      signalProcess(session.process, 'SIGKILL');
+    }
+    const kernelKey = `${kernelName || language}:${sessionId}`;
+    const kernel = this.kernels.get(kernelKey);
+    if (kernel) {
+      this.kernels.delete(kernelKey);
+      kernel.then(
+        (running) => running.shutdown(),
+        () => {
+          // never started
+        },
+      );
+    }
+    return Boolean(session || kernel);
+  }
+
   /**
    * Determine the interpreter command for a language.
    */
@@ -157,16 +344,22 @@ export class CodeChunkSession {
   }
 
   /**
-   * Kill all persistent sessions and clean up.
+   * Kill all persistent sessions and kernels and clean up.
    */
   dispose(): void {
     for (const [, session] of this.sessions) {
-      try {
-        session.process.kill();
-      } catch {
-        // ignore
-      }
+      signalProcess(session.process, 'SIGTERM');
+      fs.rmSync(session.outputFile, { force: true });
     }
     this.sessions.clear();
+    for (const [, kernel] of this.kernels) {
+      kernel.then(
+        (running) => running.shutdown(),
+        () => {
+          // never started
+        },
+      );
+    }
+    this.kernels.clear();
   }
 }
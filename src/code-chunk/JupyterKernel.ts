@@ -0,0 +1,532 @@
+/**
+ * JupyterKernel - runs code on a locally installed Jupyter kernel.
+ *
+ * Starts the kernel from its kernelspec and speaks the Jupyter messaging
+ * protocol over ZeroMQ: execute requests on the shell channel, outputs on
+ * the IOPub channel, interrupts and shutdown on the control channel.
+ */
+
+import { type ChildProcess, spawn } from 'node:child_process';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { MimeBundle } from '../types';
+import type { ExecutionResult, OutputCallback } from './CodeChunkExecutor';
+import { ZmqSocket } from './ZmqSocket';
+
+export interface KernelSpec {
+  name: string;
+  displayName: string;
+  language: string;
+  argv: string[];
+  env: Record<string, string>;
+  interruptMode: 'signal' | 'message';
+}
+
+// Content of the messages read from the kernel, by message type
+interface KernelMessageContent {
+  execute_reply: { status: 'ok' | 'error' | 'aborted' };
+  stream: { name: 'stdout' | 'stderr'; text: string };
+  execute_result: { data: MimeBundle };
+  display_data: { data: MimeBundle };
+  clear_output: { wait: boolean };
+  error: { ename: string; evalue: string; traceback: string[] };
+  status: { execution_state: 'starting' | 'busy' | 'idle' };
+}
+
+// A decoded message, with the id of the request it answers. Messages of
+// other types are decoded too, and ignored.
+type KernelMessage = {
+  [Type in keyof KernelMessageContent]: {
+    type: Type;
+    parentId: string;
+    content: KernelMessageContent[Type];
+  };
+}[keyof KernelMessageContent];
+
+interface PendingExecution {
+  result: ExecutionResult & { outputs: MimeBundle[] };
+  replied: boolean;
+  idle: boolean;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: ExecutionResult) => void;
+  onOutput?: OutputCallback;
+}
+
+const HOST = '127.0.0.1';
+const DELIMITER = '<IDS|MSG>';
+const PROTOCOL_VERSION = '5.3';
+const STARTUP_TIMEOUT = 60000;
+const KERNEL_INFO_INTERVAL = 500;
+const SHUTDOWN_GRACE = 2000;
+
+// Chunk languages whose kernels report another language name
+const LANGUAGE_ALIASES: Record<string, string> = {
+  python3: 'python',
+  js: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  sh: 'bash',
+  zsh: 'bash',
+};
+
+/**
+ * Folders that Jupyter looks for kernelspecs in, most specific first
+ */
+function getKernelDirs(): string[] {
+  const home = os.homedir();
+  const dirs = (process.env.JUPYTER_PATH ?? '')
+    .split(path.delimiter)
+    .filter(Boolean);
+  if (process.env.JUPYTER_DATA_DIR) {
+    dirs.push(process.env.JUPYTER_DATA_DIR);
+  }
+  if (process.platform === 'win32') {
+    dirs.push(path.join(process.env.APPDATA ?? home, 'jupyter'));
+  } else if (process.platform === 'darwin') {
+    dirs.push(path.join(home, 'Library', 'Jupyter'));
+  } else {
+    dirs.push(
+      path.join(
+        process.env.XDG_DATA_HOME ?? path.join(home, '.local', 'share'),
+        'jupyter',
+      ),
+    );
+  }
+  // Kernels installed in the active virtualenv or conda environment
+  for (const prefix of [process.env.VIRTUAL_ENV, process.env.CONDA_PREFIX]) {
+    if (prefix) {
+      dirs.push(path.join(prefix, 'share', 'jupyter'));
+    }
+  }
+  if (process.platform === 'win32') {
+    dirs.push(
+      path.join(process.env.PROGRAMDATA ?? 'C:\\ProgramData', 'jupyter'),
+    );
+  } else {
+    dirs.push('/usr/local/share/jupyter', '/usr/share/jupyter');
+  }
+  return dirs.map((dir) => path.join(dir, 'kernels'));
+}
+
+/**
+ * Find the kernelspec named `name`, or else the first one for the language.
+ * Returns null when no such kernel is installed.
+ */
+export function findKernelSpec(
+  language: string,
+  name?: string,
+): KernelSpec | null {
+  const wanted = (LANGUAGE_ALIASES[language] ?? language).toLowerCase();
+  for (const dir of getKernelDirs()) {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir).sort();
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (name && entry !== name) {
+        continue;
+      }
+      try {
+        const json = JSON.parse(
+          fs.readFileSync(path.join(dir, entry, 'kernel.json'), 'utf-8'),
+        );
+        const valid =
+          Array.isArray(json.argv) &&
+          json.argv.length > 0 &&
+          json.argv.every((arg: unknown) => typeof arg === 'string');
+        if (!valid) {
+          continue;
+        }
+        if (name || String(json.language).toLowerCase() === wanted) {
+          return {
+            name: entry,
+            displayName: json.display_name ?? entry,
+            language: json.language ?? language,
+            argv: json.argv,
+            env: json.env ?? {},
+            interruptMode:
+              json.interrupt_mode === 'message' ? 'message' : 'signal',
+          };
+        }
+      } catch {
+        // Not a kernelspec
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Ports that are free on the loopback interface right now
+ */
+function getFreePorts(count: number): Promise<number[]> {
+  const servers = Array.from({ length: count }, () => net.createServer());
+  return Promise.all(
+    servers.map(
+      (server) =>
+        new Promise<number>((resolve, reject) => {
+          server.once('error', reject);
+          server.listen(0, HOST, () =>
+            resolve((server.address() as net.AddressInfo).port),
+          );
+        }),
+    ),
+  ).finally(() => {
+    for (const server of servers) {
+      server.close();
+    }
+  });
+}
+
+export class JupyterKernel {
+  readonly spec: KernelSpec;
+  private process: ChildProcess | null = null;
+  private key = crypto.randomUUID();
+  private session = crypto.randomUUID();
+  private connectionFile = '';
+  private shell: ZmqSocket;
+  private iopub: ZmqSocket;
+  private control: ZmqSocket;
+  private executions = new Map<string, PendingExecution>();
+  private onStarted: ((error?: Error) => void) | undefined;
+  private stderr = '';
+  private exited = false;
+
+  constructor(spec: KernelSpec) {
+    this.spec = spec;
+    this.shell = new ZmqSocket('DEALER', (frames) =>
+      this.onShellMessage(frames),
+    );
+    this.iopub = new ZmqSocket('SUB', (frames) => this.onIopubMessage(frames));
+    this.control = new ZmqSocket('DEALER', () => {
+      // Replies on the control channel are not needed
+    });
+  }
+
+  /**
+   * Launch the kernel in `cwd` and wait until it answers
+   */
+  async start(cwd: string): Promise<void> {
+    const [shellPort, iopubPort, stdinPort, controlPort, hbPort] =
+      await getFreePorts(5);
+    this.connectionFile = path.join(
+      os.tmpdir(),
+      `mlp-kernel-${this.session}.json`,
+    );
+    fs.writeFileSync(
+      this.connectionFile,
+      JSON.stringify({
+        ip: HOST,
+        transport: 'tcp',
+        shell_port: shellPort,
+        iopub_port: iopubPort,
+        stdin_port: stdinPort,
+        control_port: controlPort,
+        hb_port: hbPort,
+        key: this.key,
+        signature_scheme: 'hmac-sha256',
+        kernel_name: this.spec.name,
+      }),
+    );
+
+    const [command, ...args] = this.spec.argv.map((arg) =>
+      arg.replace('{connection_file}', this.connectionFile),
+    );
+    let proc: ChildProcess;
+    try {
+      proc = spawn(command, args, {
+        cwd,
+        env: { ...process.env, ...this.spec.env },
+        stdio: ['ignore', 'ignore', 'pipe'],
+      });
+    } catch (error) {
+      this.onExit('');
+      throw error;
+    }
+    this.process = proc;
+    proc.stderr?.on('data', (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString()).slice(-2000);
+    });
+    proc.on('error', (error) => this.onExit(error.message));
+    proc.on('exit', () => this.onExit(this.stderr.trim()));
+
+    const started = new Promise<void>((resolve, reject) => {
+      const deadline = setTimeout(
+        () =>
+          this.onStarted?.(
+            new Error(`Jupyter kernel "${this.spec.name}" did not start.`),
+          ),
+        STARTUP_TIMEOUT,
+      );
+      // Kernels drop requests sent before they listen, so ask until one
+      // is answered on IOPub, which also means the subscription is active
+      const poll = setInterval(
+        () => this.send(this.shell, 'kernel_info_request', {}),
+        KERNEL_INFO_INTERVAL,
+      );
+      this.onStarted = (error) => {
+        clearTimeout(deadline);
+        clearInterval(poll);
+        this.onStarted = undefined;
+        if (error) {
+          this.shutdown();
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+    });
+
+    this.shell.connect(HOST, shellPort);
+    this.iopub.connect(HOST, iopubPort);
+    this.control.connect(HOST, controlPort);
+    this.send(this.shell, 'kernel_info_request', {});
+    await started;
+  }
+
+  isAlive(): boolean {
+    return !this.exited;
+  }
+
+  /**
+   * Execute code and collect its output: streams into stdout and stderr,
+   * rich results and displays into `outputs`, errors as a traceback.
+   * Interrupts the kernel when the code runs longer than `timeout`.
+   * `onOutput` is called as the streams output arrives, and aborting
+   * `signal` interrupts the kernel.
+   */
+  execute(
+    code: string,
+    timeout: number,
+    onOutput?: OutputCallback,
+    signal?: AbortSignal,
+  ): Promise<ExecutionResult> {
+    if (this.exited) {
+      return Promise.resolve({
+        stdout: '',
+        stderr: `Jupyter kernel "${this.spec.name}" is not running.`,
+        exitCode: 1,
+      });
+    }
+    return new Promise((resolve) => {
+      const msgId = this.send(this.shell, 'execute_request', {
+        code,
+        silent: false,
+        store_history: true,
+        user_expressions: {},
+        allow_stdin: false,
+        stop_on_error: true,
+      });
+      const execution: PendingExecution = {
+        result: { stdout: '', stderr: '', exitCode: 0, outputs: [] },
+        replied: false,
+        idle: false,
+        timer: setTimeout(() => {
+          this.executions.delete(msgId);
+          this.interrupt();
+          execution.result.stderr += '\n[Timeout]';
+          execution.result.exitCode = 1;
+          resolve(execution.result);
+        }, timeout),
+        resolve,
+        onOutput,
+      };
+      this.executions.set(msgId, execution);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (this.executions.has(msgId)) {
+            this.interrupt();
+          }
+        },
+        { once: true },
+      );
+    });
+  }
+
+  /**
+   * Interrupt the code that the kernel is running
+   */
+  interrupt(): void {
+    if (this.spec.interruptMode === 'message') {
+      this.send(this.control, 'interrupt_request', {});
+    } else {
+      this.process?.kill('SIGINT');
+    }
+  }
+
+  /**
+   * Ask the kernel to shut down, and kill it if it does not exit in time
+   */
+  shutdown(): void {
+    if (!this.exited) {
+      this.send(this.control, 'shutdown_request', { restart: false });
+      setTimeout(() => this.process?.kill(), SHUTDOWN_GRACE).unref();
+    }
+    this.onExit('');
+  }
+
+  private onExit(reason: string): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.onStarted?.(
+      new Error(
+        `Jupyter kernel "${this.spec.name}" exited.${reason ? `\n${reason}` : ''}`,
+      ),
+    );
+    for (const execution of this.executions.values()) {
+      clearTimeout(execution.timer);
+      execution.result.stderr += `\nJupyter kernel "${this.spec.name}" exited.`;
+      execution.result.exitCode = 1;
+      execution.resolve(execution.result);
+    }
+    this.executions.clear();
+    // Let the shutdown request go out before closing the sockets
+    setTimeout(() => {
+      this.shell.close();
+      this.iopub.close();
+      this.control.close();
+    }, 100).unref();
+    fs.rm(this.connectionFile, { force: true }, () => {});
+  }
+
+  private onShellMessage(frames: Buffer[]): void {
+    const message = this.parse(frames);
+    const execution = this.executions.get(message?.parentId ?? '');
+    if (!message || !execution) {
+      return;
+    }
+    if (message.type === 'execute_reply') {
+      execution.replied = true;
+      if (message.content.status !== 'ok') {
+        execution.result.exitCode = 1;
+      }
+      this.settle(message.parentId);
+    }
+  }
+
+  private onIopubMessage(frames: Buffer[]): void {
+    const message = this.parse(frames);
+    if (!message) {
+      return;
+    }
+    this.onStarted?.();
+
+    const msgId = message.parentId;
+    const execution = this.executions.get(msgId);
+    if (!execution) {
+      return;
+    }
+    const { result } = execution;
+    switch (message.type) {
+      case 'stream':
+        if (message.content.name === 'stderr') {
+          result.stderr += message.content.text;
+        } else {
+          result.stdout += message.content.text;
+        }
+        execution.onOutput?.(result.stdout, result.stderr);
+        break;
+      case 'execute_result':
+      case 'display_data':
+        result.outputs.push(message.content.data);
+        break;
+      case 'clear_output':
+        result.stdout = '';
+        result.outputs = [];
+        execution.onOutput?.(result.stdout, result.stderr);
+        break;
+      case 'error':
+        // Tracebacks are coloured with ANSI sequences, like terminal output
+        result.stderr += message.content.traceback.join('\n');
+        result.exitCode = 1;
+        execution.onOutput?.(result.stdout, result.stderr);
+        break;
+      case 'status':
+        if (message.content.execution_state === 'idle') {
+          execution.idle = true;
+          this.settle(msgId);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Resolve an execution once it is replied to and its output is complete
+   */
+  private settle(msgId: string): void {
+    const execution = this.executions.get(msgId);
+    if (execution?.replied && execution.idle) {
+      clearTimeout(execution.timer);
+      this.executions.delete(msgId);
+      execution.resolve(execution.result);
+    }
+  }
+
+  private send(
+    socket: ZmqSocket,
+    msgType: string,
+    content: Record<string, unknown>,
+  ): string {
+    const msgId = crypto.randomUUID();
+    const parts = [
+      {
+        msg_id: msgId,
+        session: this.session,
+        username: 'markdown-live-preview',
+        date: new Date().toISOString(),
+        msg_type: msgType,
+        version: PROTOCOL_VERSION,
+      },
+      {},
+      {},
+      content,
+    ].map((part) => Buffer.from(JSON.stringify(part)));
+    socket.send([Buffer.from(DELIMITER), this.sign(parts), ...parts]);
+    return msgId;
+  }
+
+  /**
+   * Decode a message, dropping those with a wrong signature
+   */
+  private parse(frames: Buffer[]): KernelMessage | null {
+    const index = frames.findIndex(
+      (frame) =>
+        frame.length === DELIMITER.length && frame.toString() === DELIMITER,
+    );
+    if (index === -1 || frames.length < index + 6) {
+      return null;
+    }
+    const [signature, header, parent, metadata, content] = frames.slice(
+      index + 1,
+      index + 6,
+    );
+    if (!signature.equals(this.sign([header, parent, metadata, content]))) {
+      return null;
+    }
+    try {
+      return {
+        type: JSON.parse(header.toString()).msg_type,
+        parentId: JSON.parse(parent.toString()).msg_id ?? '',
+        content: JSON.parse(content.toString()),
+      } as KernelMessage;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(parts: Buffer[]): Buffer {
+    const hmac = crypto.createHmac('sha256', this.key);
+    for (const part of parts) {
+      hmac.update(part);
+    }
+    return Buffer.from(hmac.digest('hex'));
+  }
+}
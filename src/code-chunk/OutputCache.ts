@@ -0,0 +1,105 @@
+/**
+ * OutputCache - keeps the outputs of code chunks on disk, in
+ * `.mlp-cache/<document>.json` next to the document, so they survive
+ * reopening the preview and restarting VS Code
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CodeChunkStatus } from '../types';
+
+export const CACHE_DIR = '.mlp-cache';
+
+export interface CachedOutput {
+  // Hash of the code, attributes and continue chain that produced the output
+  hash: string;
+  result: string;
+  stdout: string;
+  status: CodeChunkStatus;
+  error: string;
+}
+
+/**
+ * Hash identifying what a chunk runs, see CachedOutput.hash
+ */
+export function hashChunk(parts: unknown[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(parts))
+    .digest('hex');
+}
+
+/**
+ * Remove the cache folder when its last file is gone
+ */
+export function removeCacheFile(file: string): void {
+  fs.rmSync(file, { force: true });
+  try {
+    fs.rmdirSync(path.dirname(file));
+  } catch {
+    // Not empty
+  }
+}
+
+/**
+ * Cached outputs of one document's chunks, by chunk id. The file is read
+ * on each lookup, so clearing it takes effect everywhere.
+ */
+export class OutputCache {
+  readonly file: string;
+
+  constructor(documentPath: string) {
+    this.file = path.join(
+      path.dirname(documentPath),
+      CACHE_DIR,
+      `${path.basename(documentPath)}.json`,
+    );
+  }
+
+  /**
+   * The output cached for the chunk, or else for a chunk with the same
+   * hash, e.g. one whose id changed because a chunk was inserted before it
+   */
+  get(chunkId: string, hash: string): CachedOutput | undefined {
+    const entries = this.read();
+    if (entries[chunkId]?.hash === hash) {
+      return entries[chunkId];
+    }
+    return (
+      Object.values(entries).find((entry) => entry.hash === hash) ??
+      entries[chunkId]
+    );
+  }
+
+  /**
+   * Store the output of a chunk, dropping those of chunks not in `chunkIds`
+   */
+  set(chunkId: string, output: CachedOutput, chunkIds: string[]): void {
+    const entries: Record<string, CachedOutput> = {};
+    for (const [id, entry] of Object.entries(this.read())) {
+      if (chunkIds.includes(id)) {
+        entries[id] = entry;
+      }
+    }
+    entries[chunkId] = output;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(entries, null, 2), 'utf-8');
+  }
+
+  clear(): void {
+    removeCacheFile(this.file);
+  }
+
+  private read(): Record<string, CachedOutput> {
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      // Anything but an object of entries is a damaged file
+      return entries && typeof entries === 'object' && !Array.isArray(entries)
+        ? entries
+        : {};
+    } catch {
+      return {};
+    }
+  }
+}
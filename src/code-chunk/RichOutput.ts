@@ -0,0 +1,275 @@
+/**
+ * RichOutput - renders the rich outputs of code chunks: MIME bundles from
+ * Jupyter display data, or written by any chunk to the side channel file
+ */
+
+import * as fs from 'node:fs';
+import { type DefaultTreeAdapterMap, parseFragment, serialize } from 'parse5';
+import type { MimeBundle } from '../types';
+
+type ParentNode = DefaultTreeAdapterMap['parentNode'];
+
+/**
+ * Environment variable with the path of the side channel file. A chunk
+ * appends one JSON MIME bundle per line, e.g.
+ * `{"image/svg+xml": "<svg>…</svg>"}`, and each renders as an output.
+ */
+export const OUTPUT_ENV = 'MLP_OUTPUT';
+
+const VEGA_MIME = /^application\/vnd\.vega(lite)?\.v\d+\+json$/;
+const PLOTLY_MIME = 'application/vnd.plotly.v1+json';
+
+// Elements that run code or restyle the page around the output
+const UNSAFE_ELEMENTS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'base',
+  'link',
+  'meta',
+  'form',
+  'template',
+]);
+
+// URL schemes that run code when followed or loaded
+const UNSAFE_URL = /^(javascript|vbscript|data:text\/html)/;
+
+/**
+ * Read and remove the side channel file, returning the bundles written to
+ * it in order. Lines that are not JSON objects are kept as plain text.
+ */
+export function takeOutputs(file: string): MimeBundle[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+  fs.rmSync(file, { force: true });
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        const bundle = JSON.parse(line);
+        if (bundle && typeof bundle === 'object' && !Array.isArray(bundle)) {
+          return bundle;
+        }
+      } catch {
+        // Plain text
+      }
+      return { 'text/plain': line };
+    });
+}
+
+/**
+ * Remove scripts, event handler attributes and script URLs from HTML, such
+ * as the tables that pandas renders
+ */
+export function sanitizeHtml(html: string): string {
+  const clean = (node: ParentNode) => {
+    node.childNodes = node.childNodes.filter(
+      (child) => !('tagName' in child && UNSAFE_ELEMENTS.has(child.tagName)),
+    );
+    for (const child of node.childNodes) {
+      if ('tagName' in child) {
+        child.attrs = child.attrs.filter(
+          (attr) =>
+            !attr.name.toLowerCase().startsWith('on') &&
+            !UNSAFE_URL.test(attr.value.replace(/\s+/g, '').toLowerCase()),
+        );
+        clean(child);
+      }
+    }
+  };
+  const fragment = parseFragment(html);
+  clean(fragment);
+  return serialize(fragment);
+}
+
+/**
+ * Render the richest representation in a MIME bundle. Markdown output is
+ * rendered with `renderMarkdown`, or shown as text without it.
+ */
+export function renderMimeBundle(
+  bundle: MimeBundle,
+  renderMarkdown?: (markdown: string) => string,
+): string {
+  // Multi-line text may come as a list of lines
+  const text = (mime: string): string => {
+    const value = bundle[mime];
+    return Array.isArray(value) ? value.join('') : String(value);
+  };
+  // JSON data may come serialized
+  const json = (mime: string): unknown => {
+    const value = bundle[mime];
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  };
+
+  try {
+    for (const mime of Object.keys(bundle)) {
+      const vega = mime.match(VEGA_MIME);
+      if (vega) {
+        return renderVegaSpec(json(mime), Boolean(vega[1]));
+      }
+    }
+    if (PLOTLY_MIME in bundle) {
+      const spec = plotlyToVegaLite(json(PLOTLY_MIME));
+      if (spec) {
+        return renderVegaSpec(spec, true);
+      }
+    }
+  } catch {
+    // Not JSON; fall back to the other representations
+  }
+
+  if ('image/svg+xml' in bundle) {
+    return `<div class="code-chunk-output-svg">${sanitizeHtml(text('image/svg+xml'))}</div>`;
+  }
+  for (const mime of ['image/png', 'image/jpeg', 'image/gif']) {
+    if (mime in bundle) {
+      return `<img src="data:${mime};base64,${text(mime).replace(/\s/g, '')}" alt="output" class="code-chunk-output-png">`;
+    }
+  }
+  if ('text/html' in bundle) {
+    return `<div class="code-chunk-output-html">${sanitizeHtml(text('text/html'))}</div>`;
+  }
+  if ('text/markdown' in bundle) {
+    return renderMarkdown
+      ? `<div class="code-chunk-output-markdown">${sanitizeHtml(renderMarkdown(text('text/markdown')))}</div>`
+      : `<pre class="code-chunk-output-text">${escapeHtml(text('text/markdown'))}</pre>`;
+  }
+  if ('application/json' in bundle) {
+    try {
+      return `<div class="code-chunk-output-json">${renderJsonTree(json('application/json'))}</div>`;
+    } catch {
+      // Not JSON; show it as text
+    }
+  }
+  if ('text/plain' in bundle) {
+    return `<pre class="code-chunk-output-text">${escapeHtml(text('text/plain'))}</pre>`;
+  }
+  return '';
+}
+
+/**
+ * A Vega or Vega-Lite container, which the preview renders with vega-embed
+ * like a `vega` fenced block
+ */
+function renderVegaSpec(spec: unknown, isVegaLite: boolean): string {
+  // `</` would end the script element early
+  const source = JSON.stringify(spec).replace(/</g, '\\u003c');
+  const kind = isVegaLite ? 'vega-lite' : 'vega';
+  return `<div class="${kind}"><script type="application/json">${source}</script></div>`;
+}
+
+/**
+ * Collapsible tree of a JSON value; the first level starts expanded
+ */
+function renderJsonTree(value: unknown, depth = 0): string {
+  if (value === null || typeof value !== 'object') {
+    const type = value === null ? 'null' : typeof value;
+    return `<span class="json-${type}">${escapeHtml(JSON.stringify(value) ?? String(value))}</span>`;
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? value.map((item, index): [string, unknown] => [String(index), item])
+    : Object.entries(value);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+  if (entries.length === 0) {
+    return `<span class="json-empty">${open}${close}</span>`;
+  }
+
+  const items = entries
+    .map(([key, item]) => {
+      const label = isArray
+        ? ''
+        : `<span class="json-key">${escapeHtml(JSON.stringify(key))}</span>: `;
+      return `<li>${label}${renderJsonTree(item, depth + 1)}</li>`;
+    })
+    .join('');
+  const summary = `${open} ${entries.length} ${isArray ? 'items' : 'keys'} ${close}`;
+  return `<details class="json-node"${depth === 0 ? ' open' : ''}><summary>${summary}</summary><ul>${items}</ul></details>`;
+}
+
+/**
+ * Vega-Lite spec of a Plotly figure made of scatter, line and bar traces,
+ * or null when the figure uses other trace types
+ */
+function plotlyToVegaLite(figure: any): Record<string, unknown> | null {
+  const traces: any[] = Array.isArray(figure?.data) ? figure.data : [];
+  if (traces.length === 0) {
+    return null;
+  }
+  // Titles are either strings or `{ text }` objects
+  const title = (value: any): string | undefined =>
+    typeof value === 'string' ? value : value?.text;
+  const layout = figure.layout ?? {};
+
+  const layers: Record<string, unknown>[] = [];
+  for (const [index, trace] of traces.entries()) {
+    const type = trace.type ?? 'scatter';
+    if (!['scatter', 'scattergl', 'bar'].includes(type)) {
+      return null;
+    }
+    if (!Array.isArray(trace.y)) {
+      return null;
+    }
+    const ys: unknown[] = trace.y;
+    const xs: unknown[] = Array.isArray(trace.x)
+      ? trace.x
+      : ys.map((_, i) => i);
+    const name = trace.name ?? `trace ${index}`;
+    // Plotly draws markers on lines of fewer than 20 points by default
+    const mode: string =
+      trace.mode ?? (ys.length < 20 ? 'lines+markers' : 'lines');
+    const mark =
+      type === 'bar'
+        ? { type: 'bar' }
+        : mode.includes('lines')
+          ? { type: 'line', point: mode.includes('markers') }
+          : { type: 'point', filled: true };
+
+    layers.push({
+      data: { values: ys.map((y, i) => ({ x: xs[i], y, trace: name })) },
+      mark,
+      encoding: {
+        x: {
+          field: 'x',
+          type:
+            typeof xs[0] === 'number' && type !== 'bar'
+              ? 'quantitative'
+              : 'ordinal',
+          title: title(layout.xaxis?.title) ?? null,
+        },
+        y: {
+          field: 'y',
+          type: 'quantitative',
+          title: title(layout.yaxis?.title) ?? null,
+        },
+        ...(traces.length > 1
+          ? { color: { field: 'trace', type: 'nominal', title: null } }
+          : {}),
+      },
+    });
+  }
+
+  return {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    ...(title(layout.title) ? { title: title(layout.title) } : {}),
+    layer: layers,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,197 @@
+/**
+ * ZmqSocket - a minimal ZeroMQ client socket (ZMTP 3.0 over TCP).
+ *
+ * Speaks just enough of the protocol to connect DEALER and SUB sockets to
+ * the ROUTER and PUB sockets of a Jupyter kernel: the NULL security
+ * mechanism, a single peer and multipart messages. Connecting is retried
+ * until the peer listens, and messages sent before then are queued.
+ */
+
+import * as net from 'node:net';
+
+export type ZmqSocketType = 'DEALER' | 'SUB';
+
+const RECONNECT_DELAY = 100;
+
+// Frame flags
+const FLAG_MORE = 0x01;
+const FLAG_LONG = 0x02;
+const FLAG_COMMAND = 0x04;
+
+/**
+ * Greeting of ZMTP 3.0 with the NULL mechanism, as a client
+ */
+function createGreeting(): Buffer {
+  const greeting = Buffer.alloc(64);
+  greeting[0] = 0xff;
+  greeting[9] = 0x7f;
+  greeting[10] = 3;
+  greeting[11] = 0;
+  greeting.write('NULL', 12, 'ascii');
+  return greeting;
+}
+
+function encodeFrame(body: Buffer, flags: number): Buffer {
+  if (body.length > 255) {
+    const header = Buffer.alloc(9);
+    header[0] = flags | FLAG_LONG;
+    header.writeBigUInt64BE(BigInt(body.length), 1);
+    return Buffer.concat([header, body]);
+  }
+  return Buffer.concat([Buffer.from([flags, body.length]), body]);
+}
+
+/**
+ * READY command of the NULL handshake, with the socket type as metadata
+ */
+function createReadyCommand(type: ZmqSocketType): Buffer {
+  const property = (name: string, value: string) => {
+    const size = Buffer.alloc(4);
+    size.writeUInt32BE(Buffer.byteLength(value));
+    return Buffer.concat([
+      Buffer.from([name.length]),
+      Buffer.from(name),
+      size,
+      Buffer.from(value),
+    ]);
+  };
+  const properties = [property('Socket-Type', type)];
+  if (type === 'DEALER') {
+    properties.push(property('Identity', ''));
+  }
+  return encodeFrame(
+    Buffer.concat([Buffer.from([5]), Buffer.from('READY'), ...properties]),
+    FLAG_COMMAND,
+  );
+}
+
+export class ZmqSocket {
+  private type: ZmqSocketType;
+  private onMessage: (frames: Buffer[]) => void;
+  private socket: net.Socket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+  private ready = false;
+  private greeted = false;
+  private buffer = Buffer.alloc(0);
+  private frames: Buffer[] = [];
+  private queue: Buffer[][] = [];
+
+  /**
+   * @param onMessage Called with the frames of each message received
+   */
+  constructor(type: ZmqSocketType, onMessage: (frames: Buffer[]) => void) {
+    this.type = type;
+    this.onMessage = onMessage;
+  }
+
+  connect(host: string, port: number): void {
+    if (this.closed) {
+      return;
+    }
+    this.ready = false;
+    this.greeted = false;
+    this.buffer = Buffer.alloc(0);
+    this.frames = [];
+
+    const socket = net.connect(port, host);
+    this.socket = socket;
+    socket.on('connect', () => {
+      socket.write(createGreeting());
+      socket.write(createReadyCommand(this.type));
+    });
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('error', () => {
+      // 'close' follows, which reconnects
+    });
+    socket.on('close', () => {
+      this.ready = false;
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(
+          () => this.connect(host, port),
+          RECONNECT_DELAY,
+        );
+      }
+    });
+  }
+
+  /**
+   * Send a multipart message, once the connection is ready
+   */
+  send(frames: Buffer[]): void {
+    if (this.ready) {
+      this.write(frames);
+    } else {
+      this.queue.push(frames);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.destroy();
+    this.socket = null;
+    this.queue = [];
+  }
+
+  private write(frames: Buffer[]): void {
+    frames.forEach((frame, index) => {
+      this.socket?.write(
+        encodeFrame(frame, index < frames.length - 1 ? FLAG_MORE : 0),
+      );
+    });
+  }
+
+  private receive(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    if (!this.greeted) {
+      if (this.buffer.length < 64) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(64);
+      this.greeted = true;
+    }
+
+    while (this.buffer.length >= 2) {
+      const flags = this.buffer[0];
+      const headerSize = flags & FLAG_LONG ? 9 : 2;
+      if (this.buffer.length < headerSize) {
+        return;
+      }
+      const size =
+        flags & FLAG_LONG
+          ? Number(this.buffer.readBigUInt64BE(1))
+          : this.buffer[1];
+      if (this.buffer.length < headerSize + size) {
+        return;
+      }
+      const body = this.buffer.subarray(headerSize, headerSize + size);
+      this.buffer = this.buffer.subarray(headerSize + size);
+
+      if (flags & FLAG_COMMAND) {
+        if (body.subarray(1, 1 + body[0]).toString() === 'READY') {
+          this.onReady();
+        }
+        continue;
+      }
+      this.frames.push(body);
+      if (!(flags & FLAG_MORE)) {
+        const frames = this.frames;
+        this.frames = [];
+        this.onMessage(frames);
+      }
+    }
+  }
+
+  private onReady(): void {
+    this.ready = true;
+    if (this.type === 'SUB') {
+      // Subscribe to every topic
+      this.write([Buffer.from([1])]);
+    }
+    for (const frames of this.queue) {
+      this.write(frames);
+    }
+    this.queue = [];
+  }
+}
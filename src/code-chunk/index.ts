@@ -10,3 +10,4 @@ export {
   getCodeChunkManager,
 } from './CodeChunkManager';
 export { CodeChunkSession } from './CodeChunkSession';
+export { CACHE_DIR, removeCacheFile } from './OutputCache';
@@ -5,11 +5,15 @@
 
 import * as vscode from 'vscode';
 import type {
+  AssetsMode,
   CodeBlockTheme,
+  CodeChunkSessionBackend,
+  CustomContainerType,
   FrontMatterRenderingOption,
   MarkdownLivePreviewConfig,
   MathRenderingOption,
   MermaidTheme,
+  PdfPageSize,
   PreviewColorScheme,
   PreviewMode,
   PreviewTheme,
@@ -106,6 +110,9 @@ export function getFullConfig(): MarkdownLivePreviewConfig {
       frontMatterRenderingOption:
         getConfig<FrontMatterRenderingOption>('frontMatterRenderingOption') ??
         defaultConfig.markdown.frontMatterRenderingOption,
+      customContainers:
+        getConfig<Record<string, CustomContainerType>>('customContainers') ??
+        defaultConfig.markdown.customContainers,
     },
 
     math: {
@@ -157,6 +164,10 @@ export function getFullConfig(): MarkdownLivePreviewConfig {
       jsdelivrCdnHost:
         getConfig<string>('jsdelivrCdnHost') ??
         defaultConfig.misc.jsdelivrCdnHost,
+      assets: getConfig<AssetsMode>('assets') ?? defaultConfig.misc.assets,
+      assetsCdnFallback:
+        getConfig<boolean>('assetsCdnFallback') ??
+        defaultConfig.misc.assetsCdnFallback,
       hideDefaultVSCodeMarkdownPreviewButtons:
         getConfig<boolean>('hideDefaultVSCodeMarkdownPreviewButtons') ??
         defaultConfig.misc.hideDefaultVSCodeMarkdownPreviewButtons,
@@ -167,6 +178,24 @@ export function getFullConfig(): MarkdownLivePreviewConfig {
         getConfig<string>('configPath') ?? defaultConfig.misc.configPath,
     },
 
+    export: {
+      chromePath:
+        getConfig<string>('chromePath') ?? defaultConfig.export.chromePath,
+      pdfPageSize:
+        getConfig<PdfPageSize>('pdfPageSize') ??
+        defaultConfig.export.pdfPageSize,
+      pdfMargin:
+        getConfig<string>('pdfMargin') ?? defaultConfig.export.pdfMargin,
+      pandocPath:
+        getConfig<string>('pandocPath') ?? defaultConfig.export.pandocPath,
+      pandocArguments:
+        getConfig<string[]>('pandocArguments') ??
+        defaultConfig.export.pandocArguments,
+      siteOutputDirectory:
+        getConfig<string>('siteOutputDirectory') ??
+        defaultConfig.export.siteOutputDirectory,
+    },
+
     codeChunk: {
       enableScriptExecution:
         getConfig<boolean>('enableScriptExecution') ??
@@ -179,6 +208,9 @@ export function getFullConfig(): MarkdownLivePreviewConfig {
       executionTimeout:
         getConfig<number>('codeChunkExecutionTimeout') ??
         defaultConfig.codeChunk.executionTimeout,
+      sessionBackend:
+        getConfig<CodeChunkSessionBackend>('codeChunkSessionBackend') ??
+        defaultConfig.codeChunk.sessionBackend,
     },
   };
 }
@@ -3,9 +3,11 @@
  */
 
 import {
+  type AssetsMode,
   type CodeBlockTheme,
   FrontMatterRenderingOption,
   type MarkdownLivePreviewConfig,
+  type MarkdownLivePreviewConfigOverrides,
   MathRenderingOption,
   type MermaidTheme,
   PreviewColorScheme,
@@ -43,6 +45,7 @@ export const defaultConfig: MarkdownLivePreviewConfig = {
     enableIndentedCodeBlock: true,
     indentedCodeBlockSpaces: 2,
     frontMatterRenderingOption: FrontMatterRenderingOption.table,
+    customContainers: {},
   },
 
   math: {
@@ -78,6 +81,8 @@ export const defaultConfig: MarkdownLivePreviewConfig = {
 
   misc: {
     jsdelivrCdnHost: 'cdn.jsdelivr.net',
+    assets: 'cdn' as AssetsMode,
+    assetsCdnFallback: false,
     hideDefaultVSCodeMarkdownPreviewButtons: true,
     markdownFileExtensions: [
       '.md',
@@ -92,10 +97,42 @@ export const defaultConfig: MarkdownLivePreviewConfig = {
     configPath: '',
   },
 
+  export: {
+    chromePath: '',
+    pdfPageSize: 'A4',
+    pdfMargin: '20mm',
+    pandocPath: 'pandoc',
+    pandocArguments: [],
+    siteOutputDirectory: '_site',
+  },
+
   codeChunk: {
     enableScriptExecution: false,
     defaultShell: '',
     latexEngine: 'pdflatex',
     executionTimeout: 30000,
+    sessionBackend: 'process',
   },
 };
+
+/**
+ * Merge per-section overrides onto the defaults, without the VS Code host
+ */
+export function resolveConfig(
+  overrides: MarkdownLivePreviewConfigOverrides = {},
+): MarkdownLivePreviewConfig {
+  const config = { ...defaultConfig } as Record<string, unknown>;
+  for (const [section, values] of Object.entries(overrides)) {
+    if (
+      values &&
+      typeof values === 'object' &&
+      Object.hasOwn(defaultConfig, section)
+    ) {
+      config[section] = {
+        ...(defaultConfig as unknown as Record<string, object>)[section],
+        ...values,
+      };
+    }
+  }
+  return config as unknown as MarkdownLivePreviewConfig;
+}
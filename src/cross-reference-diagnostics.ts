@@ -0,0 +1,119 @@
+/**
+ * Cross-reference diagnostics - reports `@fig:x`, `@tbl:x` and `@eq:x`
+ * references that match no label in the Problems panel
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from './config/ConfigManager';
+import { getMarkdownEngine } from './markdown/MarkdownEngine';
+import { isMarkdownFile } from './utils';
+
+// Edits within this window are checked once
+const UPDATE_DELAY = 500;
+
+/**
+ * Keeps the unresolved cross-references of open markdown documents in a
+ * diagnostic collection, rechecked as the documents change
+ */
+export class CrossReferenceDiagnostics implements vscode.Disposable {
+  private diagnostics = vscode.languages.createDiagnosticCollection(
+    'markdown-live-preview.crossReferences',
+  );
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.schedule(document),
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.schedule(event.document),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        clearTimeout(this.timers.get(document.uri.toString()));
+        this.timers.delete(document.uri.toString());
+        this.diagnostics.delete(document.uri);
+      }),
+    );
+    for (const document of vscode.workspace.textDocuments) {
+      this.schedule(document);
+    }
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.diagnostics.dispose();
+  }
+
+  private schedule(document: vscode.TextDocument): void {
+    if (!isMarkdownFile(document)) {
+      return;
+    }
+    const key = document.uri.toString();
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        this.update(document).catch((error) =>
+          console.warn('Failed to check cross-references:', error),
+        );
+      }, UPDATE_DELAY),
+    );
+  }
+
+  /**
+   * Report each use of an unresolved reference. References that only occur
+   * in imported files are reported at the top of the document.
+   */
+  private async update(document: vscode.TextDocument): Promise<void> {
+    const text = document.getText();
+    if (!/@(fig|tbl|eq):/.test(text)) {
+      this.diagnostics.delete(document.uri);
+      return;
+    }
+
+    const engine = getMarkdownEngine(document.uri.fsPath, getFullConfig());
+    const { unresolved } = await engine.getCrossReferences(
+      text,
+      document.uri.toString(),
+    );
+    if (document.isClosed) {
+      return;
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const label of unresolved) {
+      const pattern = new RegExp(
+        `(^|[^\\w@])@${label.replace(/[.]/g, '\\.')}(?![\\w:.-]*\\w)`,
+        'g',
+      );
+      const ranges = [...text.matchAll(pattern)].map((match) => {
+        const start = document.positionAt((match.index ?? 0) + match[1].length);
+        return new vscode.Range(start, start.translate(0, label.length + 1));
+      });
+      let message = `Unresolved reference: @${label}`;
+      if (ranges.length === 0) {
+        message = `Unresolved reference in an imported file: @${label}`;
+        ranges.push(new vscode.Range(0, 0, 0, 0));
+      }
+      for (const range of ranges) {
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          message,
+          vscode.DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = 'Markdown Live Preview';
+        diagnostics.push(diagnostic);
+      }
+    }
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+}
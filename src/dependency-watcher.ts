@@ -0,0 +1,92 @@
+/**
+ * Dependency watcher - watches the files that previewed documents import or
+ * embed, so their previews update when one of the files changes
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+/**
+ * File system watchers for the dependencies of each previewed document. A
+ * file that several documents depend on has one watcher.
+ */
+export class DependencyWatcher implements vscode.Disposable {
+  private watchers = new Map<string, vscode.Disposable>();
+  private dependencies = new Map<string, Set<string>>();
+  private onDidChange: (fileUri: vscode.Uri) => void;
+
+  /**
+   * @param onDidChange Called with the dependency when the file, or a file
+   * that the glob matches, is changed, created or deleted
+   */
+  constructor(onDidChange: (fileUri: vscode.Uri) => void) {
+    this.onDidChange = onDidChange;
+  }
+
+  /**
+   * Watch the dependencies of a document, files or absolute globs, in place
+   * of its previous ones
+   */
+  watch(sourceUri: vscode.Uri, files: string[]): void {
+    this.dependencies.set(sourceUri.toString(), new Set(files));
+    this.sync();
+  }
+
+  unwatch(sourceUri: vscode.Uri): void {
+    this.dependencies.delete(sourceUri.toString());
+    this.sync();
+  }
+
+  unwatchAll(): void {
+    this.dependencies.clear();
+    this.sync();
+  }
+
+  dispose(): void {
+    this.unwatchAll();
+  }
+
+  private sync(): void {
+    const files = new Set<string>();
+    for (const dependencies of this.dependencies.values()) {
+      for (const file of dependencies) {
+        files.add(file);
+      }
+    }
+
+    for (const [file, watcher] of this.watchers) {
+      if (!files.has(file)) {
+        watcher.dispose();
+        this.watchers.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (this.watchers.has(file)) {
+        continue;
+      }
+      // A glob is watched from the folder before its first wildcard
+      const segments = file.split(path.sep);
+      const first = segments.findIndex((segment) => /[*?[{]/.test(segment));
+      const base =
+        first === -1
+          ? path.dirname(file)
+          : segments.slice(0, first).join(path.sep);
+      const pattern =
+        first === -1 ? path.basename(file) : segments.slice(first).join('/');
+      const fileUri = vscode.Uri.file(file);
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(base), pattern),
+      );
+      const notify = () => this.onDidChange(fileUri);
+      this.watchers.set(
+        file,
+        vscode.Disposable.from(
+          watcher,
+          watcher.onDidChange(notify),
+          watcher.onDidCreate(notify),
+          watcher.onDidDelete(notify),
+        ),
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * DOCX exporter - converts the document to a Word file
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { renderDocx } from './DocxRenderer';
+import { promptExportUri } from './HtmlExporter';
+
+/**
+ * Export a markdown document to a DOCX file
+ */
+export async function exportToDocx(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'docx', {
+    'Word Documents': ['docx'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting DOCX...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+        const docx = await renderDocx(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config,
+        );
+        await vscode.workspace.fs.writeFile(saveUri, docx);
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export DOCX: ${error}`);
+  }
+}
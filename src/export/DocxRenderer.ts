@@ -0,0 +1,1104 @@
+/**
+ * DOCX renderer - builds a Word document from the markdown-it token stream.
+ * Headings, lists, tables, quotes, code and footnotes map to Word styles,
+ * code keeps its Shiki colors, math becomes OMML equations and diagrams
+ * become embedded images.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  AlignmentType,
+  BaseXmlComponent,
+  Bookmark,
+  BorderStyle,
+  CheckBox,
+  Document,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  type IContext,
+  ImageRun,
+  ImportedXmlComponent,
+  type INumberingOptions,
+  InternalHyperlink,
+  type IRunOptions,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  type ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { imageSize } from 'image-size';
+import type * as MarkdownIt from 'markdown-it';
+import { mml2omml } from 'mathml2omml';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import { sourceUriToFsPath } from '../markdown/MarkdownEngine';
+import {
+  DIAGRAM_LANGUAGES,
+  formatCrossReference,
+  parseInfoString,
+  unescapeMarkdown,
+} from '../markdown/MarkdownParser';
+import {
+  type CodeRenderer,
+  getCodeRenderer,
+} from '../markdown/renderers/CodeRenderer';
+import { DiagramRenderer } from '../markdown/renderers/DiagramRenderer';
+import { KatexRenderer } from '../markdown/renderers/KatexRenderer';
+import type { MarkdownLivePreviewConfig } from '../types';
+
+type Token = MarkdownIt.Token;
+type BlockChild = Paragraph | Table;
+
+// Where a block sits: inside quotes and/or a list item
+interface BlockContext {
+  quoteDepth: number;
+  // Definitions of a definition list are indented, without the quote style
+  definitionDepth: number;
+  list?: { reference: string; level: number; instance: number };
+  // The first paragraph of a list item carries its bullet/number
+  listMarkerPending: boolean;
+  taskItem: boolean;
+}
+
+// Inline formatting while walking inline tokens
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  highlight?: boolean;
+  subScript?: boolean;
+  superScript?: boolean;
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+// Usable width of a Letter/A4 page with default margins, in pixels
+const MAX_IMAGE_WIDTH = 600;
+
+// Word processors without SVG support show this instead of an SVG image
+const SVG_FALLBACK_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+);
+
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  '.png': 'png',
+  '.jpg': 'jpg',
+  '.jpeg': 'jpg',
+  '.gif': 'gif',
+  '.bmp': 'bmp',
+};
+
+const OMML_NAMESPACE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+/**
+ * Split display math at its `\\` line breaks outside braces and
+ * environments
+ */
+function splitMathLines(expression: string): string[] {
+  const lines: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (const match of expression.matchAll(
+    /\\\\|\\begin\b|\\end\b|\\[{}]|[{}]/g,
+  )) {
+    const index = match.index ?? 0;
+    if (match[0] === '{' || match[0] === '\\begin') {
+      depth++;
+    } else if (match[0] === '}' || match[0] === '\\end') {
+      depth--;
+    } else if (match[0] === '\\\\' && depth === 0) {
+      lines.push(expression.slice(start, index));
+      start = index + 2;
+    }
+  }
+  lines.push(expression.slice(start));
+  return lines.filter((line) => line.trim());
+}
+
+/**
+ * Render markdown to a DOCX file
+ */
+export async function renderDocx(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig,
+): Promise<Buffer> {
+  // Escapes are kept as written until the math is found, as they are TeX
+  // inside it
+  const { tokens, frontMatter } = await engine.parseTokens(
+    markdown,
+    { sourceUri },
+    { rawEscapes: true },
+  );
+  const renderer = new DocxRenderer(config);
+  return renderer.render(tokens, {
+    sourcePath: sourceUriToFsPath(sourceUri),
+    title:
+      typeof frontMatter?.title === 'string' ? frontMatter.title : undefined,
+  });
+}
+
+export class DocxRenderer {
+  private katexRenderer: KatexRenderer;
+  private codeRenderer: CodeRenderer;
+  private diagramRenderer = new DiagramRenderer();
+  private config: MarkdownLivePreviewConfig;
+
+  // Per-document state
+  private baseDir = '';
+  private footnotes: Record<number, { children: Paragraph[] }> = {};
+  private numbering: Array<INumberingOptions['config'][number]> = [];
+  private listInstance = 0;
+
+  constructor(config: MarkdownLivePreviewConfig) {
+    this.config = config;
+    this.katexRenderer = new KatexRenderer(config.math);
+    this.codeRenderer = getCodeRenderer(config.theme.codeBlock);
+  }
+
+  /**
+   * Build the document from tokens
+   */
+  async render(
+    tokens: Token[],
+    options: { sourcePath?: string; title?: string } = {},
+  ): Promise<Buffer> {
+    this.baseDir = options.sourcePath ? path.dirname(options.sourcePath) : '';
+    this.footnotes = {};
+    this.numbering = [
+      {
+        reference: 'bullet',
+        levels: this.createListLevels(LevelFormat.BULLET, 1),
+      },
+    ];
+    this.listInstance = 0;
+
+    const children = await this.renderBlocks(tokens, {
+      quoteDepth: 0,
+      definitionDepth: 0,
+      listMarkerPending: false,
+      taskItem: false,
+    });
+
+    const document = new Document({
+      title: options.title,
+      features: { updateFields: false },
+      numbering: { config: this.numbering },
+      footnotes: this.footnotes,
+      styles: {
+        paragraphStyles: [
+          {
+            id: 'SourceCode',
+            name: 'Source Code',
+            basedOn: 'Normal',
+            quickFormat: true,
+            run: { font: 'Consolas', size: 19 },
+            paragraph: { spacing: { before: 0, after: 0 } },
+          },
+          {
+            id: 'Caption',
+            name: 'Caption',
+            basedOn: 'Normal',
+            next: 'Normal',
+            quickFormat: true,
+            run: { italics: true, color: '6A737D', size: 18 },
+          },
+          {
+            id: 'BlockQuote',
+            name: 'Block Quote',
+            basedOn: 'Normal',
+            quickFormat: true,
+            run: { color: '6A737D' },
+            paragraph: {
+              border: {
+                left: {
+                  style: BorderStyle.SINGLE,
+                  size: 18,
+                  color: 'DFE2E5',
+                  space: 8,
+                },
+              },
+            },
+          },
+        ],
+        characterStyles: [
+          {
+            id: 'VerbatimChar',
+            name: 'Verbatim Char',
+            basedOn: 'DefaultParagraphFont',
+            run: {
+              font: 'Consolas',
+              shading: { type: ShadingType.CLEAR, fill: 'F6F8FA' },
+            },
+          },
+        ],
+      },
+      sections: [{ children }],
+    });
+
+    return Packer.toBuffer(document);
+  }
+
+  /**
+   * Render a run of block tokens
+   */
+  private async renderBlocks(
+    tokens: Token[],
+    context: BlockContext,
+  ): Promise<BlockChild[]> {
+    const blocks: BlockChild[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      switch (token.type) {
+        case 'heading_open': {
+          const close = this.findClose(tokens, i);
+          const level = Number(token.tag.slice(1));
+          const runs = toParagraphChildren(
+            await this.renderInline(tokens[i + 1], {}),
+          );
+          const id = token.attrGet('id');
+          blocks.push(
+            new Paragraph({
+              heading: HEADING_LEVELS[level - 1],
+              children: id
+                ? [new Bookmark({ id: toBookmarkId(id), children: runs })]
+                : runs,
+            }),
+          );
+          i = close;
+          break;
+        }
+
+        case 'paragraph_open': {
+          const close = this.findClose(tokens, i);
+          blocks.push(...(await this.renderParagraph(tokens[i + 1], context)));
+          i = close;
+          break;
+        }
+
+        case 'blockquote_open': {
+          const close = this.findClose(tokens, i);
+          blocks.push(
+            ...(await this.renderBlocks(tokens.slice(i + 1, close), {
+              ...context,
+              quoteDepth: context.quoteDepth + 1,
+            })),
+          );
+          i = close;
+          break;
+        }
+
+        case 'container_open': {
+          // ::: containers read as a quote under their title
+          const close = this.findClose(tokens, i);
+          const inner = { ...context, quoteDepth: context.quoteDepth + 1 };
+          blocks.push(
+            new Paragraph({
+              ...this.getParagraphLayout(inner),
+              children: [
+                new TextRun({
+                  text: token.info || token.meta.title,
+                  bold: true,
+                }),
+              ],
+            }),
+            ...(await this.renderBlocks(tokens.slice(i + 1, close), inner)),
+          );
+          i = close;
+          break;
+        }
+
+        case 'dt_open': {
+          const close = this.findClose(tokens, i);
+          blocks.push(
+            new Paragraph({
+              ...this.getParagraphLayout(context),
+              children: toParagraphChildren(
+                await this.renderInline(tokens[i + 1], { bold: true }),
+              ),
+            }),
+          );
+          i = close;
+          break;
+        }
+
+        case 'dd_open': {
+          const close = this.findClose(tokens, i);
+          blocks.push(
+            ...(await this.renderBlocks(tokens.slice(i + 1, close), {
+              ...context,
+              definitionDepth: context.definitionDepth + 1,
+            })),
+          );
+          i = close;
+          break;
+        }
+
+        case 'bullet_list_open':
+        case 'ordered_list_open': {
+          const close = this.findClose(tokens, i);
+          blocks.push(
+            ...(await this.renderList(
+              tokens.slice(i + 1, close),
+              token,
+              context,
+            )),
+          );
+          i = close;
+          break;
+        }
+
+        case 'fence':
+        case 'code_block':
+          blocks.push(...(await this.renderFence(token, context)));
+          if (token.meta?.figure) {
+            const { label, number, caption } = token.meta.figure;
+            blocks.push(
+              await this.renderCaption(
+                `${formatCrossReference(label, number)}${caption ? `: ${caption}` : ''}`,
+              ),
+            );
+          }
+          break;
+
+        case 'table_open': {
+          const close = this.findClose(tokens, i);
+          // Numbered tables: <caption>Table 1: </caption> around the caption
+          if (tokens[i + 1]?.content.startsWith('<caption>')) {
+            blocks.push(
+              await this.renderCaption(
+                decodeHtmlEntities(
+                  tokens[i + 1].content.replace(/<[^>]+>/g, ''),
+                ),
+                tokens[i + 2],
+              ),
+            );
+          }
+          blocks.push(await this.renderTable(tokens.slice(i + 1, close)));
+          i = close;
+          break;
+        }
+
+        case 'hr':
+          blocks.push(
+            new Paragraph({
+              border: {
+                bottom: {
+                  style: BorderStyle.SINGLE,
+                  size: 6,
+                  color: 'D0D7DE',
+                  space: 1,
+                },
+              },
+            }),
+          );
+          break;
+
+        case 'html_block': {
+          if (/<!--\s*(?:pagebreak|newpage)\s*-->/i.test(token.content)) {
+            blocks.push(new Paragraph({ children: [new PageBreak()] }));
+            break;
+          }
+          // Keep the text of raw HTML blocks
+          const text = decodeHtmlEntities(
+            token.content.replace(/<!--[\s\S]*?-->|<[^>]+>/g, ''),
+          ).trim();
+          if (text) {
+            blocks.push(
+              new Paragraph({
+                ...this.getParagraphLayout(context),
+                children: [new TextRun(text)],
+              }),
+            );
+          }
+          break;
+        }
+
+        case 'footnote_block_open': {
+          const close = this.findClose(tokens, i);
+          await this.collectFootnotes(tokens.slice(i + 1, close));
+          i = close;
+          break;
+        }
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Render a paragraph; display math gets a paragraph of its own
+   */
+  private async renderParagraph(
+    inline: Token,
+    context: BlockContext,
+  ): Promise<Paragraph[]> {
+    const runs = await this.renderInline(inline, {});
+    const paragraphs: Paragraph[] = [];
+    let current: ParagraphChild[] = [];
+
+    const flush = () => {
+      if (current.length > 0) {
+        paragraphs.push(
+          new Paragraph({
+            ...this.getParagraphLayout(context),
+            children: current,
+          }),
+        );
+        current = [];
+      }
+    };
+
+    for (const run of runs) {
+      if (run instanceof DisplayMath) {
+        flush();
+        paragraphs.push(
+          new Paragraph({
+            ...this.getParagraphLayout(context),
+            alignment: AlignmentType.CENTER,
+            children: [run.component as unknown as ParagraphChild],
+          }),
+        );
+      } else {
+        current.push(run);
+      }
+    }
+    flush();
+
+    return paragraphs;
+  }
+
+  /**
+   * Paragraph style, indentation and list marker for the block context.
+   * Consumes the pending list marker.
+   */
+  private getParagraphLayout(context: BlockContext) {
+    const listLevel = context.list ? context.list.level + 1 : 0;
+    const indent =
+      720 * (context.quoteDepth + context.definitionDepth + listLevel);
+    const layout: Partial<ConstructorParameters<typeof Paragraph>[0] & object> =
+      {
+        style: context.quoteDepth > 0 ? 'BlockQuote' : undefined,
+      };
+
+    if (context.list && context.listMarkerPending && !context.taskItem) {
+      context.listMarkerPending = false;
+      return {
+        ...layout,
+        numbering: {
+          reference: context.list.reference,
+          level: context.list.level,
+          instance: context.list.instance,
+        },
+      };
+    }
+
+    context.listMarkerPending = false;
+    return indent > 0 ? { ...layout, indent: { left: indent } } : layout;
+  }
+
+  /**
+   * Render list items; ordered lists get their own numbering so each one
+   * starts from its own start number
+   */
+  private async renderList(
+    tokens: Token[],
+    listToken: Token,
+    context: BlockContext,
+  ): Promise<BlockChild[]> {
+    const level = context.list ? context.list.level + 1 : 0;
+    let reference = 'bullet';
+    if (listToken.type === 'ordered_list_open') {
+      reference = `ordered-${this.numbering.length}`;
+      this.numbering.push({
+        reference,
+        levels: this.createListLevels(
+          LevelFormat.DECIMAL,
+          Number(listToken.attrGet('start') ?? 1),
+        ),
+      });
+    }
+    const list = { reference, level, instance: this.listInstance++ };
+
+    const blocks: BlockChild[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== 'list_item_open') continue;
+      const close = this.findClose(tokens, i);
+      blocks.push(
+        ...(await this.renderBlocks(tokens.slice(i + 1, close), {
+          ...context,
+          list,
+          listMarkerPending: true,
+          taskItem: /\btask-list-item\b/.test(tokens[i].attrGet('class') ?? ''),
+        })),
+      );
+      i = close;
+    }
+    return blocks;
+  }
+
+  /**
+   * Numbering levels for a bullet or decimal list
+   */
+  private createListLevels(
+    format: (typeof LevelFormat)[keyof typeof LevelFormat],
+    start: number,
+  ) {
+    const bullets = ['•', '◦', '▪'];
+    return Array.from({ length: 9 }, (_, level) => ({
+      level,
+      format,
+      start,
+      text:
+        format === LevelFormat.BULLET ? bullets[level % 3] : `%${level + 1}.`,
+      alignment: AlignmentType.LEFT,
+      style: {
+        paragraph: {
+          indent: { left: 720 * (level + 1), hanging: 360 },
+        },
+      },
+    }));
+  }
+
+  /**
+   * Render a fenced code block: diagrams become images, code keeps its
+   * highlighting colors
+   */
+  private async renderFence(
+    token: Token,
+    context: BlockContext,
+  ): Promise<BlockChild[]> {
+    const { language, attrs } = parseInfoString(token.info || '');
+    const diagramClass = DIAGRAM_LANGUAGES[language];
+    const isCode =
+      attrs.code_block === 'true' || (attrs.cmd && attrs.cmd !== 'true');
+
+    if (diagramClass && !isCode) {
+      const svg = await this.diagramRenderer.renderSvg(
+        diagramClass,
+        token.content,
+        { mermaidTheme: this.config.mermaid.theme, engine: attrs.engine },
+      );
+      if (svg) {
+        const image = this.createSvgImage(DiagramRenderer.toStandaloneSvg(svg));
+        if (image) {
+          return [
+            new Paragraph({
+              ...this.getParagraphLayout(context),
+              alignment: AlignmentType.CENTER,
+              children: [image],
+            }),
+          ];
+        }
+      }
+    }
+
+    const { background, lines } = await this.codeRenderer.highlightTokens(
+      token.content,
+      language,
+    );
+    const layout = this.getParagraphLayout(context);
+    return lines.map(
+      (line) =>
+        new Paragraph({
+          ...layout,
+          style: 'SourceCode',
+          shading: {
+            type: ShadingType.CLEAR,
+            fill: toDocxColor(background) ?? 'F6F8FA',
+          },
+          children: line.length
+            ? line.map(
+                ({ content, color, fontStyle = 0 }) =>
+                  new TextRun({
+                    text: content,
+                    color: toDocxColor(color),
+                    italics: (fontStyle & 1) !== 0,
+                    bold: (fontStyle & 2) !== 0,
+                    underline: fontStyle & 4 ? {} : undefined,
+                  }),
+              )
+            : [new TextRun('')],
+        }),
+    );
+  }
+
+  /**
+   * Render a table, keeping column alignment and a repeating header row
+   */
+  /**
+   * Caption paragraph of a numbered figure or table
+   */
+  private async renderCaption(
+    prefix: string,
+    inline?: Token,
+  ): Promise<Paragraph> {
+    const runs = inline ? await this.renderInline(inline, {}) : [];
+    return new Paragraph({
+      style: 'Caption',
+      children: [new TextRun(prefix), ...toParagraphChildren(runs)],
+    });
+  }
+
+  private async renderTable(tokens: Token[]): Promise<Table> {
+    const rows: TableRow[] = [];
+    let cells: TableCell[] = [];
+    let isHeader = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'thead_open') isHeader = true;
+      if (token.type === 'tbody_open') isHeader = false;
+      if (token.type === 'tr_open') cells = [];
+      if (token.type === 'tr_close') {
+        rows.push(new TableRow({ children: cells, tableHeader: isHeader }));
+      }
+      if (token.type === 'th_open' || token.type === 'td_open') {
+        const align = token.attrGet('style')?.match(/text-align:\s*(\w+)/)?.[1];
+        const runs = await this.renderInline(
+          tokens[i + 1],
+          isHeader ? { bold: true } : {},
+        );
+        cells.push(
+          new TableCell({
+            shading: isHeader
+              ? { type: ShadingType.CLEAR, fill: 'F6F8FA' }
+              : undefined,
+            children: [
+              new Paragraph({
+                alignment:
+                  align === 'center'
+                    ? AlignmentType.CENTER
+                    : align === 'right'
+                      ? AlignmentType.RIGHT
+                      : AlignmentType.LEFT,
+                children: toParagraphChildren(runs),
+              }),
+            ],
+          }),
+        );
+        i++;
+      }
+    }
+
+    return new Table({
+      rows,
+      width: { size: 100, type: WidthType.PERCENTAGE },
+    });
+  }
+
+  /**
+   * Collect footnote definitions; ids are 0-based in markdown-it, 1-based in Word
+   */
+  private async collectFootnotes(tokens: Token[]): Promise<void> {
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== 'footnote_open') continue;
+      const close = this.findClose(tokens, i);
+      const blocks = await this.renderBlocks(tokens.slice(i + 1, close), {
+        quoteDepth: 0,
+        definitionDepth: 0,
+        listMarkerPending: false,
+        taskItem: false,
+      });
+      this.footnotes[tokens[i].meta.id + 1] = {
+        children: blocks.filter(
+          (block): block is Paragraph => block instanceof Paragraph,
+        ),
+      };
+      i = close;
+    }
+  }
+
+  /**
+   * Render inline tokens to runs. Text is buffered so math spanning several
+   * text tokens (e.g. `$$` on its own lines) is found as a whole.
+   */
+  private async renderInline(
+    inline: Token | undefined,
+    baseStyle: RunStyle,
+  ): Promise<Array<ParagraphChild | DisplayMath>> {
+    const output: Array<ParagraphChild | DisplayMath> = [];
+    // Runs collected inside a link, wrapped when the link closes
+    let linkRuns: ParagraphChild[] | null = null;
+    let linkHref = '';
+    const style: RunStyle = { ...baseStyle };
+    let text = '';
+    // Items with nothing but text keep it in the label (markdown-it-task-lists)
+    let taskLabelPending = false;
+
+    const push = (run: ParagraphChild | DisplayMath) => {
+      if (linkRuns && !(run instanceof DisplayMath)) {
+        linkRuns.push(run);
+      } else {
+        output.push(run);
+      }
+    };
+
+    const flushText = () => {
+      if (!text) return;
+      for (const segment of this.katexRenderer.splitMath(text)) {
+        if (segment.isMath) {
+          push(this.renderMath(segment.text, segment.displayMode));
+        } else {
+          push(
+            this.createTextRun(
+              unescapeMarkdown(segment.text).replace(/\n/g, ' '),
+              style,
+              !!linkRuns,
+            ),
+          );
+        }
+      }
+      text = '';
+    };
+
+    for (const token of inline?.children ?? []) {
+      if (token.type === 'text') {
+        text += token.content;
+        taskLabelPending = false;
+        continue;
+      }
+      if (token.type === 'softbreak') {
+        text += '\n';
+        continue;
+      }
+      flushText();
+      const isTaskLabel =
+        taskLabelPending && token.content.startsWith('<label');
+      taskLabelPending = false;
+
+      switch (token.type) {
+        case 'hardbreak':
+          push(new TextRun({ text: '', break: 1 }));
+          break;
+        case 'strong_open':
+        case 'strong_close':
+          style.bold = token.nesting === 1 || !!baseStyle.bold;
+          break;
+        case 'em_open':
+        case 'em_close':
+          style.italics = token.nesting === 1;
+          break;
+        case 's_open':
+        case 's_close':
+          style.strike = token.nesting === 1;
+          break;
+        case 'mark_open':
+        case 'mark_close':
+          style.highlight = token.nesting === 1;
+          break;
+        case 'sub_open':
+        case 'sub_close':
+          style.subScript = token.nesting === 1;
+          break;
+        case 'sup_open':
+        case 'sup_close':
+          style.superScript = token.nesting === 1;
+          break;
+        case 'code_inline':
+          push(
+            new TextRun({
+              ...this.getRunOptions(style),
+              text: token.content,
+              style: 'VerbatimChar',
+            }),
+          );
+          break;
+        case 'link_open':
+          linkHref = token.attrGet('href') ?? '';
+          linkRuns = [];
+          break;
+        case 'link_close':
+          if (linkRuns) {
+            const runs = linkRuns;
+            linkRuns = null;
+            output.push(
+              linkHref.startsWith('#')
+                ? new InternalHyperlink({
+                    anchor: toBookmarkId(linkHref.slice(1)),
+                    children: runs,
+                  })
+                : new ExternalHyperlink({ link: linkHref, children: runs }),
+            );
+          }
+          break;
+        case 'image':
+          push(
+            this.createImage(token.attrGet('src') ?? '') ??
+              this.createTextRun(token.content, style, !!linkRuns),
+          );
+          break;
+        case 'footnote_ref':
+          push(new FootnoteReferenceRun(token.meta.id + 1));
+          break;
+        case 'footnote_anchor':
+          break;
+        case 'html_inline': {
+          const checkbox = token.content.match(/^<input[^>]*type="checkbox"/i);
+          if (checkbox) {
+            push(new CheckBox({ checked: /\bchecked\b/i.test(token.content) }));
+            push(new TextRun(' '));
+            taskLabelPending = true;
+          } else if (isTaskLabel) {
+            text += decodeHtmlEntities(
+              token.content.replace(/<[^>]+>/g, ''),
+            ).trim();
+          } else if (/^<br\s*\/?>$/i.test(token.content)) {
+            push(new TextRun({ text: '', break: 1 }));
+          } else if (token.content.startsWith('<figcaption>')) {
+            // Numbered figure: the caption goes below the image
+            push(new TextRun({ text: '', break: 1 }));
+            text += decodeHtmlEntities(token.content.replace(/<[^>]+>/g, ''));
+          }
+          break;
+        }
+        case 'cross_ref':
+          text +=
+            token.meta.number === undefined
+              ? token.content
+              : formatCrossReference(token.meta.label, token.meta.number);
+          break;
+        default:
+          // emoji, wiki links and other plugin tokens carry their text
+          if (token.content) {
+            text += token.content;
+          }
+      }
+    }
+    flushText();
+
+    return output;
+  }
+
+  private createTextRun(
+    text: string,
+    style: RunStyle,
+    isLink: boolean,
+  ): TextRun {
+    return new TextRun({
+      ...this.getRunOptions(style),
+      text,
+      style: isLink ? 'Hyperlink' : undefined,
+    });
+  }
+
+  private getRunOptions(style: RunStyle): IRunOptions {
+    return {
+      bold: style.bold,
+      italics: style.italics,
+      strike: style.strike,
+      highlight: style.highlight ? 'yellow' : undefined,
+      subScript: style.subScript,
+      superScript: style.superScript,
+    };
+  }
+
+  /**
+   * Convert LaTeX to an OMML equation (KaTeX MathML → OMML).
+   * Unrenderable math is kept as its source.
+   */
+  private renderMath(
+    expression: string,
+    displayMode: boolean,
+  ): ParagraphChild | DisplayMath {
+    try {
+      if (displayMode) {
+        // Each line is an equation of the math paragraph, as OMML has no
+        // line break
+        const equations = splitMathLines(expression).map((line) =>
+          this.convertMath(line, true),
+        );
+        if (equations.every(Boolean)) {
+          return new DisplayMath(
+            new OmmlComponent(
+              `<m:oMathPara xmlns:m="${OMML_NAMESPACE}">${equations.join('')}</m:oMathPara>`,
+            ),
+          );
+        }
+      } else {
+        const omml = this.convertMath(expression, false);
+        if (omml) {
+          return new OmmlComponent(omml) as unknown as ParagraphChild;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to convert math to OMML:', error);
+    }
+    return new TextRun({
+      text: displayMode ? expression : `$${expression}$`,
+      style: 'VerbatimChar',
+    });
+  }
+
+  /**
+   * Convert TeX to an OMML equation, or null when KaTeX cannot render it
+   */
+  private convertMath(expression: string, displayMode: boolean): string | null {
+    const mathml = this.katexRenderer.renderMathML(expression, displayMode);
+    if (!mathml) {
+      return null;
+    }
+    // Word has no equivalent of the TeX annotation
+    return mml2omml(mathml.replace(/<annotation[\s\S]*?<\/annotation>/g, ''));
+  }
+
+  /**
+   * Embed a local image, scaled to the page width
+   */
+  private createImage(src: string): ImageRun | null {
+    if (/^(?:[a-z]+:)?\/\//i.test(src) || src.startsWith('data:')) {
+      return null;
+    }
+
+    const filePath = path.isAbsolute(src)
+      ? src
+      : path.resolve(this.baseDir, decodeURIComponent(src));
+    const extension = path.extname(filePath).toLowerCase();
+    try {
+      const data = fs.readFileSync(filePath);
+      if (extension === '.svg') {
+        return this.createSvgImage(data.toString('utf-8'));
+      }
+      const type = IMAGE_TYPES[extension];
+      if (!type) {
+        return null;
+      }
+      const { width, height } = imageSize(data);
+      return new ImageRun({
+        type,
+        data,
+        transformation: scaleToPage(width, height),
+      });
+    } catch (error) {
+      console.warn(
+        `DOCX export: skipped image ${src}: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    }
+  }
+
+  private createSvgImage(svg: string): ImageRun | null {
+    try {
+      const data = Buffer.from(svg, 'utf-8');
+      const { width, height } = imageSize(data);
+      return new ImageRun({
+        type: 'svg',
+        data,
+        transformation: scaleToPage(width, height),
+        fallback: { type: 'png', data: SVG_FALLBACK_PNG },
+      });
+    } catch (error) {
+      console.warn('Failed to embed SVG image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Index of the token closing the one at `index` (same nesting level)
+   */
+  private findClose(tokens: Token[], index: number): number {
+    let depth = 0;
+    for (let i = index; i < tokens.length; i++) {
+      depth += tokens[i].nesting;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    return tokens.length - 1;
+  }
+}
+
+/**
+ * An OMML equation paragraph (`m:oMathPara`), placed outside the text runs
+ */
+class DisplayMath {
+  constructor(readonly component: OmmlComponent) {}
+}
+
+/**
+ * An OMML equation. ImportedXmlComponent.fromXmlString() wraps the parsed
+ * element in a nameless root element, so only its child is written.
+ */
+class OmmlComponent extends BaseXmlComponent {
+  private readonly imported: ImportedXmlComponent;
+
+  constructor(xml: string) {
+    super('m:oMath');
+    this.imported = ImportedXmlComponent.fromXmlString(xml);
+  }
+
+  prepForXml(context: IContext) {
+    const root = this.imported.prepForXml(context) ?? {};
+    const [children] = Object.values(root) as unknown[];
+    return Array.isArray(children) ? children[0] : undefined;
+  }
+}
+
+/**
+ * Keep display math inline where a paragraph of its own is not possible
+ * (headings, table cells)
+ */
+function toParagraphChildren(
+  runs: Array<ParagraphChild | DisplayMath>,
+): ParagraphChild[] {
+  return runs.map((run) =>
+    run instanceof DisplayMath
+      ? (run.component as unknown as ParagraphChild)
+      : run,
+  );
+}
+
+function scaleToPage(width = MAX_IMAGE_WIDTH, height = MAX_IMAGE_WIDTH) {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / width);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Word colors are 6-digit hex without `#`
+ */
+function toDocxColor(color?: string): string | undefined {
+  const match = color?.match(/^#([0-9a-f]{6})/i);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Word bookmark names: letters, digits and underscores, at most 40 characters
+ */
+function toBookmarkId(id: string): string {
+  return `_${id.replace(/[^\w]/g, '_')}`.slice(0, 40);
+}
+
+function decodeHtmlEntities(text: string): string {
+  const entities: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&nbsp;': ' ',
+  };
+  return text.replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (e) => entities[e]);
+}
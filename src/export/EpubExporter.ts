@@ -0,0 +1,43 @@
+/**
+ * EPUB exporter - packages the document as an e-book
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { renderEpub } from './EpubRenderer';
+import { promptExportUri } from './HtmlExporter';
+
+/**
+ * Export a markdown document to an EPUB file
+ */
+export async function exportToEpub(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'epub', {
+    'EPUB Books': ['epub'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting EPUB...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+        const epub = await renderEpub(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config,
+        );
+        await vscode.workspace.fs.writeFile(saveUri, epub);
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export EPUB: ${error}`);
+  }
+}
@@ -0,0 +1,670 @@
+/**
+ * EPUB renderer - packages the rendered document as an EPUB 3 book. Each
+ * top-level heading and each imported markdown file becomes its own XHTML
+ * chapter, and the document TOC becomes the navigation document.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import JSZip from 'jszip';
+import { type DefaultTreeAdapterMap, parseFragment } from 'parse5';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import {
+  IMPORTED_FILE_MARKER,
+  sourceUriToFsPath,
+} from '../markdown/MarkdownEngine';
+import type { MarkdownLivePreviewConfig } from '../types';
+
+type Element = DefaultTreeAdapterMap['element'];
+type ChildNode = DefaultTreeAdapterMap['childNode'];
+
+export interface EpubMetadata {
+  identifier: string;
+  title: string;
+  authors: string[];
+  language: string;
+  description?: string;
+  coverImage?: string;
+}
+
+interface Chapter {
+  fileName: string;
+  title: string;
+  nodes: ChildNode[];
+}
+
+interface NavEntry {
+  title: string;
+  href: string;
+  children: NavEntry[];
+}
+
+// A file in the package, relative to OEBPS/
+interface PackageItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  data: string | Buffer;
+}
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+/**
+ * Render markdown to an EPUB file.
+ *
+ * Package metadata comes from front matter:
+ *
+ *   title: Team Handbook
+ *   author: [Ada Lovelace, Charles Babbage]
+ *   language: en
+ *   description: How we work
+ *   cover_image: images/cover.png
+ */
+export async function renderEpub(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig,
+): Promise<Buffer> {
+  const sourcePath = sourceUriToFsPath(sourceUri);
+  const { frontMatter } = engine.extractFrontMatter(markdown);
+  const { html, tocHTML, css } = await engine.generateEbookContent(
+    markdown,
+    sourceUri,
+  );
+
+  const fragment = parseFragment(html);
+  const metadata = resolveEpubMetadata(frontMatter, fragment.childNodes, {
+    sourcePath,
+  });
+  const items: PackageItem[] = [
+    { id: 'style', href: 'style.css', mediaType: 'text/css', data: css },
+  ];
+  extractImages(fragment.childNodes, items);
+
+  const chapters = splitChapters(fragment.childNodes, metadata.title);
+  const idToFile = new Map<string, string>();
+  for (const chapter of chapters) {
+    walkElements(chapter.nodes, (element) => {
+      const id = getAttribute(element, 'id');
+      if (id && !idToFile.has(id)) {
+        idToFile.set(id, chapter.fileName);
+      }
+    });
+  }
+
+  const spine: string[] = [];
+  const coverImage = metadata.coverImage
+    ? readCoverImage(
+        path.resolve(path.dirname(sourcePath), metadata.coverImage),
+      )
+    : null;
+  if (coverImage) {
+    items.push(coverImage, {
+      id: 'cover',
+      href: 'cover.xhtml',
+      mediaType: 'application/xhtml+xml',
+      data: toXhtmlPage(
+        metadata.title,
+        `<div class="epub-cover"><img src="${coverImage.href}" alt="${escapeXml(metadata.title)}"/></div>`,
+        metadata.language,
+        {
+          head: [
+            '<style>.epub-cover { text-align: center; } .epub-cover img { max-width: 100%; max-height: 100vh; }</style>',
+          ],
+        },
+      ),
+    });
+    spine.push('cover');
+  }
+
+  const theme = config.preview.theme || 'github';
+  chapters.forEach((chapter, index) => {
+    rewriteLinks(chapter, idToFile);
+    const styles: string[] = [];
+    walkElements(chapter.nodes, (element) => {
+      if (element.tagName === 'style') {
+        styles.push(getTextContent(element));
+      }
+    });
+    const body = toXhtml(chapter.nodes);
+    const properties = [
+      /<svg[\s>]/.test(body) ? 'svg' : '',
+      /<math[\s>]/.test(body) ? 'mathml' : '',
+    ].filter(Boolean);
+
+    const id = `chapter-${index + 1}`;
+    items.push({
+      id,
+      href: chapter.fileName,
+      mediaType: 'application/xhtml+xml',
+      properties: properties.join(' ') || undefined,
+      data: toXhtmlPage(
+        chapter.title,
+        `<div id="preview-content">${body}</div>`,
+        metadata.language,
+        {
+          head: styles.map((style) => `<style>${escapeXml(style)}</style>`),
+          bodyAttributes: `class="vscode-body" data-theme="light" data-preview-theme="${escapeXml(theme)}"`,
+        },
+      ),
+    });
+    spine.push(id);
+  });
+
+  const navEntries = resolveNavEntries(
+    parseNavEntries(parseFragment(tocHTML).childNodes),
+    idToFile,
+    chapters[0]?.fileName ?? 'cover.xhtml',
+  );
+  items.unshift({
+    id: 'nav',
+    href: 'nav.xhtml',
+    mediaType: 'application/xhtml+xml',
+    properties: 'nav',
+    data: toXhtmlPage(
+      metadata.title,
+      `<nav epub:type="toc" id="toc"><h1>${escapeXml(metadata.title)}</h1>${toNavList(
+        navEntries.length > 0
+          ? navEntries
+          : chapters.map((chapter) => ({
+              title: chapter.title,
+              href: chapter.fileName,
+              children: [],
+            })),
+      )}</nav>`,
+      metadata.language,
+    ),
+  });
+
+  const zip = new JSZip();
+  // The mimetype file comes first and uncompressed (EPUB OCF)
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER_XML);
+  zip.file('OEBPS/content.opf', toPackageDocument(metadata, items, spine));
+  for (const item of items) {
+    zip.file(`OEBPS/${item.href}`, item.data);
+  }
+  return zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    mimeType: 'application/epub+zip',
+  });
+}
+
+/**
+ * Read package metadata from front matter, falling back to the first
+ * heading for the title
+ */
+export function resolveEpubMetadata(
+  frontMatter: Record<string, unknown> | null,
+  nodes: ChildNode[],
+  options: { sourcePath: string },
+): EpubMetadata {
+  const firstHeading = findElement(nodes, (element) =>
+    /^h[1-6]$/.test(element.tagName),
+  );
+  const title =
+    (typeof frontMatter?.title === 'string' && frontMatter.title) ||
+    (firstHeading && getTextContent(firstHeading).trim()) ||
+    path.basename(options.sourcePath, path.extname(options.sourcePath));
+
+  const author = frontMatter?.author ?? frontMatter?.authors;
+  const authors = (Array.isArray(author) ? author : [author])
+    .filter((name) => typeof name === 'string' && name)
+    .map(String);
+
+  const language = frontMatter?.language ?? frontMatter?.lang;
+  const coverImage = frontMatter?.cover_image ?? frontMatter?.cover;
+
+  // Stable across exports, so readers update the same book
+  const identifier =
+    typeof frontMatter?.identifier === 'string'
+      ? frontMatter.identifier
+      : `urn:x-markdown-live-preview:${hashString(`${options.sourcePath}\n${title}`)}`;
+
+  return {
+    identifier,
+    title,
+    authors,
+    language: typeof language === 'string' && language ? language : 'en',
+    description:
+      typeof frontMatter?.description === 'string'
+        ? frontMatter.description
+        : undefined,
+    coverImage: typeof coverImage === 'string' ? coverImage : undefined,
+  };
+}
+
+/**
+ * Split the rendered content into chapters at imported file boundaries and
+ * at the highest heading level used
+ */
+function splitChapters(nodes: ChildNode[], bookTitle: string): Chapter[] {
+  const headingLevels = nodes
+    .filter(isElement)
+    .map((element) => element.tagName.match(/^h([1-6])$/)?.[1])
+    .filter((level): level is string => !!level)
+    .map(Number);
+  const chapterTag =
+    headingLevels.length > 0 ? `h${Math.min(...headingLevels)}` : null;
+
+  const groups: ChildNode[][] = [];
+  let current: ChildNode[] = [];
+  const flush = () => {
+    const hasContent = current.some(
+      (node) =>
+        isElement(node) ||
+        (node.nodeName === '#text' && 'value' in node && node.value.trim()),
+    );
+    if (hasContent) {
+      groups.push(current);
+    }
+    current = [];
+  };
+
+  for (const node of nodes) {
+    if (
+      node.nodeName === '#comment' &&
+      'data' in node &&
+      `<!--${node.data}-->` === IMPORTED_FILE_MARKER
+    ) {
+      flush();
+    } else if (isElement(node) && node.tagName === chapterTag) {
+      flush();
+      current.push(node);
+    } else {
+      current.push(node);
+    }
+  }
+  flush();
+
+  return groups.map((group, index) => {
+    const heading = findElement(group, (element) =>
+      /^h[1-6]$/.test(element.tagName),
+    );
+    return {
+      fileName: `chapter-${String(index + 1).padStart(3, '0')}.xhtml`,
+      title: (heading && getTextContent(heading).trim()) || bookTitle,
+      nodes: group,
+    };
+  });
+}
+
+/**
+ * Point in-document links at the chapter that holds their target
+ */
+function rewriteLinks(chapter: Chapter, idToFile: Map<string, string>): void {
+  walkElements(chapter.nodes, (element) => {
+    const href = element.tagName === 'a' && getAttribute(element, 'href');
+    if (!href || !href.startsWith('#')) {
+      return;
+    }
+    const file = idToFile.get(decodeURIComponent(href.slice(1)));
+    if (file && file !== chapter.fileName) {
+      setAttribute(element, 'href', `${file}${href}`);
+    }
+  });
+}
+
+/**
+ * Move embedded data URI images into package files
+ */
+function extractImages(nodes: ChildNode[], items: PackageItem[]): void {
+  // Same image data, same file
+  const hrefsByData = new Map<string, string>();
+
+  walkElements(nodes, (element) => {
+    const attribute =
+      element.tagName === 'img'
+        ? 'src'
+        : element.tagName === 'image'
+          ? 'href'
+          : null;
+    const src = attribute && getAttribute(element, attribute);
+    const match = src?.match(/^data:(image\/[\w+.-]+);base64,(.*)$/);
+    if (!attribute || !match) {
+      return;
+    }
+
+    const extension = Object.keys(IMAGE_MEDIA_TYPES).find(
+      (ext) => IMAGE_MEDIA_TYPES[ext] === match[1],
+    );
+    if (!extension) {
+      return;
+    }
+    let href = hrefsByData.get(match[2]);
+    if (!href) {
+      const id = `image-${hrefsByData.size + 1}`;
+      href = `images/${id}${extension}`;
+      hrefsByData.set(match[2], href);
+      items.push({
+        id,
+        href,
+        mediaType: match[1],
+        data: Buffer.from(match[2], 'base64'),
+      });
+    }
+    setAttribute(element, attribute, href);
+  });
+}
+
+function readCoverImage(filePath: string): PackageItem | null {
+  const extension = path.extname(filePath).toLowerCase();
+  const mediaType = IMAGE_MEDIA_TYPES[extension];
+  if (!mediaType) {
+    console.warn(`EPUB export: unsupported cover image type ${extension}`);
+    return null;
+  }
+  try {
+    return {
+      id: 'cover-image',
+      href: `images/cover${extension}`,
+      mediaType,
+      properties: 'cover-image',
+      data: fs.readFileSync(filePath),
+    };
+  } catch (error) {
+    console.warn('EPUB export: failed to read cover image:', error);
+    return null;
+  }
+}
+
+/**
+ * Read generateTOC() output into nav entries. Skipped heading levels give
+ * lists directly inside lists; their entries move up a level.
+ */
+function parseNavEntries(nodes: ChildNode[]): NavEntry[] {
+  const entries: NavEntry[] = [];
+  for (const node of nodes) {
+    if (!isElement(node)) {
+      continue;
+    }
+    if (node.tagName === 'li') {
+      const link = findElement(
+        node.childNodes,
+        (child) => child.tagName === 'a',
+      );
+      entries.push({
+        title: link ? getTextContent(link).trim() : '',
+        href: (link && getAttribute(link, 'href')) || '',
+        children: parseNavEntries(
+          node.childNodes.filter(
+            (child) =>
+              isElement(child) &&
+              (child.tagName === 'ul' || child.tagName === 'ol'),
+          ),
+        ),
+      });
+    } else if (node.tagName === 'ul' || node.tagName === 'ol') {
+      entries.push(...parseNavEntries(node.childNodes));
+    }
+  }
+  return entries;
+}
+
+function resolveNavEntries(
+  entries: NavEntry[],
+  idToFile: Map<string, string>,
+  defaultFile: string,
+): NavEntry[] {
+  return entries.map((entry) => {
+    const id = decodeURIComponent(entry.href.replace(/^#/, ''));
+    return {
+      title: entry.title,
+      href: `${idToFile.get(id) ?? defaultFile}${entry.href}`,
+      children: resolveNavEntries(entry.children, idToFile, defaultFile),
+    };
+  });
+}
+
+function toNavList(entries: NavEntry[]): string {
+  const items = entries.map(
+    (entry) =>
+      `<li><a href="${escapeXml(entry.href)}">${escapeXml(entry.title)}</a>${
+        entry.children.length > 0 ? toNavList(entry.children) : ''
+      }</li>`,
+  );
+  return `<ol>${items.join('')}</ol>`;
+}
+
+function toPackageDocument(
+  metadata: EpubMetadata,
+  items: PackageItem[],
+  spine: string[],
+): string {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const metadataElements = [
+    `<dc:identifier id="book-id">${escapeXml(metadata.identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(metadata.title)}</dc:title>`,
+    `<dc:language>${escapeXml(metadata.language)}</dc:language>`,
+    ...metadata.authors.map(
+      (author) => `<dc:creator>${escapeXml(author)}</dc:creator>`,
+    ),
+    metadata.description
+      ? `<dc:description>${escapeXml(metadata.description)}</dc:description>`
+      : '',
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    // EPUB 2 readers find the cover through this
+    items.some((item) => item.id === 'cover-image')
+      ? '<meta name="cover" content="cover-image"/>'
+      : '',
+  ].filter(Boolean);
+
+  const manifest = items.map(
+    (item) =>
+      `<item id="${item.id}" href="${escapeXml(item.href)}" media-type="${item.mediaType}"${
+        item.properties ? ` properties="${item.properties}"` : ''
+      }/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(metadata.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadataElements.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.map((id) => `<itemref idref="${id}"/>`).join('\n    ')}
+  </spine>
+</package>
+`;
+}
+
+function toXhtmlPage(
+  title: string,
+  body: string,
+  language: string,
+  options: { head?: string[]; bodyAttributes?: string } = {},
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NAMESPACE}" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(language)}" xml:lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+  ${(options.head ?? []).join('\n  ')}
+</head>
+<body${options.bodyAttributes ? ` ${options.bodyAttributes}` : ''}>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize parsed HTML as XHTML. Scripts are left out (chapters are not
+ * scripted) and so are styles, which go to the page head.
+ */
+function toXhtml(
+  nodes: ChildNode[],
+  parentNamespace = XHTML_NAMESPACE,
+): string {
+  return nodes
+    .map((node) => {
+      if (node.nodeName === '#text' && 'value' in node) {
+        return escapeXml(node.value);
+      }
+      if (node.nodeName === '#comment' && 'data' in node) {
+        return `<!--${node.data.replace(/--/g, '- -')}-->`;
+      }
+      if (
+        !isElement(node) ||
+        node.tagName === 'script' ||
+        node.tagName === 'style'
+      ) {
+        return '';
+      }
+
+      const attributes = node.attrs
+        .map((attr) => ({
+          name: attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name,
+          value: attr.value,
+        }))
+        .filter(({ name }) => /^[A-Za-z_][\w.:-]*$/.test(name));
+      if (node.namespaceURI !== parentNamespace) {
+        if (!attributes.some(({ name }) => name === 'xmlns')) {
+          attributes.unshift({ name: 'xmlns', value: node.namespaceURI });
+        }
+        if (
+          node.namespaceURI === SVG_NAMESPACE &&
+          !attributes.some(({ name }) => name === 'xmlns:xlink')
+        ) {
+          attributes.push({ name: 'xmlns:xlink', value: XLINK_NAMESPACE });
+        }
+      }
+      const open = `<${node.tagName}${attributes
+        .map(({ name, value }) => ` ${name}="${escapeXml(value)}"`)
+        .join('')}`;
+
+      const isVoid =
+        node.namespaceURI === XHTML_NAMESPACE
+          ? VOID_ELEMENTS.has(node.tagName)
+          : node.childNodes.length === 0;
+      if (isVoid) {
+        return `${open}/>`;
+      }
+      return `${open}>${toXhtml(node.childNodes, node.namespaceURI)}</${node.tagName}>`;
+    })
+    .join('');
+}
+
+function isElement(node: ChildNode): node is Element {
+  return 'tagName' in node;
+}
+
+function walkElements(
+  nodes: ChildNode[],
+  visit: (element: Element) => void,
+): void {
+  for (const node of nodes) {
+    if (isElement(node)) {
+      visit(node);
+      walkElements(node.childNodes, visit);
+    }
+  }
+}
+
+function findElement(
+  nodes: ChildNode[],
+  predicate: (element: Element) => boolean,
+): Element | null {
+  for (const node of nodes) {
+    if (!isElement(node)) {
+      continue;
+    }
+    if (predicate(node)) {
+      return node;
+    }
+    const found = findElement(node.childNodes, predicate);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+function getTextContent(element: Element): string {
+  return element.childNodes
+    .map((node) =>
+      isElement(node)
+        ? getTextContent(node)
+        : node.nodeName === '#text' && 'value' in node
+          ? node.value
+          : '',
+    )
+    .join('');
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+  return element.attrs.find((attr) => attr.name === name && !attr.prefix)
+    ?.value;
+}
+
+function setAttribute(element: Element, name: string, value: string): void {
+  const attr = element.attrs.find((a) => a.name === name && !a.prefix);
+  if (attr) {
+    attr.value = value;
+  } else {
+    element.attrs.push({ name, value });
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash as hex (node:crypto is not available on the web)
+ */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,69 @@
+/**
+ * Export formats that render without user interaction, shared by the CLI
+ * and export on save
+ */
+
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import type { MarkdownLivePreviewConfig } from '../types';
+import { renderDocx } from './DocxRenderer';
+import { renderEpub } from './EpubRenderer';
+import { renderPdf, renderSlidesPdf } from './PdfRenderer';
+import { renderPptx } from './PptxRenderer';
+
+export interface ExportFormat {
+  extension: string;
+  render(
+    engine: MarkdownEngine,
+    markdown: string,
+    sourceUri: string,
+    config: MarkdownLivePreviewConfig,
+  ): Promise<string | Buffer>;
+}
+
+export const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  html: {
+    extension: 'html',
+    render: (engine, markdown, sourceUri) =>
+      engine.generateHTMLTemplateForExport({
+        inputString: markdown,
+        config: { sourceUri, isVSCode: false, scrollSync: false },
+      }),
+  },
+  pdf: {
+    extension: 'pdf',
+    render: (engine, markdown, sourceUri, config) =>
+      renderPdf(engine, markdown, sourceUri, config.export),
+  },
+  docx: {
+    extension: 'docx',
+    render: renderDocx,
+  },
+  epub: {
+    extension: 'epub',
+    render: renderEpub,
+  },
+  slides: {
+    extension: 'html',
+    render: (engine, markdown, sourceUri) =>
+      engine.generateSlideDeck(markdown, { sourceUri }),
+  },
+  'slides-pdf': {
+    extension: 'pdf',
+    render: (engine, markdown, sourceUri, config) =>
+      renderSlidesPdf(engine, markdown, sourceUri, config.export),
+  },
+  pptx: {
+    extension: 'pptx',
+    render: renderPptx,
+  },
+};
+
+/**
+ * Look up an export format by name; names of Object.prototype members such
+ * as `constructor` are not formats
+ */
+export function getExportFormat(name: string): ExportFormat | undefined {
+  return Object.keys(EXPORT_FORMATS).includes(name)
+    ? EXPORT_FORMATS[name]
+    : undefined;
+}
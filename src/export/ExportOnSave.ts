@@ -0,0 +1,212 @@
+/**
+ * Export on save - re-exports a document to the targets listed in its
+ * `export_on_save` front matter whenever it is saved
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { type ExportFormat, getExportFormat } from './ExportFormats';
+
+// Saves within this window are exported once
+const EXPORT_ON_SAVE_DELAY = 1000;
+
+export interface ExportTarget {
+  format: string;
+  exportFormat: ExportFormat;
+  uri: vscode.Uri;
+}
+
+/**
+ * Check whether a path is a directory or inside it
+ */
+function isInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return (
+    relative !== '..' &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Targets of `export_on_save: { html: true, pdf: "dist/{name}.pdf" }`.
+ * `true` writes next to the document; a string is a path relative to the
+ * document, where `{name}` is the document name without extension. Paths
+ * must stay within the document's directory or its workspace folder, so a
+ * document cannot write anywhere else on disk.
+ */
+export function getExportTargets(
+  frontMatter: Record<string, unknown> | null,
+  sourceUri: vscode.Uri,
+): { targets: ExportTarget[]; errors: string[] } {
+  const targets: ExportTarget[] = [];
+  const errors: string[] = [];
+  const exportOnSave = frontMatter?.export_on_save;
+  if (!exportOnSave || typeof exportOnSave !== 'object') {
+    return { targets, errors };
+  }
+
+  const dir = path.dirname(sourceUri.fsPath);
+  const name = path.basename(sourceUri.fsPath, path.extname(sourceUri.fsPath));
+  const roots = [dir];
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(sourceUri);
+  if (workspaceFolder) {
+    roots.push(workspaceFolder.uri.fsPath);
+  }
+  for (const [format, value] of Object.entries(exportOnSave)) {
+    const exportFormat = getExportFormat(format);
+    if (!exportFormat) {
+      errors.push(`Unknown export format: ${format}`);
+      continue;
+    }
+    if (value === true) {
+      targets.push({
+        format,
+        exportFormat,
+        uri: vscode.Uri.file(
+          path.join(dir, `${name}.${exportFormat.extension}`),
+        ),
+      });
+    } else if (typeof value === 'string' && value.trim()) {
+      const target = value.trim().replace(/\{name\}/g, name);
+      const targetPath = path.resolve(dir, target);
+      if (path.isAbsolute(target)) {
+        errors.push(`Invalid target for ${format}: ${target} is absolute`);
+      } else if (!roots.some((root) => isInside(targetPath, root))) {
+        errors.push(
+          `Invalid target for ${format}: ${target} is outside the document's folder and workspace folder`,
+        );
+      } else {
+        targets.push({
+          format,
+          exportFormat,
+          uri: vscode.Uri.file(targetPath),
+        });
+      }
+    } else if (value !== false) {
+      errors.push(`Invalid target for ${format}: expected true or a path`);
+    }
+  }
+
+  // Never overwrite the document itself
+  return {
+    targets: targets.filter((target) => target.uri.fsPath !== sourceUri.fsPath),
+    errors,
+  };
+}
+
+/**
+ * Runs the exports of saved documents, debounced per document, and reports
+ * progress and failures in its own output channel
+ */
+export class ExportOnSave implements vscode.Disposable {
+  private output = vscode.window.createOutputChannel(
+    'Markdown Live Preview Export',
+  );
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, Promise<void>>();
+
+  /**
+   * Schedule the exports of a saved document. Repeated saves restart the
+   * delay; an export already running finishes before the next one starts.
+   * Nothing is exported in untrusted workspaces.
+   */
+  schedule(document: vscode.TextDocument): void {
+    if (
+      !vscode.workspace.isTrusted ||
+      !/^\s*export_on_save\s*:/m.test(document.getText())
+    ) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        const previous = this.running.get(key) ?? Promise.resolve();
+        const run = previous
+          .then(() => this.run(document.uri))
+          .catch((error) => this.log(`Export on save failed: ${error}`));
+        this.running.set(key, run);
+        run.finally(() => {
+          if (this.running.get(key) === run) {
+            this.running.delete(key);
+          }
+        });
+      }, EXPORT_ON_SAVE_DELAY),
+    );
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.output.dispose();
+  }
+
+  /**
+   * Export the document to each of its targets
+   */
+  private async run(sourceUri: vscode.Uri): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(sourceUri);
+    const markdown = document.getText();
+    const config = getFullConfig();
+    const engine = getMarkdownEngine(sourceUri.fsPath, config);
+    const { frontMatter } = engine.extractFrontMatter(markdown);
+    const { targets, errors } = getExportTargets(frontMatter, sourceUri);
+    const source = vscode.workspace.asRelativePath(sourceUri);
+
+    for (const error of errors) {
+      this.log(`${source}: ${error}`);
+    }
+
+    let failed = 0;
+    for (const target of targets) {
+      const output = vscode.workspace.asRelativePath(target.uri);
+      const started = Date.now();
+      this.log(`Exporting ${source} to ${output} (${target.format})...`);
+      try {
+        const content = await target.exportFormat.render(
+          engine,
+          markdown,
+          sourceUri.toString(),
+          config,
+        );
+        await vscode.workspace.fs.createDirectory(
+          vscode.Uri.joinPath(target.uri, '..'),
+        );
+        await vscode.workspace.fs.writeFile(
+          target.uri,
+          typeof content === 'string' ? Buffer.from(content, 'utf-8') : content,
+        );
+        this.log(`Saved ${output} in ${Date.now() - started} ms`);
+      } catch (error) {
+        failed++;
+        this.log(`Failed to export ${output}: ${error}`);
+      }
+    }
+
+    if (failed > 0 || errors.length > 0) {
+      // Not awaited: the next export of the document must not wait for it
+      vscode.window
+        .showWarningMessage(
+          `Export on save failed for ${source}`,
+          'Show Output',
+        )
+        .then((choice) => {
+          if (choice) {
+            this.output.show(true);
+          }
+        });
+    }
+  }
+
+  private log(message: string): void {
+    this.output.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * HTML exporter - writes a single self-contained HTML file rendered from source
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { getWorkspaceFolderUri, isVSCodeWebExtension } from '../utils';
+
+/**
+ * Ask where to save an export, defaulting to <source name>.<extension>
+ * in the workspace folder (or next to the source)
+ */
+export async function promptExportUri(
+  sourceUri: vscode.Uri,
+  extension: string,
+  filters: Record<string, string[]>,
+): Promise<vscode.Uri | undefined> {
+  const defaultName = `${path.basename(
+    sourceUri.fsPath,
+    path.extname(sourceUri.fsPath),
+  )}.${extension}`;
+  const workspaceFolder = getWorkspaceFolderUri(sourceUri);
+  const defaultUri = workspaceFolder
+    ? vscode.Uri.joinPath(workspaceFolder, defaultName)
+    : vscode.Uri.file(path.join(path.dirname(sourceUri.fsPath), defaultName));
+  return vscode.window.showSaveDialog({ defaultUri, filters });
+}
+
+/**
+ * Render a markdown document to self-contained HTML
+ */
+export async function renderHtmlExport(
+  document: vscode.TextDocument,
+): Promise<string> {
+  const engine = getMarkdownEngine(document.uri.fsPath, getFullConfig());
+  return engine.generateHTMLTemplateForExport({
+    inputString: document.getText(),
+    config: {
+      sourceUri: document.uri.toString(),
+      isVSCode: false,
+      scrollSync: false,
+    },
+    isVSCodeWebExtension: isVSCodeWebExtension(),
+  });
+}
+
+/**
+ * Export a markdown document to a self-contained HTML file
+ */
+export async function exportToHtml(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'html', {
+    'HTML Files': ['html', 'htm'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting HTML...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const html = await renderHtmlExport(document);
+        await vscode.workspace.fs.writeFile(
+          saveUri,
+          Buffer.from(html, 'utf-8'),
+        );
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export HTML: ${error}`);
+  }
+}
+
+/**
+ * Save as HTML from the preview: a self-contained export rendered from
+ * source, or in the web extension, which has no file system to render it
+ * with, the preview page that the webview posts
+ */
+export async function saveAsHtml(
+  sourceUri: vscode.Uri,
+  previewHtml?: string,
+): Promise<void> {
+  if (!isVSCodeWebExtension() || !previewHtml) {
+    return exportToHtml(sourceUri);
+  }
+
+  const saveUri = await promptExportUri(sourceUri, 'html', {
+    'HTML Files': ['html', 'htm'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.workspace.fs.writeFile(
+      saveUri,
+      new TextEncoder().encode(previewHtml),
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save HTML: ${error}`);
+  }
+}
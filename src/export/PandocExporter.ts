@@ -0,0 +1,111 @@
+/**
+ * Pandoc exporter - converts the document with a local pandoc binary and
+ * reports pandoc's errors and warnings as diagnostics
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getCodeChunkManager } from '../code-chunk';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import type { CodeChunk } from '../types';
+import { promptExportUri } from './HtmlExporter';
+import {
+  PANDOC_FORMATS,
+  type PandocMessage,
+  renderPandoc,
+} from './PandocRenderer';
+
+const SEVERITIES: Record<PandocMessage['severity'], vscode.DiagnosticSeverity> =
+  {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+  };
+
+/**
+ * Export a markdown document to a pandoc output format chosen by the user
+ */
+export async function exportWithPandoc(
+  sourceUri: vscode.Uri,
+  diagnostics: vscode.DiagnosticCollection,
+): Promise<void> {
+  const format = await vscode.window.showQuickPick(
+    PANDOC_FORMATS.map((format) => ({
+      label: format.label,
+      description: `.${format.extension}`,
+      format,
+    })),
+    { placeHolder: 'Select an output format' },
+  );
+  if (!format) return;
+
+  const saveUri = await promptExportUri(sourceUri, format.format.extension, {
+    [format.label]: [format.format.extension],
+  });
+  if (!saveUri) return;
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting with Pandoc...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+
+        // Run code chunks so their outputs are part of the export
+        let chunks: CodeChunk[] = [];
+        if (config.codeChunk.enableScriptExecution) {
+          const manager = getCodeChunkManager(document.uri.toString());
+          manager.parseChunks(document.getText());
+          chunks = await manager.runAllChunks(
+            path.dirname(document.uri.fsPath),
+          );
+        }
+
+        return renderPandoc(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config,
+          {
+            format: format.format.id,
+            outputPath: saveUri.fsPath,
+            chunks,
+          },
+        );
+      },
+    );
+
+    diagnostics.set(
+      sourceUri,
+      result.messages.map((message) => {
+        const position = new vscode.Position(
+          message.line ?? 0,
+          message.column ?? 0,
+        );
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(position, position),
+          message.message,
+          SEVERITIES[message.severity],
+        );
+        diagnostic.source = 'pandoc';
+        return diagnostic;
+      }),
+    );
+
+    const error = result.messages.find((m) => m.severity === 'error');
+    if (result.exitCode !== 0) {
+      vscode.window.showErrorMessage(
+        `Failed to export with Pandoc: ${error?.message ?? result.exitCode}`,
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export with Pandoc: ${error}`);
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * Pandoc renderer - converts markdown to any pandoc output format with a
+ * local pandoc binary. Extension-only syntax (@import, wiki links, code
+ * chunk outputs, diagrams) is resolved first, since pandoc knows none of it.
+ */
+
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import { sourceUriToFsPath } from '../markdown/MarkdownEngine';
+import {
+  DIAGRAM_LANGUAGES,
+  parseInfoString,
+  resolveWikiLink,
+  WIKI_LINK_PATTERN,
+} from '../markdown/MarkdownParser';
+import { DiagramRenderer } from '../markdown/renderers/DiagramRenderer';
+import type { CodeChunk, MarkdownLivePreviewConfig } from '../types';
+
+export interface PandocFormat {
+  // Pandoc writer name, passed as `-t`
+  id: string;
+  label: string;
+  extension: string;
+}
+
+export const PANDOC_FORMATS: PandocFormat[] = [
+  { id: 'latex', label: 'LaTeX', extension: 'tex' },
+  { id: 'odt', label: 'OpenDocument Text', extension: 'odt' },
+  { id: 'rst', label: 'reStructuredText', extension: 'rst' },
+  { id: 'asciidoc', label: 'AsciiDoc', extension: 'adoc' },
+  { id: 'docx', label: 'Word', extension: 'docx' },
+  { id: 'rtf', label: 'Rich Text Format', extension: 'rtf' },
+  { id: 'org', label: 'Org mode', extension: 'org' },
+  { id: 'mediawiki', label: 'MediaWiki', extension: 'wiki' },
+];
+
+export interface PandocRenderOptions {
+  format: string;
+  outputPath: string;
+  // Code chunks that have been run, whose outputs are exported
+  chunks?: CodeChunk[];
+}
+
+export interface PandocMessage {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  // Zero-based position in the source document, when pandoc reports one
+  line?: number;
+  column?: number;
+}
+
+export interface PandocResult {
+  exitCode: number | null;
+  messages: PandocMessage[];
+}
+
+// A line of the markdown sent to pandoc, with the source line it came from
+interface MappedLine {
+  text: string;
+  line: number;
+}
+
+interface Fence {
+  start: number;
+  end: number;
+  info: string;
+}
+
+/**
+ * Convert markdown to a pandoc output format, writing the result and any
+ * generated images next to `options.outputPath`.
+ *
+ * Per-document arguments come from front matter, after the configured
+ * `pandocArguments`:
+ *
+ *   pandoc_args: ['--toc', '--number-sections']
+ */
+export async function renderPandoc(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig,
+  options: PandocRenderOptions,
+): Promise<PandocResult> {
+  const sourceDir = path.dirname(sourceUriToFsPath(sourceUri));
+  const outputDir = path.dirname(options.outputPath);
+  const { frontMatter } = engine.extractFrontMatter(markdown);
+
+  const lines = await preprocessMarkdown(engine, markdown, sourceUri, config, {
+    chunks: options.chunks ?? [],
+    assetDir: `${options.outputPath.replace(/\.[^./\\]*$/, '')}_files`,
+    outputDir,
+  });
+
+  const args = [
+    '-f',
+    'markdown',
+    '-t',
+    options.format,
+    '--standalone',
+    `--resource-path=${[sourceDir, outputDir].join(path.delimiter)}`,
+    ...config.export.pandocArguments,
+    ...toArgumentList(frontMatter?.pandoc_args),
+    '-o',
+    options.outputPath,
+  ];
+  const { stderr, exitCode } = await runPandoc(
+    config.export.pandocPath || 'pandoc',
+    args,
+    lines.map((line) => line.text).join('\n'),
+    sourceDir,
+  );
+
+  return {
+    exitCode,
+    messages: parsePandocMessages(stderr, exitCode, lines),
+  };
+}
+
+/**
+ * Resolve extension-only syntax into plain pandoc markdown. Each returned
+ * line keeps the source line it came from, so pandoc's line numbers can be
+ * mapped back to the document.
+ */
+async function preprocessMarkdown(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig,
+  options: { chunks: CodeChunk[]; assetDir: string; outputDir: string },
+): Promise<MappedLine[]> {
+  let assetCount = 0;
+  const writeAsset = (
+    name: string,
+    extension: string,
+    data: string | Buffer,
+  ): string => {
+    fs.mkdirSync(options.assetDir, { recursive: true });
+    const fileName = `${name}-${++assetCount}.${extension}`;
+    fs.writeFileSync(path.join(options.assetDir, fileName), data);
+    return path
+      .relative(options.outputDir, path.join(options.assetDir, fileName))
+      .split(path.sep)
+      .join('/');
+  };
+
+  let lines: MappedLine[] = markdown
+    .split('\n')
+    .map((text, line) => ({ text, line }));
+
+  // 1. Code chunk outputs, after their code (or in its place when hidden)
+  const chunksByLine = new Map(
+    options.chunks.map((chunk) => [chunk.line, chunk]),
+  );
+  lines = replaceFences(lines, (_fence, fenceLines) => {
+    const chunk = chunksByLine.get(fenceLines[0].line);
+    if (!chunk || chunk.status === 'idle') {
+      return fenceLines;
+    }
+    const output = renderChunkOutput(chunk, writeAsset).map((text) => ({
+      text,
+      line: chunk.line,
+    }));
+    return chunk.attrs.hide ? output : [...fenceLines, ...output];
+  });
+
+  // 2. @import directives, with every imported line mapped to the directive
+  const imported: MappedLine[] = [];
+  const fences = findFences(lines);
+  for (let i = 0; i < lines.length; i++) {
+    const { text, line } = lines[i];
+    if (
+      /^@import\s+"/.test(text) &&
+      !fences.some((fence) => i >= fence.start && i <= fence.end)
+    ) {
+      try {
+        const resolved = await engine.resolveImports(text, sourceUri);
+        for (const importedText of resolved.split('\n')) {
+          imported.push({ text: importedText, line });
+        }
+        continue;
+      } catch (error) {
+        console.warn('Failed to process @import directive:', error);
+      }
+    }
+    imported.push(lines[i]);
+  }
+  lines = imported;
+
+  // 3. Diagrams, rendered to SVG files
+  const diagramRenderer = new DiagramRenderer();
+  const diagrams = new Map<number, MappedLine[]>();
+  for (const fence of findFences(lines)) {
+    const { language, attrs } = parseInfoString(fence.info);
+    const diagramClass = DIAGRAM_LANGUAGES[language];
+    const isCode =
+      attrs.code_block === 'true' || (attrs.cmd && attrs.cmd !== 'true');
+    if (!diagramClass || isCode) {
+      continue;
+    }
+    const source = lines
+      .slice(fence.start + 1, fence.end)
+      .map((line) => line.text)
+      .join('\n');
+    const svg = await diagramRenderer.renderSvg(diagramClass, source, {
+      mermaidTheme: config.mermaid.theme,
+      engine: attrs.engine,
+    });
+    if (svg) {
+      const href = writeAsset(
+        'diagram',
+        'svg',
+        DiagramRenderer.toStandaloneSvg(svg),
+      );
+      diagrams.set(fence.start, [
+        { text: `![](${href})`, line: lines[fence.start].line },
+      ]);
+    }
+  }
+  lines = replaceFences(
+    lines,
+    (fence, fenceLines) => diagrams.get(fence.start) ?? fenceLines,
+  );
+
+  // 4. Wiki links, outside code
+  if (config.wikiLink.enabled) {
+    const inFence = new Set<number>();
+    for (const fence of findFences(lines)) {
+      for (let i = fence.start; i <= fence.end; i++) inFence.add(i);
+    }
+    lines = lines.map((line, i) =>
+      inFence.has(i)
+        ? line
+        : { ...line, text: expandWikiLinks(line.text, config) },
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Find fenced code blocks, as indexes of their opening and closing lines
+ */
+function findFences(lines: MappedLine[]): Fence[] {
+  const fences: Fence[] = [];
+  let open: { start: number; marker: string; info: string } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].text;
+    if (!open) {
+      const match = text.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+      if (match && !(match[1][0] === '`' && match[2].includes('`'))) {
+        open = { start: i, marker: match[1], info: match[2].trim() };
+      }
+    } else if (
+      new RegExp(`^ {0,3}${open.marker[0]}{${open.marker.length},}\\s*$`).test(
+        text,
+      )
+    ) {
+      fences.push({ start: open.start, end: i, info: open.info });
+      open = null;
+    }
+  }
+  if (open) {
+    fences.push({ start: open.start, end: lines.length - 1, info: open.info });
+  }
+  return fences;
+}
+
+/**
+ * Replace each fenced code block with the lines returned for it
+ */
+function replaceFences(
+  lines: MappedLine[],
+  replacer: (fence: Fence, fenceLines: MappedLine[]) => MappedLine[],
+): MappedLine[] {
+  const result: MappedLine[] = [];
+  let position = 0;
+  for (const fence of findFences(lines)) {
+    result.push(...lines.slice(position, fence.start));
+    result.push(...replacer(fence, lines.slice(fence.start, fence.end + 1)));
+    position = fence.end + 1;
+  }
+  return result.concat(lines.slice(position));
+}
+
+/**
+ * Render the output of a run code chunk as markdown lines
+ */
+function renderChunkOutput(
+  chunk: CodeChunk,
+  writeAsset: (
+    name: string,
+    extension: string,
+    data: string | Buffer,
+  ) => string,
+): string[] {
+  const stdout = chunk.stdout.replace(/\n$/, '');
+  const lines: string[] = [];
+  if (chunk.attrs.matplotlib || chunk.attrs.output === 'png') {
+    if (stdout && !stdout.startsWith('<')) {
+      const href = writeAsset('chunk', 'png', Buffer.from(stdout, 'base64'));
+      lines.push('', `![](${href})`);
+    }
+  } else if (stdout) {
+    switch (chunk.attrs.output) {
+      case 'text': {
+        const fence = '`'.repeat(
+          Math.max(
+            3,
+            ...(stdout.match(/`{3,}/g) ?? []).map((m) => m.length + 1),
+          ),
+        );
+        lines.push('', fence, ...stdout.split('\n'), fence);
+        break;
+      }
+      case 'html':
+      case 'markdown':
+        lines.push('', ...stdout.split('\n'));
+        break;
+    }
+  }
+  if (chunk.error) {
+    lines.push('', '```', ...chunk.error.replace(/\n$/, '').split('\n'), '```');
+  }
+  return lines.length ? [...lines, ''] : lines;
+}
+
+/**
+ * Rewrite wiki links as markdown links, leaving inline code untouched
+ */
+function expandWikiLinks(
+  text: string,
+  config: MarkdownLivePreviewConfig,
+): string {
+  const wikiLinkRegex = new RegExp(WIKI_LINK_PATTERN, 'g');
+  return text
+    .split(/(`+[^`]*`+)/)
+    .map((part, i) =>
+      i % 2
+        ? part
+        : part.replace(
+            wikiLinkRegex,
+            (_, excl: string, firstPart: string, secondPart?: string) => {
+              const link = resolveWikiLink(excl, firstPart, secondPart, config);
+              const target = /\s/.test(link.target)
+                ? `<${link.target}>`
+                : link.target;
+              return `${link.isImage ? '!' : ''}[${link.text}](${target})`;
+            },
+          ),
+    )
+    .join('');
+}
+
+/**
+ * Read `pandoc_args` front matter, given as a list or a command-line string
+ */
+function toArgumentList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string') {
+    return (value.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) ?? []).map((arg) =>
+      arg.replace(/^(["'])(.*)\1$/, '$2'),
+    );
+  }
+  return [];
+}
+
+/**
+ * Run pandoc with the markdown on stdin
+ */
+function runPandoc(
+  pandocPath: string,
+  args: string[],
+  input: string,
+  cwd: string,
+): Promise<{ stderr: string; exitCode: number | null }> {
+  return new Promise((resolve) => {
+    let stderr = '';
+
+    const proc = spawn(pandocPath, args, { cwd });
+
+    proc.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    proc.on('error', (err: NodeJS.ErrnoException) => {
+      resolve({
+        stderr:
+          err.code === 'ENOENT'
+            ? `Could not find pandoc at "${pandocPath}". Install pandoc or set markdown-live-preview.pandocPath.`
+            : err.message,
+        exitCode: 1,
+      });
+    });
+
+    proc.on('close', (code) => {
+      resolve({ stderr, exitCode: code });
+    });
+
+    // pandoc may exit before reading all input, e.g. on a bad argument
+    proc.stdin?.on('error', () => {});
+    proc.stdin?.end(input);
+  });
+}
+
+/**
+ * Split pandoc's stderr into messages, mapping `line N, column M` positions
+ * back to the source document
+ */
+function parsePandocMessages(
+  stderr: string,
+  exitCode: number | null,
+  lines: MappedLine[],
+): PandocMessage[] {
+  const messages: PandocMessage[] = [];
+  for (const text of stderr.split('\n')) {
+    if (!text.trim()) {
+      continue;
+    }
+    const level = text.match(/^\[(WARNING|INFO|ERROR)\]\s*/);
+    const previous = messages[messages.length - 1];
+    if (!level && /^\s/.test(text) && previous) {
+      // Continuation of a multi-line message
+      previous.message += `\n${text.trim()}`;
+      continue;
+    }
+    messages.push({
+      severity:
+        level?.[1] === 'WARNING'
+          ? 'warning'
+          : level?.[1] === 'INFO'
+            ? 'info'
+            : level || exitCode !== 0
+              ? 'error'
+              : 'warning',
+      message: level ? text.slice(level[0].length) : text,
+    });
+  }
+
+  for (const message of messages) {
+    const position = message.message.match(/line (\d+),? column (\d+)/);
+    const mapped = position && lines[Number(position[1]) - 1];
+    if (position && mapped) {
+      message.line = mapped.line;
+      message.column = Number(position[2]) - 1;
+    }
+  }
+
+  if (exitCode !== 0 && !messages.some((m) => m.severity === 'error')) {
+    messages.push({
+      severity: 'error',
+      message: `pandoc exited with code ${exitCode}`,
+    });
+  }
+  return messages;
+}
@@ -0,0 +1,43 @@
+/**
+ * PDF exporter - prints the rendered document to PDF
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { promptExportUri } from './HtmlExporter';
+import { renderPdf } from './PdfRenderer';
+
+/**
+ * Export a markdown document to a PDF file
+ */
+export async function exportToPdf(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'pdf', {
+    'PDF Files': ['pdf'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting PDF...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+        const pdf = await renderPdf(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config.export,
+        );
+        await vscode.workspace.fs.writeFile(saveUri, pdf);
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export PDF: ${error}`);
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * PDF renderer - prints the self-contained HTML export to PDF with a locally
+ * installed Chrome, Chromium or Edge. Nothing is downloaded and the page is
+ * kept offline while printing.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import type { MarkdownLivePreviewConfig, PdfPageSize } from '../types';
+
+export interface PdfMargin {
+  top: string;
+  right: string;
+  bottom: string;
+  left: string;
+}
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  landscape: boolean;
+  margin: PdfMargin;
+  // Header/footer templates, see toChromeTemplate()
+  header: string;
+  footer: string;
+  // Use the page's `@page { size }` instead of pageSize (slide decks)
+  preferCSSPageSize?: boolean;
+}
+
+// Diagrams still waiting for the in-page renderers (see DiagramRenderer),
+// and slide decks still laying out their print pages
+const PENDING_DIAGRAMS_SELECTOR = [
+  'mermaid',
+  'wavedrom',
+  'graphviz',
+  'vega',
+  'vega-lite',
+  'recharts',
+]
+  .map((name) => `.${name}:not([data-rendered])`)
+  .concat('[data-print-pending]')
+  .join(', ');
+
+// Front matter placeholders and the Chrome header/footer classes they map to
+const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  page: 'pageNumber',
+  pages: 'totalPages',
+  title: 'title',
+  date: 'date',
+};
+
+/**
+ * Render markdown to PDF.
+ *
+ * Page setup comes from the `export` settings, overridden per document by a
+ * `pdf` front matter entry:
+ *
+ *   pdf:
+ *     page_size: Letter
+ *     landscape: true
+ *     margin: 1in 0.75in
+ *     header: '{title}'
+ *     footer: 'Page {page} of {pages}'
+ */
+export async function renderPdf(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig['export'],
+): Promise<Buffer> {
+  const executablePath = requireChromeExecutable(config.chromePath);
+  const html = await engine.generateHTMLTemplateForExport({
+    inputString: markdown,
+    config: { sourceUri, isVSCode: false, scrollSync: false },
+    skipRemoteImages: true,
+  });
+  const { frontMatter } = engine.extractFrontMatter(markdown);
+
+  return printPdf(html, resolvePdfOptions(frontMatter, config), executablePath);
+}
+
+/**
+ * Render a presentation to PDF, one page per slide at the deck's size
+ */
+export async function renderSlidesPdf(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig['export'],
+): Promise<Buffer> {
+  const executablePath = requireChromeExecutable(config.chromePath);
+  const html = await engine.generateSlideDeck(markdown, {
+    sourceUri,
+    print: true,
+  });
+
+  return printPdf(
+    html,
+    {
+      pageSize: config.pdfPageSize,
+      landscape: false,
+      margin: { top: '0', right: '0', bottom: '0', left: '0' },
+      header: '',
+      footer: '',
+      preferCSSPageSize: true,
+    },
+    executablePath,
+  );
+}
+
+/**
+ * Find a Chrome, Chromium or Edge executable: the configured path, then
+ * CHROME_PATH / PUPPETEER_EXECUTABLE_PATH, then the usual install locations
+ */
+export function findChromeExecutable(configuredPath?: string): string | null {
+  const candidates = [
+    configuredPath,
+    process.env.CHROME_PATH,
+    process.env.PUPPETEER_EXECUTABLE_PATH,
+    ...getDefaultChromePaths(),
+  ];
+  return (
+    candidates.find(
+      (candidate): candidate is string =>
+        !!candidate && fs.existsSync(candidate),
+    ) ?? null
+  );
+}
+
+/**
+ * findChromeExecutable, failing with a hint to set `chromePath`
+ */
+function requireChromeExecutable(configuredPath?: string): string {
+  const executablePath = findChromeExecutable(configuredPath);
+  if (!executablePath) {
+    throw new Error(
+      'No Chrome, Chromium or Edge installation found. Set `markdown-live-preview.chromePath` to its executable.',
+    );
+  }
+  return executablePath;
+}
+
+/**
+ * Merge `pdf` front matter over the configured defaults
+ */
+export function resolvePdfOptions(
+  frontMatter: Record<string, unknown> | null,
+  config: MarkdownLivePreviewConfig['export'],
+): PdfOptions {
+  const pdf = (frontMatter?.pdf ?? {}) as Record<string, unknown>;
+  return {
+    pageSize: (pdf.page_size as PdfPageSize) || config.pdfPageSize,
+    landscape: pdf.landscape === true,
+    margin: parseMargin(pdf.margin ?? config.pdfMargin),
+    header: typeof pdf.header === 'string' ? pdf.header : '',
+    footer: typeof pdf.footer === 'string' ? pdf.footer : '',
+  };
+}
+
+/**
+ * Print HTML to PDF with headless Chrome
+ */
+export async function printPdf(
+  html: string,
+  options: PdfOptions,
+  executablePath: string,
+): Promise<Buffer> {
+  const puppeteer = await import('puppeteer-core');
+  const browser = await puppeteer.launch({
+    executablePath,
+    headless: true,
+    // Chrome refuses to start sandboxed as root (e.g. in containers)
+    args: process.getuid?.() === 0 ? ['--no-sandbox'] : [],
+  });
+
+  try {
+    const page = await browser.newPage();
+
+    // The export is self-contained, so any remote request is blocked
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (/^(?:data|blob|about):/.test(request.url())) {
+        request.continue();
+      } else {
+        request.abort();
+      }
+    });
+
+    await page.setContent(html, { waitUntil: 'load' });
+    await page
+      .waitForFunction(
+        `!document.querySelector(${JSON.stringify(PENDING_DIAGRAMS_SELECTOR)})`,
+        { timeout: 30000 },
+      )
+      .catch(() => {
+        console.warn('PDF export: some diagrams did not finish rendering');
+      });
+    await page.evaluate(
+      'Promise.all([document.fonts.ready, window.MathJax?.startup?.promise])',
+    );
+
+    const hasHeaderFooter = !!(options.header || options.footer);
+    const pdf = await page.pdf({
+      format: options.pageSize,
+      landscape: options.landscape,
+      margin: options.margin,
+      printBackground: true,
+      preferCSSPageSize: options.preferCSSPageSize,
+      displayHeaderFooter: hasHeaderFooter,
+      headerTemplate: toChromeTemplate(options.header, options.margin),
+      footerTemplate: toChromeTemplate(options.footer, options.margin),
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Parse a margin given as CSS shorthand ("20mm", "1in 0.75in", ...)
+ * or as a { top, right, bottom, left } map
+ */
+function parseMargin(value: unknown): PdfMargin {
+  if (value && typeof value === 'object') {
+    const margin = value as Partial<Record<keyof PdfMargin, unknown>>;
+    return {
+      top: String(margin.top ?? 0),
+      right: String(margin.right ?? 0),
+      bottom: String(margin.bottom ?? 0),
+      left: String(margin.left ?? 0),
+    };
+  }
+
+  const parts = String(value).trim().split(/\s+/);
+  const [top, right = top, bottom = top, left = right] = parts;
+  return { top, right, bottom, left };
+}
+
+/**
+ * Turn a header/footer template into Chrome's format: `{page}`, `{pages}`,
+ * `{title}` and `{date}` are replaced, HTML is kept as is
+ */
+function toChromeTemplate(template: string, margin: PdfMargin): string {
+  if (!template) {
+    return '<span></span>';
+  }
+  const content = template.replace(
+    /\{(page|pages|title|date)\}/g,
+    (_match, key: string) =>
+      `<span class="${TEMPLATE_PLACEHOLDERS[key]}"></span>`,
+  );
+  return `<div style="width:100%;padding:0 ${margin.right} 0 ${margin.left};font-size:9px;color:#666;text-align:center;">${content}</div>`;
+}
+
+/**
+ * Usual Chrome, Chromium and Edge install locations
+ */
+function getDefaultChromePaths(): string[] {
+  switch (process.platform) {
+    case 'darwin':
+      return [
+        '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+        '/Applications/Chromium.app/Contents/MacOS/Chromium',
+        '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+        ...getPuppeteerCachePaths(),
+      ];
+    case 'win32': {
+      const roots = [
+        process.env.PROGRAMFILES,
+        process.env['PROGRAMFILES(X86)'],
+        process.env.LOCALAPPDATA,
+      ].filter((root): root is string => !!root);
+      return [
+        ...roots.flatMap((root) => [
+          path.join(root, 'Google', 'Chrome', 'Application', 'chrome.exe'),
+          path.join(root, 'Chromium', 'Application', 'chrome.exe'),
+          path.join(root, 'Microsoft', 'Edge', 'Application', 'msedge.exe'),
+        ]),
+        ...getPuppeteerCachePaths(),
+      ];
+    }
+    default:
+      return [
+        '/usr/bin/google-chrome',
+        '/usr/bin/google-chrome-stable',
+        '/usr/bin/chromium',
+        '/usr/bin/chromium-browser',
+        '/snap/bin/chromium',
+        '/usr/bin/microsoft-edge',
+        ...getPuppeteerCachePaths(),
+      ];
+  }
+}
+
+/**
+ * Order Puppeteer cache folders such as `linux-120.0.6099.109` by their
+ * version numbers, newest first
+ */
+function compareVersionsDescending(a: string, b: string): number {
+  const parts = (name: string) =>
+    name
+      .slice(name.indexOf('-') + 1)
+      .split('.')
+      .map((part) => Number.parseInt(part, 10) || 0);
+  const [left, right] = [parts(a), parts(b)];
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (right[i] ?? 0) - (left[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Chrome for Testing / headless shell builds already installed by Puppeteer,
+ * newest first
+ */
+function getPuppeteerCachePaths(): string[] {
+  const cacheDir = path.join(os.homedir(), '.cache', 'puppeteer');
+  const executables: Record<string, string> =
+    process.platform === 'win32'
+      ? {
+          chrome: 'chrome.exe',
+          'chrome-headless-shell': 'chrome-headless-shell.exe',
+        }
+      : {
+          chrome:
+            process.platform === 'darwin'
+              ? 'Google Chrome for Testing.app/Contents/MacOS/Google Chrome for Testing'
+              : 'chrome',
+          'chrome-headless-shell': 'chrome-headless-shell',
+        };
+
+  return Object.entries(executables).flatMap(([browser, executable]) => {
+    const browserDir = path.join(cacheDir, browser);
+    try {
+      return fs
+        .readdirSync(browserDir)
+        .sort(compareVersionsDescending)
+        .flatMap((version) =>
+          fs
+            .readdirSync(path.join(browserDir, version))
+            .map((build) => path.join(browserDir, version, build, executable)),
+        );
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * PPTX exporter - writes a presentation as a PowerPoint deck
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { promptExportUri } from './HtmlExporter';
+import { renderPptx } from './PptxRenderer';
+
+/**
+ * Export a presentation to PPTX, one PowerPoint slide per slide
+ */
+export async function exportToPptx(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'pptx', {
+    'PowerPoint Presentations': ['pptx'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting slides to PowerPoint...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+        const pptx = await renderPptx(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config,
+        );
+        await vscode.workspace.fs.writeFile(saveUri, pptx);
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export slides: ${error}`);
+  }
+}
@@ -0,0 +1,1072 @@
+/**
+ * PPTX renderer - builds a PowerPoint deck from the slides of a presentation.
+ * The first heading of a slide becomes its title, paragraphs and lists become
+ * native text frames and tables native tables. Code, display math and
+ * diagrams are placed as rendered SVG images, speaker notes go to the notes
+ * pane and background directives to the slide background.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { imageSize } from 'image-size';
+import type * as MarkdownIt from 'markdown-it';
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js';
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js';
+import { TeX } from 'mathjax-full/js/input/tex.js';
+import { mathjax } from 'mathjax-full/js/mathjax.js';
+import { SVG } from 'mathjax-full/js/output/svg.js';
+import PptxGenJS from 'pptxgenjs';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import { sourceUriToFsPath } from '../markdown/MarkdownEngine';
+import {
+  DIAGRAM_LANGUAGES,
+  formatCrossReference,
+  parseInfoString,
+  unescapeMarkdown,
+} from '../markdown/MarkdownParser';
+import {
+  type CodeRenderer,
+  getCodeRenderer,
+  type HighlightedCode,
+} from '../markdown/renderers/CodeRenderer';
+import { DiagramRenderer } from '../markdown/renderers/DiagramRenderer';
+import { KatexRenderer } from '../markdown/renderers/KatexRenderer';
+import type { MarkdownLivePreviewConfig } from '../types';
+
+type Token = MarkdownIt.Token;
+type TextRun = PptxGenJS.TextProps;
+
+// A slide ready to be laid out: parsed body, background directives and notes
+export interface PptxSlide {
+  tokens: Token[];
+  directives: string;
+  notes: string;
+}
+
+// Body content of a slide, stacked top to bottom. Sizes are in inches.
+type SlideBlock =
+  | { kind: 'text'; runs: TextRun[]; height: number }
+  | { kind: 'image'; data: string; width: number; height: number }
+  | { kind: 'table'; rows: PptxGenJS.TableRow[]; height: number };
+
+// A paragraph of a text frame; its options are carried by the first run
+interface TextParagraph {
+  runs: TextRun[];
+  fontSize: number;
+  italic: boolean;
+  options: TextRun['options'];
+}
+
+type Bullet = NonNullable<TextRun['options']>['bullet'];
+
+// Where a block sits: inside quotes and/or list items
+interface BlockContext {
+  quoteDepth: number;
+  listDepth: number;
+  // The first paragraph of a list item carries its bullet/number
+  bullet?: Bullet;
+}
+
+// Inline formatting while walking inline tokens
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  highlight?: boolean;
+  subscript?: boolean;
+  superscript?: boolean;
+}
+
+// Display math inside a paragraph, placed as an image of its own
+class DisplayMath {
+  constructor(readonly expression: string) {}
+}
+
+// Slide masters: title and content, and a centered title for section slides
+const MASTER_NAME = 'MLP_SLIDE';
+const SECTION_MASTER_NAME = 'MLP_SECTION';
+
+// Slides are measured at 96 pixels per inch, like the HTML decks
+const PIXELS_PER_INCH = 96;
+const MARGIN = 0.5;
+const TITLE_TOP = 0.3;
+const TITLE_HEIGHT = 1;
+const BLOCK_GAP = 0.15;
+
+const FONT_SIZE = 20;
+const TABLE_FONT_SIZE = 16;
+const TITLE_FONT_SIZE = 32;
+const HEADING_FONT_SIZES = [32, 28, 24, 22, 20, 20];
+const CODE_FONT = 'Consolas';
+const CODE_FONT_SIZE = 16;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+};
+
+// CSS color keywords most used in slide backgrounds
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  gray: '808080',
+  grey: '808080',
+  silver: 'C0C0C0',
+  red: 'FF0000',
+  maroon: '800000',
+  orange: 'FFA500',
+  yellow: 'FFFF00',
+  olive: '808000',
+  lime: '00FF00',
+  green: '008000',
+  aqua: '00FFFF',
+  teal: '008080',
+  blue: '0000FF',
+  navy: '000080',
+  fuchsia: 'FF00FF',
+  purple: '800080',
+};
+
+/**
+ * Render a presentation to a PPTX file, one PowerPoint slide per slide
+ */
+export async function renderPptx(
+  engine: MarkdownEngine,
+  markdown: string,
+  sourceUri: string,
+  config: MarkdownLivePreviewConfig,
+): Promise<Buffer> {
+  const { frontMatter, size, slides } = engine.getSlides(markdown, sourceUri);
+  const parsed: PptxSlide[] = [];
+  for (const slide of slides) {
+    // Escapes are kept as written until the math is found
+    const { tokens } = await engine.parseTokens(
+      slide.content,
+      { sourceUri },
+      { rawEscapes: true },
+    );
+    parsed.push({ tokens, directives: slide.directives, notes: slide.notes });
+  }
+
+  const renderer = new PptxRenderer(config);
+  return renderer.render(parsed, {
+    sourcePath: sourceUriToFsPath(sourceUri),
+    width: size.width / PIXELS_PER_INCH,
+    height: size.height / PIXELS_PER_INCH,
+    title:
+      typeof frontMatter?.title === 'string' ? frontMatter.title : undefined,
+    author:
+      typeof frontMatter?.author === 'string' ? frontMatter.author : undefined,
+  });
+}
+
+export class PptxRenderer {
+  private katexRenderer: KatexRenderer;
+  private codeRenderer: CodeRenderer;
+  private diagramRenderer = new DiagramRenderer();
+  private config: MarkdownLivePreviewConfig;
+
+  // Per-deck state
+  private baseDir = '';
+  private width = 0;
+  private height = 0;
+
+  // Per-slide state
+  private blocks: SlideBlock[] = [];
+  private paragraphs: TextParagraph[] = [];
+  private textColor = '000000';
+
+  constructor(config: MarkdownLivePreviewConfig) {
+    this.config = config;
+    this.katexRenderer = new KatexRenderer(config.math);
+    this.codeRenderer = getCodeRenderer(config.theme.codeBlock);
+  }
+
+  /**
+   * Build the deck from parsed slides. Width and height are in inches.
+   */
+  async render(
+    slides: PptxSlide[],
+    options: {
+      width: number;
+      height: number;
+      sourcePath?: string;
+      title?: string;
+      author?: string;
+    },
+  ): Promise<Buffer> {
+    this.baseDir = options.sourcePath ? path.dirname(options.sourcePath) : '';
+    this.width = options.width;
+    this.height = options.height;
+
+    const pptx = new PptxGenJS();
+    pptx.defineLayout({
+      name: 'MLP',
+      width: options.width,
+      height: options.height,
+    });
+    pptx.layout = 'MLP';
+    if (options.title) pptx.title = options.title;
+    if (options.author) pptx.author = options.author;
+    this.defineTitleMaster(pptx, MASTER_NAME, {
+      y: TITLE_TOP,
+      h: TITLE_HEIGHT,
+      valign: 'bottom',
+    });
+    this.defineTitleMaster(pptx, SECTION_MASTER_NAME, {
+      y: (options.height - 1.5) / 2,
+      h: 1.5,
+      align: 'center',
+      valign: 'middle',
+    });
+
+    for (const { tokens, directives, notes } of slides) {
+      // The background decides the text color, so it comes first
+      const background = this.getBackground(directives);
+      const title = await this.renderSlideContent(tokens);
+      const slide = pptx.addSlide({
+        masterName:
+          title && this.blocks.length === 0 ? SECTION_MASTER_NAME : MASTER_NAME,
+      });
+      if (background) {
+        slide.background = background;
+      }
+      if (title) {
+        slide.addText(title, { placeholder: 'title', color: this.textColor });
+      }
+      this.placeBlocks(slide, title ? TITLE_TOP + TITLE_HEIGHT + 0.2 : MARGIN);
+      if (notes) {
+        slide.addNotes(notes);
+      }
+    }
+
+    return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer;
+  }
+
+  private get bodyWidth(): number {
+    return this.width - 2 * MARGIN;
+  }
+
+  /**
+   * A slide master with a bold title placeholder
+   */
+  private defineTitleMaster(
+    pptx: PptxGenJS,
+    name: string,
+    position: Pick<PptxGenJS.TextPropsOptions, 'y' | 'h' | 'align' | 'valign'>,
+  ): void {
+    pptx.defineSlideMaster({
+      title: name,
+      objects: [
+        {
+          placeholder: {
+            options: {
+              name: 'title',
+              type: 'title',
+              x: MARGIN,
+              w: this.bodyWidth,
+              fontSize: TITLE_FONT_SIZE,
+              bold: true,
+              ...position,
+            },
+            text: '',
+          },
+        },
+      ],
+    });
+  }
+
+  /**
+   * Render one slide: returns the first heading as its title, the rest
+   * becomes the body blocks
+   */
+  private async renderSlideContent(tokens: Token[]): Promise<TextRun[] | null> {
+    this.blocks = [];
+    this.paragraphs = [];
+
+    const headingIndex = tokens.findIndex((t) => t.type === 'heading_open');
+    let title: TextRun[] | null = null;
+    if (headingIndex !== -1) {
+      title = this.toRuns(await this.renderInline(tokens[headingIndex + 1]));
+      tokens = [
+        ...tokens.slice(0, headingIndex),
+        ...tokens.slice(this.findClose(tokens, headingIndex) + 1),
+      ];
+    }
+
+    await this.renderBlocks(tokens, { quoteDepth: 0, listDepth: 0 });
+    this.flushParagraphs();
+    return title;
+  }
+
+  /**
+   * Stack the body blocks from `top`, shrinking images to fit the slide
+   */
+  private placeBlocks(slide: PptxGenJS.Slide, top: number): void {
+    const available = this.height - MARGIN - top;
+    const gaps = BLOCK_GAP * Math.max(0, this.blocks.length - 1);
+    let fixed = 0;
+    let images = 0;
+    for (const block of this.blocks) {
+      if (block.kind === 'image') images += block.height;
+      else fixed += block.height;
+    }
+    const imageScale =
+      images > 0 && fixed + gaps + images > available
+        ? Math.max(0.2, (available - fixed - gaps) / images)
+        : 1;
+
+    let y = top;
+    for (const block of this.blocks) {
+      switch (block.kind) {
+        case 'text':
+          slide.addText(block.runs, {
+            x: MARGIN,
+            y,
+            w: this.bodyWidth,
+            h: block.height,
+            valign: 'top',
+            fontSize: FONT_SIZE,
+            color: this.textColor,
+            fit: 'shrink',
+          });
+          y += block.height;
+          break;
+        case 'table':
+          slide.addTable(block.rows, {
+            x: MARGIN,
+            y,
+            w: this.bodyWidth,
+            fontSize: TABLE_FONT_SIZE,
+            color: this.textColor,
+            border: { type: 'solid', pt: 0.75, color: 'D0D7DE' },
+          });
+          y += block.height;
+          break;
+        case 'image': {
+          const w = block.width * imageScale;
+          const h = block.height * imageScale;
+          slide.addImage({
+            data: block.data,
+            x: MARGIN + (this.bodyWidth - w) / 2,
+            y,
+            w,
+            h,
+          });
+          y += h;
+          break;
+        }
+      }
+      y += BLOCK_GAP;
+    }
+  }
+
+  /**
+   * Render a run of block tokens into the slide's paragraphs and blocks
+   */
+  private async renderBlocks(
+    tokens: Token[],
+    context: BlockContext,
+  ): Promise<void> {
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      switch (token.type) {
+        case 'heading_open': {
+          const close = this.findClose(tokens, i);
+          const level = Number(token.tag.slice(1));
+          this.addParagraph(
+            this.toRuns(await this.renderInline(tokens[i + 1], { bold: true })),
+            context,
+            HEADING_FONT_SIZES[level - 1],
+          );
+          i = close;
+          break;
+        }
+
+        case 'paragraph_open': {
+          const close = this.findClose(tokens, i);
+          await this.renderParagraph(tokens[i + 1], context);
+          i = close;
+          break;
+        }
+
+        case 'blockquote_open': {
+          const close = this.findClose(tokens, i);
+          await this.renderBlocks(tokens.slice(i + 1, close), {
+            ...context,
+            quoteDepth: context.quoteDepth + 1,
+          });
+          i = close;
+          break;
+        }
+
+        case 'bullet_list_open':
+        case 'ordered_list_open': {
+          const close = this.findClose(tokens, i);
+          await this.renderList(tokens.slice(i + 1, close), token, context);
+          i = close;
+          break;
+        }
+
+        case 'fence':
+        case 'code_block':
+          await this.renderFence(token);
+          break;
+
+        case 'table_open': {
+          const close = this.findClose(tokens, i);
+          await this.renderTable(tokens.slice(i + 1, close));
+          i = close;
+          break;
+        }
+
+        case 'html_block': {
+          // Keep the text of raw HTML blocks
+          const text = decodeHtmlEntities(
+            token.content.replace(/<!--[\s\S]*?-->|<[^>]+>/g, ''),
+          ).trim();
+          if (text) {
+            this.addParagraph([{ text }], context);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Render a paragraph. A paragraph of nothing but images becomes image
+   * blocks; display math becomes an image of its own.
+   */
+  private async renderParagraph(
+    inline: Token,
+    context: BlockContext,
+  ): Promise<void> {
+    const children = (inline.children ?? []).filter(
+      (child) =>
+        child.type !== 'softbreak' &&
+        !(child.type === 'text' && !child.content.trim()),
+    );
+    if (
+      children.length > 0 &&
+      children.every((child) => child.type === 'image')
+    ) {
+      for (const child of children) {
+        const image = this.createImage(child.attrGet('src') ?? '');
+        if (image) {
+          this.addBlock(image);
+        } else {
+          this.addParagraph([{ text: child.content }], context);
+        }
+      }
+      return;
+    }
+
+    let current: TextRun[] = [];
+    for (const run of await this.renderInline(inline)) {
+      if (run instanceof DisplayMath) {
+        this.addParagraph(current, context);
+        current = [];
+        const image = this.renderMath(run.expression);
+        if (image) {
+          this.addBlock(image);
+        } else {
+          this.addParagraph([{ text: run.expression }], context);
+        }
+      } else {
+        current.push(run);
+      }
+    }
+    this.addParagraph(current, context);
+  }
+
+  /**
+   * Render list items as bulleted or numbered paragraphs, one indent level
+   * per nesting level
+   */
+  private async renderList(
+    tokens: Token[],
+    listToken: Token,
+    context: BlockContext,
+  ): Promise<void> {
+    const ordered = listToken.type === 'ordered_list_open';
+    let number = Number(listToken.attrGet('start') ?? 1);
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== 'list_item_open') continue;
+      const close = this.findClose(tokens, i);
+      const isTask = /\btask-list-item\b/.test(
+        tokens[i].attrGet('class') ?? '',
+      );
+      await this.renderBlocks(tokens.slice(i + 1, close), {
+        ...context,
+        listDepth: context.listDepth + 1,
+        bullet: isTask
+          ? false
+          : ordered
+            ? { type: 'number', numberStartAt: number }
+            : true,
+      });
+      number++;
+      i = close;
+    }
+  }
+
+  /**
+   * Render a fenced code block as an image: diagrams as their SVG, code as
+   * an SVG of its highlighted lines
+   */
+  private async renderFence(token: Token): Promise<void> {
+    const { language, attrs } = parseInfoString(token.info || '');
+    const diagramClass = DIAGRAM_LANGUAGES[language];
+    const isCode =
+      attrs.code_block === 'true' || (attrs.cmd && attrs.cmd !== 'true');
+
+    if (diagramClass && !isCode) {
+      const svg = await this.diagramRenderer.renderSvg(
+        diagramClass,
+        token.content,
+        { mermaidTheme: this.config.mermaid.theme, engine: attrs.engine },
+      );
+      const image = svg
+        ? this.createSvgImage(DiagramRenderer.toStandaloneSvg(svg))
+        : null;
+      if (image) {
+        this.addBlock(image);
+        return;
+      }
+    }
+
+    const highlighted = await this.codeRenderer.highlightTokens(
+      token.content,
+      language,
+    );
+    const image = this.createSvgImage(codeToSvg(highlighted));
+    if (image) {
+      this.addBlock(image);
+    }
+  }
+
+  /**
+   * Render a table as a native table with a bold, shaded header row
+   */
+  private async renderTable(tokens: Token[]): Promise<void> {
+    const rows: PptxGenJS.TableRow[] = [];
+    let cells: PptxGenJS.TableCell[] = [];
+    let isHeader = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'thead_open') isHeader = true;
+      if (token.type === 'tbody_open') isHeader = false;
+      if (token.type === 'tr_open') cells = [];
+      if (token.type === 'tr_close') rows.push(cells);
+      if (token.type === 'th_open' || token.type === 'td_open') {
+        const align = token.attrGet('style')?.match(/text-align:\s*(\w+)/)?.[1];
+        cells.push({
+          text: this.toRuns(
+            await this.renderInline(
+              tokens[i + 1],
+              isHeader ? { bold: true } : {},
+            ),
+          ),
+          options: {
+            align:
+              align === 'center'
+                ? 'center'
+                : align === 'right'
+                  ? 'right'
+                  : 'left',
+            fill: isHeader ? { color: 'F6F8FA' } : undefined,
+            color: isHeader ? '000000' : undefined,
+          },
+        });
+        i++;
+      }
+    }
+
+    this.addBlock({
+      kind: 'table',
+      rows,
+      height: (rows.length * (TABLE_FONT_SIZE * 1.2 + 8)) / 72,
+    });
+  }
+
+  /**
+   * Render inline tokens to text runs. Text is buffered so math spanning
+   * several text tokens is found as a whole; inline math keeps its source.
+   */
+  private async renderInline(
+    inline: Token | undefined,
+    baseStyle: RunStyle = {},
+  ): Promise<Array<TextRun | DisplayMath>> {
+    const output: Array<TextRun | DisplayMath> = [];
+    const style: RunStyle = { ...baseStyle };
+    let href = '';
+    let text = '';
+    let breakPending = false;
+
+    const push = (run: TextRun | DisplayMath) => {
+      if (!(run instanceof DisplayMath) && breakPending) {
+        run.options = { ...run.options, softBreakBefore: true };
+        breakPending = false;
+      }
+      output.push(run);
+    };
+
+    const flushText = () => {
+      if (!text) return;
+      for (const segment of this.katexRenderer.splitMath(text)) {
+        if (segment.isMath && segment.displayMode) {
+          push(new DisplayMath(segment.text));
+        } else if (segment.isMath) {
+          push({
+            text: segment.text,
+            options: { ...this.getRunOptions(style), fontFace: 'Cambria Math' },
+          });
+        } else {
+          push(
+            this.createTextRun(
+              unescapeMarkdown(segment.text).replace(/\n/g, ' '),
+              style,
+              href,
+            ),
+          );
+        }
+      }
+      text = '';
+    };
+
+    for (const token of inline?.children ?? []) {
+      if (token.type === 'text') {
+        text += token.content;
+        continue;
+      }
+      if (token.type === 'softbreak') {
+        text += '\n';
+        continue;
+      }
+      flushText();
+
+      switch (token.type) {
+        case 'hardbreak':
+          breakPending = true;
+          break;
+        case 'strong_open':
+        case 'strong_close':
+          style.bold = token.nesting === 1 || !!baseStyle.bold;
+          break;
+        case 'em_open':
+        case 'em_close':
+          style.italic = token.nesting === 1;
+          break;
+        case 's_open':
+        case 's_close':
+          style.strike = token.nesting === 1;
+          break;
+        case 'mark_open':
+        case 'mark_close':
+          style.highlight = token.nesting === 1;
+          break;
+        case 'sub_open':
+        case 'sub_close':
+          style.subscript = token.nesting === 1;
+          break;
+        case 'sup_open':
+        case 'sup_close':
+          style.superscript = token.nesting === 1;
+          break;
+        case 'code_inline':
+          push({
+            text: token.content,
+            options: { ...this.getRunOptions(style), fontFace: CODE_FONT },
+          });
+          break;
+        case 'link_open':
+          href = token.attrGet('href') ?? '';
+          break;
+        case 'link_close':
+          href = '';
+          break;
+        case 'image':
+          text += token.content;
+          break;
+        case 'cross_ref':
+          text +=
+            token.meta.number === undefined
+              ? token.content
+              : formatCrossReference(token.meta.label, token.meta.number);
+          break;
+        case 'html_inline': {
+          const checkbox = token.content.match(/^<input[^>]*type="checkbox"/i);
+          if (checkbox) {
+            text += /\bchecked\b/i.test(token.content) ? '☑ ' : '☐ ';
+          } else if (/^<br\s*\/?>$/i.test(token.content)) {
+            breakPending = true;
+          } else if (!token.content.startsWith('<')) {
+            text += decodeHtmlEntities(token.content);
+          }
+          break;
+        }
+        default:
+          // emoji, wiki links and other plugin tokens carry their text
+          if (token.content) {
+            text += token.content;
+          }
+      }
+    }
+    flushText();
+
+    return output;
+  }
+
+  private createTextRun(text: string, style: RunStyle, href: string): TextRun {
+    return {
+      text,
+      options: {
+        ...this.getRunOptions(style),
+        // In-deck anchors have no PowerPoint equivalent
+        hyperlink: href && !href.startsWith('#') ? { url: href } : undefined,
+      },
+    };
+  }
+
+  private getRunOptions(style: RunStyle): TextRun['options'] {
+    return {
+      bold: style.bold,
+      italic: style.italic,
+      strike: style.strike ? 'sngStrike' : undefined,
+      highlight: style.highlight ? 'FFFF00' : undefined,
+      subscript: style.subscript,
+      superscript: style.superscript,
+    };
+  }
+
+  /**
+   * Text runs of a heading or table cell, where math cannot be an image
+   */
+  private toRuns(runs: Array<TextRun | DisplayMath>): TextRun[] {
+    return runs.map((run) =>
+      run instanceof DisplayMath ? { text: run.expression } : run,
+    );
+  }
+
+  /**
+   * Add a paragraph to the current text frame. Consumes the pending list
+   * bullet of the context.
+   */
+  private addParagraph(
+    runs: TextRun[],
+    context: BlockContext,
+    fontSize = FONT_SIZE,
+  ): void {
+    if (runs.length === 0) return;
+
+    const bullet = context.bullet;
+    context.bullet = undefined;
+    this.paragraphs.push({
+      runs,
+      fontSize,
+      // Quotes are set in italics
+      italic: context.quoteDepth > 0,
+      options: {
+        bullet: bullet || undefined,
+        indentLevel: Math.max(0, context.listDepth - 1) + context.quoteDepth,
+        paraSpaceAfter: 6,
+      },
+    });
+  }
+
+  /**
+   * Add a body block, closing the current text frame
+   */
+  private addBlock(block: SlideBlock): void {
+    this.flushParagraphs();
+    this.blocks.push(block);
+  }
+
+  /**
+   * Turn the pending paragraphs into a text frame, with a height estimated
+   * from their length
+   */
+  private flushParagraphs(): void {
+    if (this.paragraphs.length === 0) return;
+
+    const runs: TextRun[] = [];
+    let height = 0.1;
+    for (const paragraph of this.paragraphs) {
+      paragraph.runs.forEach((run, index) => {
+        const options = {
+          ...(index === 0 ? paragraph.options : {}),
+          ...run.options,
+          fontSize: paragraph.fontSize,
+          italic: run.options?.italic || paragraph.italic || undefined,
+        };
+        if (index === paragraph.runs.length - 1) {
+          options.breakLine = true;
+        }
+        runs.push({ text: run.text, options });
+      });
+
+      const indent = (paragraph.options?.indentLevel ?? 0) * 0.4;
+      const charsPerLine = Math.max(
+        10,
+        ((this.bodyWidth - indent) * 72) / (paragraph.fontSize * 0.55),
+      );
+      const lines = paragraph.runs
+        .map((run) => run.text ?? '')
+        .join('')
+        .split('\n')
+        .reduce(
+          (sum, line) =>
+            sum + Math.max(1, Math.ceil(line.length / charsPerLine)),
+          paragraph.runs.filter((run) => run.options?.softBreakBefore).length,
+        );
+      height += (lines * paragraph.fontSize * 1.2 + 6) / 72;
+    }
+
+    this.paragraphs = [];
+    this.blocks.push({ kind: 'text', runs, height });
+  }
+
+  /**
+   * Convert LaTeX to an SVG image with MathJax. Unrenderable math is kept
+   * as its source.
+   */
+  private renderMath(expression: string): SlideBlock | null {
+    try {
+      const svg = renderMathSvg(expression, `#${this.textColor}`);
+      return this.createSvgImage(svg);
+    } catch (error) {
+      console.warn('Failed to render math as SVG:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Embed a local image, at most the body width
+   */
+  private createImage(src: string): SlideBlock | null {
+    if (/^(?:[a-z]+:)?\/\//i.test(src) || src.startsWith('data:')) {
+      return null;
+    }
+
+    const filePath = path.isAbsolute(src)
+      ? src
+      : path.resolve(this.baseDir, decodeURIComponent(src));
+    const type = IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+    if (!type) {
+      return null;
+    }
+    try {
+      const data = fs.readFileSync(filePath);
+      const { width, height } = imageSize(data);
+      return this.createImageBlock(
+        `${type};base64,${data.toString('base64')}`,
+        width,
+        height,
+      );
+    } catch (error) {
+      console.warn(`Failed to embed image ${src}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Embed an SVG. PowerPoint before 2016 shows pptxgenjs' placeholder PNG.
+   */
+  private createSvgImage(svg: string): SlideBlock | null {
+    try {
+      const data = Buffer.from(svg, 'utf-8');
+      const { width, height } = imageSize(data);
+      return this.createImageBlock(
+        `image/svg+xml;base64,${data.toString('base64')}`,
+        width,
+        height,
+      );
+    } catch (error) {
+      console.warn('Failed to embed SVG image:', error);
+      return null;
+    }
+  }
+
+  private createImageBlock(
+    data: string,
+    width = PIXELS_PER_INCH,
+    height = PIXELS_PER_INCH,
+  ): SlideBlock {
+    const scale = Math.min(1, (this.bodyWidth * PIXELS_PER_INCH) / width);
+    return {
+      kind: 'image',
+      data,
+      width: (width * scale) / PIXELS_PER_INCH,
+      height: (height * scale) / PIXELS_PER_INCH,
+    };
+  }
+
+  /**
+   * Slide background from `data-background-color` and
+   * `data-background-image` (or the `data-background` shorthand) directives.
+   * Text on dark backgrounds is white.
+   */
+  private getBackground(
+    directives: string,
+  ): PptxGenJS.BackgroundProps | undefined {
+    const attrs: Record<string, string> = {};
+    for (const [, name, value] of directives.matchAll(/([\w-]+)="([^"]*)"/g)) {
+      attrs[name] = value;
+    }
+
+    const shorthand = attrs['data-background'];
+    const color = toHexColor(attrs['data-background-color'] ?? shorthand ?? '');
+    const image =
+      attrs['data-background-image'] ??
+      (shorthand && !color ? shorthand : undefined);
+
+    this.textColor = color && isDarkColor(color) ? 'FFFFFF' : '000000';
+    if (image) {
+      const background = this.createImage(image);
+      if (background?.kind === 'image') {
+        return { data: background.data };
+      }
+      if (/^https?:\/\//i.test(image)) {
+        return { path: image };
+      }
+    }
+    return color ? { color } : undefined;
+  }
+
+  /**
+   * Index of the token closing the one at `index` (same nesting level)
+   */
+  private findClose(tokens: Token[], index: number): number {
+    let depth = 0;
+    for (let i = index; i < tokens.length; i++) {
+      depth += tokens[i].nesting;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    return tokens.length - 1;
+  }
+}
+
+// MathJax document for TeX → SVG, created on first use
+let mathDocument: ReturnType<typeof mathjax.document> | undefined;
+const mathAdaptor = liteAdaptor();
+
+/**
+ * Render display math to a standalone SVG sized in pixels
+ */
+function renderMathSvg(expression: string, color: string): string {
+  if (!mathDocument) {
+    RegisterHTMLHandler(mathAdaptor);
+    mathDocument = mathjax.document('', {
+      InputJax: new TeX({ packages: AllPackages }),
+      OutputJax: new SVG({ fontCache: 'none' }),
+    });
+  }
+
+  const node = mathDocument.convert(expression, { display: true });
+  const svg = mathAdaptor.firstChild(node) as typeof node;
+  // MathJax sizes in ex; an ex is about half of a 32px em
+  for (const name of ['width', 'height']) {
+    const value = parseFloat(mathAdaptor.getAttribute(svg, name));
+    mathAdaptor.setAttribute(svg, name, `${Math.ceil(value * 16)}`);
+  }
+  return mathAdaptor
+    .outerHTML(svg)
+    .replace(/currentColor/g, color)
+    .replace(/ style="[^"]*"/, '');
+}
+
+/**
+ * Draw highlighted code as an SVG: one line of text per code line on the
+ * theme's background
+ */
+function codeToSvg({ background, lines }: HighlightedCode): string {
+  const lineHeight = CODE_FONT_SIZE * 1.4;
+  const padding = 12;
+  const columns = Math.max(
+    1,
+    ...lines.map((line) => line.reduce((n, t) => n + t.content.length, 0)),
+  );
+  const width = Math.ceil(columns * CODE_FONT_SIZE * 0.6 + 2 * padding);
+  const height = Math.ceil(lines.length * lineHeight + 2 * padding);
+
+  const text = lines
+    .map((line, index) => {
+      const spans = line
+        .map(({ content, color, fontStyle = 0 }) => {
+          const attrs = [
+            color ? ` fill="${color}"` : '',
+            fontStyle & 1 ? ' font-style="italic"' : '',
+            fontStyle & 2 ? ' font-weight="bold"' : '',
+            fontStyle & 4 ? ' text-decoration="underline"' : '',
+          ].join('');
+          return `<tspan${attrs}>${escapeXml(content)}</tspan>`;
+        })
+        .join('');
+      const y = Math.round(padding + (index + 0.8) * lineHeight);
+      return `<text x="${padding}" y="${y}" xml:space="preserve">${spans}</text>`;
+    })
+    .join('');
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" rx="6" fill="${background ?? '#F6F8FA'}" stroke="#D0D7DE"/>` +
+    `<g font-family="${CODE_FONT}, monospace" font-size="${CODE_FONT_SIZE}" fill="#24292E">${text}</g>` +
+    '</svg>'
+  );
+}
+
+/**
+ * PowerPoint colors are 6-digit hex without `#`
+ */
+function toHexColor(color: string): string | undefined {
+  const value = color.trim().toLowerCase();
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})(?:[0-9a-f]{2})?$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return digits.toUpperCase();
+  }
+  const rgb = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) {
+    return rgb
+      .slice(1, 4)
+      .map((n) => Math.min(255, Number(n)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+  return NAMED_COLORS[value];
+}
+
+function isDarkColor(hex: string): boolean {
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function decodeHtmlEntities(text: string): string {
+  const entities: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&nbsp;': ' ',
+  };
+  return text.replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (e) => entities[e]);
+}
@@ -0,0 +1,400 @@
+/**
+ * Static site builder - renders every markdown file of a folder to an HTML
+ * page with a navigation sidebar, for hosting a folder of notes
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { MarkdownEngine } from '../markdown/MarkdownEngine';
+import type { MarkdownLivePreviewConfig } from '../types';
+
+const STYLESHEET = 'style.css';
+// Images referenced from outside the site folder are copied here
+const EXTERNAL_ASSETS_DIR = '_assets';
+const SKIPPED_DIRS = new Set(['node_modules']);
+
+export interface SiteBuildOptions {
+  outputDir: string;
+  onProgress?: (page: string, done: number, total: number) => void;
+}
+
+export interface SiteBuildResult {
+  pages: number;
+  errors: string[];
+}
+
+interface SitePage {
+  source: string;
+  // Output path relative to the output directory, with `/` separators
+  output: string;
+  title: string;
+  html?: string;
+  bodyClass?: string;
+  standalone?: string;
+}
+
+interface NavNode {
+  name: string;
+  page?: SitePage;
+  children: Map<string, NavNode>;
+}
+
+/**
+ * Build a static site from the markdown files under `rootDir`. Links between
+ * documents (and wiki links) point to the generated pages, and referenced
+ * local images are copied next to them.
+ */
+export async function buildSite(
+  engine: MarkdownEngine,
+  rootDir: string,
+  config: MarkdownLivePreviewConfig,
+  options: SiteBuildOptions,
+): Promise<SiteBuildResult> {
+  const root = path.resolve(rootDir);
+  const outputDir = path.resolve(root, options.outputDir);
+  const extensions = new Set(
+    config.misc.markdownFileExtensions.map((ext) => ext.toLowerCase()),
+  );
+  const sources = findMarkdownFiles(root, outputDir, extensions);
+  const pages = new Map<string, SitePage>();
+  const errors: string[] = [];
+
+  // A root README is the home page unless there is an index document
+  const hasIndex = sources.some(
+    (source) => toOutputPath(root, source) === 'index.html',
+  );
+  for (const source of sources) {
+    let output = toOutputPath(root, source);
+    if (!hasIndex && /^readme\.[^/]+$/i.test(path.relative(root, source))) {
+      output = 'index.html';
+    }
+    const duplicate = [...pages.values()].find(
+      (page) => page.output === output,
+    );
+    if (duplicate) {
+      errors.push(
+        `${path.relative(root, source)}: skipped, ${output} is already generated from ${path.relative(root, duplicate.source)}`,
+      );
+      continue;
+    }
+    pages.set(source, {
+      source,
+      output,
+      title: path.basename(source, path.extname(source)),
+    });
+  }
+
+  // Render every page first, so the navigation has all the titles
+  let done = 0;
+  for (const page of pages.values()) {
+    options.onProgress?.(page.output, done++, pages.size);
+    try {
+      const markdown = fs.readFileSync(page.source, 'utf-8');
+      const sourceUri = pathToFileURL(page.source).href;
+      if (engine.isPresentationMarkdown(markdown)) {
+        // Decks keep their own layout, without the site navigation
+        page.standalone = await engine.generateSlideDeck(markdown, {
+          sourceUri,
+        });
+        page.title =
+          (engine.extractFrontMatter(markdown).frontMatter?.title as string) ||
+          page.title;
+      } else {
+        const content = await engine.generateSiteContent(markdown, sourceUri);
+        page.title = content.title || page.title;
+        page.html = content.html;
+        page.bodyClass = content.bodyClass;
+      }
+    } catch (error) {
+      errors.push(`${path.relative(root, page.source)}: ${error}`);
+    }
+  }
+
+  const rendered = [...pages.values()].filter(
+    (page) => page.html !== undefined || page.standalone !== undefined,
+  );
+  const nav = buildNavTree(root, rendered);
+  const assets = new Map<string, string>();
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, STYLESHEET), engine.getSiteCSS());
+
+  for (const page of rendered) {
+    const outputPath = path.join(outputDir, page.output);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    if (page.standalone !== undefined) {
+      fs.writeFileSync(outputPath, page.standalone);
+      continue;
+    }
+
+    const html = rewriteImages(
+      rewriteLinks(page.html ?? '', page, pages, root),
+      page,
+      { root, outputDir, assets, errors },
+    );
+    fs.writeFileSync(
+      outputPath,
+      engine.generateSitePage({
+        title: page.title,
+        html,
+        navHtml: renderNav(nav, page),
+        stylesheetHref: relativeHref(page.output, STYLESHEET),
+        bodyClass: page.bodyClass,
+      }),
+    );
+  }
+
+  if (!rendered.some((page) => page.output === 'index.html')) {
+    const index: SitePage = {
+      source: root,
+      output: 'index.html',
+      title: path.basename(root),
+    };
+    fs.writeFileSync(
+      path.join(outputDir, index.output),
+      engine.generateSitePage({
+        title: index.title,
+        html: `<h1>${escapeHtml(index.title)}</h1>\n${renderNav(nav, index)}`,
+        navHtml: renderNav(nav, index),
+        stylesheetHref: STYLESHEET,
+      }),
+    );
+  }
+
+  return { pages: rendered.length, errors };
+}
+
+/**
+ * Markdown files under `dir`, skipping hidden folders, `node_modules` and
+ * the output directory
+ */
+function findMarkdownFiles(
+  dir: string,
+  outputDir: string,
+  extensions: Set<string>,
+): string[] {
+  const files: string[] = [];
+  const entries = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (
+        !entry.name.startsWith('.') &&
+        !SKIPPED_DIRS.has(entry.name) &&
+        fullPath !== outputDir
+      ) {
+        files.push(...findMarkdownFiles(fullPath, outputDir, extensions));
+      }
+    } else if (
+      entry.isFile() &&
+      extensions.has(path.extname(entry.name).toLowerCase())
+    ) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function toOutputPath(root: string, source: string): string {
+  const relative = path.relative(root, source).split(path.sep).join('/');
+  return `${relative.slice(0, -path.extname(relative).length)}.html`;
+}
+
+/**
+ * Relative URL from one output page to another output file
+ */
+function relativeHref(from: string, to: string): string {
+  return encodeURI(path.posix.relative(path.posix.dirname(from), to) || to);
+}
+
+/**
+ * Local file path of a link target, or null for URLs and in-page anchors
+ */
+function decodeLocalTarget(href: string): string | null {
+  const target = href.replace(/&amp;/g, '&');
+  if (!target || /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(target)) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Point links to markdown documents of the site at their pages. Wiki links
+ * that do not resolve next to the document are looked up by file name.
+ */
+function rewriteLinks(
+  html: string,
+  page: SitePage,
+  pages: Map<string, SitePage>,
+  root: string,
+): string {
+  return html.replace(
+    /<a\s[^>]*?href="([^"]*)"[^>]*>/g,
+    (tag: string, href: string) => {
+      const local = decodeLocalTarget(href);
+      if (local === null) {
+        return tag;
+      }
+      const hashIndex = local.indexOf('#');
+      const file = hashIndex === -1 ? local : local.slice(0, hashIndex);
+      const fragment = hashIndex === -1 ? '' : local.slice(hashIndex);
+      if (!file) {
+        return tag;
+      }
+
+      const resolved = path.isAbsolute(file)
+        ? path.join(root, file)
+        : path.resolve(path.dirname(page.source), file);
+      let target = pages.get(resolved);
+      if (!target && tag.includes('wiki-link')) {
+        const name = path.basename(file).toLowerCase();
+        target = [...pages.values()].find(
+          (candidate) => path.basename(candidate.source).toLowerCase() === name,
+        );
+      }
+      if (!target) {
+        return tag;
+      }
+      return tag.replace(
+        `href="${href}"`,
+        `href="${relativeHref(page.output, target.output)}${fragment}"`,
+      );
+    },
+  );
+}
+
+/**
+ * Copy the local images of a page into the site and point the page at the
+ * copies. Images outside the site folder go to `_assets/`.
+ */
+function rewriteImages(
+  html: string,
+  page: SitePage,
+  context: {
+    root: string;
+    outputDir: string;
+    assets: Map<string, string>;
+    errors: string[];
+  },
+): string {
+  const { root, outputDir, assets, errors } = context;
+  return html.replace(
+    /<img\s[^>]*?src="([^"]*)"[^>]*>/g,
+    (tag: string, src: string) => {
+      const local = decodeLocalTarget(src);
+      if (local === null) {
+        return tag;
+      }
+      const file = local.replace(/[?#].*$/, '');
+      // Absolute paths are relative to the site root, as for links
+      const resolved = path.isAbsolute(file)
+        ? path.join(root, file)
+        : path.resolve(path.dirname(page.source), file);
+
+      let output = assets.get(resolved);
+      if (!output) {
+        if (!fs.existsSync(resolved)) {
+          errors.push(
+            `${path.relative(root, page.source)}: image not found: ${local}`,
+          );
+          return tag;
+        }
+        const relative = path.relative(root, resolved);
+        output =
+          relative.startsWith('..') || path.isAbsolute(relative)
+            ? uniqueAssetPath(assets, path.basename(resolved))
+            : relative.split(path.sep).join('/');
+        const outputPath = path.join(outputDir, output);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.copyFileSync(resolved, outputPath);
+        assets.set(resolved, output);
+      }
+      return tag.replace(
+        `src="${src}"`,
+        `src="${relativeHref(page.output, output)}"`,
+      );
+    },
+  );
+}
+
+function uniqueAssetPath(assets: Map<string, string>, name: string): string {
+  const used = new Set(assets.values());
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  let candidate = `${EXTERNAL_ASSETS_DIR}/${name}`;
+  for (let i = 1; used.has(candidate); i++) {
+    candidate = `${EXTERNAL_ASSETS_DIR}/${base}-${i}${ext}`;
+  }
+  return candidate;
+}
+
+/**
+ * Folder tree of the pages, as shown in the navigation
+ */
+function buildNavTree(root: string, pages: SitePage[]): NavNode {
+  const tree: NavNode = { name: '', children: new Map() };
+  for (const page of pages) {
+    const parts = path.relative(root, page.source).split(path.sep);
+    let node = tree;
+    for (const dir of parts.slice(0, -1)) {
+      let child = node.children.get(dir);
+      if (!child) {
+        child = { name: dir, children: new Map() };
+        node.children.set(dir, child);
+      }
+      node = child;
+    }
+    node.children.set(parts[parts.length - 1], {
+      name: page.title,
+      page,
+      children: new Map(),
+    });
+  }
+  return tree;
+}
+
+/**
+ * Navigation list for `current`: pages before folders, the folders that
+ * lead to the current page expanded
+ */
+function renderNav(node: NavNode, current: SitePage): string {
+  const children = [...node.children.values()];
+  const items = [
+    ...children
+      .filter((child) => child.page)
+      .map((child) => {
+        const page = child.page as SitePage;
+        const className = page === current ? ' class="current"' : '';
+        return `<li><a href="${relativeHref(current.output, page.output)}"${className}>${escapeHtml(child.name)}</a></li>`;
+      }),
+    ...children
+      .filter((child) => !child.page)
+      .map((child) => {
+        const open = containsPage(child, current) ? ' open' : '';
+        return `<li><details${open}><summary>${escapeHtml(child.name)}</summary>${renderNav(child, current)}</details></li>`;
+      }),
+  ];
+  return `<ul>${items.join('')}</ul>`;
+}
+
+function containsPage(node: NavNode, page: SitePage): boolean {
+  return (
+    node.page === page ||
+    [...node.children.values()].some((child) => containsPage(child, page))
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,68 @@
+/**
+ * Site exporter - builds a static HTML site from a workspace folder
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { buildSite } from './SiteBuilder';
+
+/**
+ * Build the markdown files of a workspace folder into a static site, written
+ * to the `siteOutputDirectory` of the folder
+ */
+export async function exportSite(): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const folder =
+    folders.length > 1
+      ? await vscode.window.showWorkspaceFolderPick({
+          placeHolder: 'Select the folder to build the site from',
+        })
+      : folders[0];
+  if (!folder) {
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage('Open a folder to build a site from.');
+    }
+    return;
+  }
+
+  const config = getFullConfig();
+  const outputDir = path.resolve(
+    folder.uri.fsPath,
+    config.export.siteOutputDirectory || '_site',
+  );
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Building site',
+      },
+      (progress) => {
+        let reported = 0;
+        const engine = getMarkdownEngine(folder.uri.fsPath, config);
+        return buildSite(engine, folder.uri.fsPath, config, {
+          outputDir,
+          onProgress: (page, done, total) => {
+            const percent = (done / total) * 100;
+            progress.report({ message: page, increment: percent - reported });
+            reported = percent;
+          },
+        });
+      },
+    );
+
+    if (result.errors.length > 0) {
+      vscode.window.showWarningMessage(
+        `Built ${result.pages} pages to ${outputDir} with ${result.errors.length} errors: ${result.errors.join('; ')}`,
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        `Built ${result.pages} pages to ${outputDir}`,
+      );
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to build site: ${error}`);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Slides exporter - writes a presentation as a standalone HTML deck, or as
+ * a PDF with one page per slide
+ */
+
+import * as vscode from 'vscode';
+import { getFullConfig } from '../config/ConfigManager';
+import { getMarkdownEngine } from '../markdown/MarkdownEngine';
+import { promptExportUri } from './HtmlExporter';
+import { renderSlidesPdf } from './PdfRenderer';
+
+/**
+ * Export a presentation to a standalone HTML deck
+ */
+export async function exportSlides(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'html', {
+    'HTML Files': ['html', 'htm'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting slides...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const engine = getMarkdownEngine(document.uri.fsPath, getFullConfig());
+        const html = await engine.generateSlideDeck(document.getText(), {
+          sourceUri: document.uri.toString(),
+        });
+        await vscode.workspace.fs.writeFile(
+          saveUri,
+          Buffer.from(html, 'utf-8'),
+        );
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export slides: ${error}`);
+  }
+}
+
+/**
+ * Export a presentation to PDF, one page per slide
+ */
+export async function exportSlidesToPdf(sourceUri: vscode.Uri): Promise<void> {
+  const saveUri = await promptExportUri(sourceUri, 'pdf', {
+    'PDF Files': ['pdf'],
+  });
+  if (!saveUri) return;
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting slides to PDF...',
+      },
+      async () => {
+        const document = await vscode.workspace.openTextDocument(sourceUri);
+        const config = getFullConfig();
+        const engine = getMarkdownEngine(document.uri.fsPath, config);
+        const pdf = await renderSlidesPdf(
+          engine,
+          document.getText(),
+          document.uri.toString(),
+          config.export,
+        );
+        await vscode.workspace.fs.writeFile(saveUri, pdf);
+      },
+    );
+    vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export slides: ${error}`);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Export module exports
+ */
+
+export * from './DocxExporter';
+export * from './DocxRenderer';
+export * from './EpubExporter';
+export * from './EpubRenderer';
+export * from './ExportFormats';
+export * from './ExportOnSave';
+export * from './HtmlExporter';
+export * from './PandocExporter';
+export * from './PandocRenderer';
+export * from './PdfExporter';
+export * from './PdfRenderer';
+export * from './PptxExporter';
+export * from './PptxRenderer';
+export * from './SiteBuilder';
+export * from './SiteExporter';
+export * from './SlidesExporter';
@@ -4,9 +4,17 @@
 
 import * as path from 'node:path';
 import * as vscode from 'vscode';
-import { getCodeChunkManager } from './code-chunk';
-import { getMLPConfig, PreviewColorScheme, updateMLPConfig } from './config';
+import { CACHE_DIR, getCodeChunkManager, removeCacheFile } from './code-chunk';
+import { CodeChunkCodeLensProvider } from './code-chunk-code-lens';
+import {
+  getFullConfig,
+  getMLPConfig,
+  PreviewColorScheme,
+  updateMLPConfig,
+} from './config';
+import { CrossReferenceDiagnostics } from './cross-reference-diagnostics';
 import { pasteImageFile } from './image-helper';
+import { getMarkdownEngine } from './markdown/MarkdownEngine';
 import { getPreviewManager } from './preview/PreviewManager';
 import { PreviewCustomEditorProvider } from './preview-custom-editor-provider';
 import { PreviewProvider } from './preview-provider';
@@ -19,6 +27,9 @@ import {
 let editorScrollDelay = Date.now();
 let selectionSyncTime = 0; // Prevents visible-range handler from overriding selection sync
 
+// Minimum interval between posts of a running code chunk's output
+const CODE_CHUNK_PROGRESS_INTERVAL = 100;
+
 // Hide default VS Code markdown preview buttons if necessary
 const hideDefaultVSCodeMarkdownPreviewButtons = vscode.workspace
   .getConfiguration('markdown-live-preview')
@@ -31,11 +42,24 @@ if (hideDefaultVSCodeMarkdownPreviewButtons) {
   );
 }
 
-export async function initExtensionCommon(context: vscode.ExtensionContext) {
+export async function initExtensionCommon(
+  context: vscode.ExtensionContext,
+  options: {
+    // Called after a markdown document is saved and its run_on_save chunks ran
+    onDidSaveMarkdown?: (document: vscode.TextDocument) => void;
+  } = {},
+) {
   // Initialize preview manager
   const previewManager = getPreviewManager();
   previewManager.initialize(context);
 
+  // Unresolved @fig:x / @tbl:x / @eq:x references in the Problems panel
+  context.subscriptions.push(new CrossReferenceDiagnostics());
+
+  // Run / Stop and session actions above code chunks
+  const codeChunkCodeLens = new CodeChunkCodeLensProvider();
+  context.subscriptions.push(codeChunkCodeLens);
+
   // Set enableScriptExecution context key for keybinding conditions
   const scriptExecEnabled =
     getMLPConfig<boolean>('enableScriptExecution') ?? false;
@@ -197,6 +221,64 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     }
   }
 
+  /**
+   * Quick pick of the files that the active document imports or embeds;
+   * the picked file is opened
+   */
+  async function showDocumentDependencies() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isMarkdownFile(editor.document)) {
+      return;
+    }
+    const { uri } = editor.document;
+    const dependencies = await getMarkdownEngine(
+      uri.fsPath,
+      getFullConfig(),
+    ).findDependencies(editor.document.getText(), uri.toString());
+    const name = path.basename(uri.fsPath);
+    if (dependencies.length === 0) {
+      vscode.window.showInformationMessage(
+        `${name} does not import or embed any files.`,
+      );
+      return;
+    }
+
+    const dir = path.dirname(uri.fsPath);
+    const items = await Promise.all(
+      dependencies.map(async (dependency) => {
+        // Globs are listed with the files they match
+        const isGlob = dependency.kind === 'glob';
+        const fileUri = vscode.Uri.file(dependency.path);
+        const exists =
+          isGlob ||
+          (await vscode.workspace.fs.stat(fileUri).then(
+            () => true,
+            () => false,
+          ));
+        const parent =
+          dependency.parent === uri.fsPath
+            ? name
+            : path.relative(dir, dependency.parent);
+        const icon = { import: 'file', embed: 'link', glob: 'files' }[
+          dependency.kind
+        ];
+        return {
+          label: `$(${icon}) ${path.relative(dir, dependency.path)}`,
+          description: `${dependency.kind === 'embed' ? 'embedded in' : 'imported by'} ${parent}`,
+          detail: exists ? undefined : 'File not found',
+          fileUri: isGlob ? undefined : fileUri,
+        };
+      }),
+    );
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Files that ${name} imports or embeds`,
+      matchOnDescription: true,
+    });
+    if (picked?.fileUri) {
+      vscode.commands.executeCommand('vscode.open', picked.fileUri);
+    }
+  }
+
   function insertTable() {
     const editor = vscode.window.activeTextEditor;
     if (editor?.document && editor.edit) {
@@ -694,6 +776,56 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     return false;
   }
 
+  /**
+   * Run a code chunk, streaming its output to the preview while it runs.
+   * The running and result messages carry the elapsed time in milliseconds.
+   */
+  async function runCodeChunkInPreview(
+    previewProvider: PreviewProvider,
+    sourceUri: vscode.Uri,
+    chunkId: string,
+    workingDir: string,
+  ) {
+    const manager = getCodeChunkManager(sourceUri.toString());
+    const startTime = Date.now();
+    await previewProvider.postMessageToPreview(sourceUri, {
+      command: 'codeChunkRunning',
+      chunkId,
+      elapsed: 0,
+    });
+
+    let progressHtml = '';
+    let progressTimer: ReturnType<typeof setTimeout> | undefined;
+    const running = manager.runChunk(chunkId, workingDir, (html) => {
+      progressHtml = html;
+      progressTimer ??= setTimeout(() => {
+        progressTimer = undefined;
+        previewProvider.postMessageToPreview(sourceUri, {
+          command: 'codeChunkRunning',
+          chunkId,
+          html: progressHtml,
+          elapsed: Date.now() - startTime,
+        });
+      }, CODE_CHUNK_PROGRESS_INTERVAL);
+    });
+    // Show Stop in place of Run while the chunk runs
+    codeChunkCodeLens.refresh();
+    const result = await running;
+    clearTimeout(progressTimer);
+    codeChunkCodeLens.refresh();
+
+    if (result) {
+      await previewProvider.postMessageToPreview(sourceUri, {
+        command: 'codeChunkResult',
+        chunkId,
+        html: result.result,
+        status: result.status,
+        elapsed: Date.now() - startTime,
+      });
+    }
+    return result;
+  }
+
   async function runCodeChunk(uri: string, chunkId: string) {
     const sourceUri = vscode.Uri.parse(uri);
     if (!(await ensureScriptExecutionEnabled())) return;
@@ -703,12 +835,6 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     const manager = getCodeChunkManager(sourceUri.toString());
     manager.parseChunks(document.getText());
 
-    // Signal running state to webview
-    await previewProvider.postMessageToPreview(sourceUri, {
-      command: 'codeChunkRunning',
-      chunkId,
-    });
-
     const workingDir = path.dirname(sourceUri.fsPath);
 
     // Check if this is a browser JS chunk
@@ -717,6 +843,11 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
       chunk?.attrs.element &&
       (chunk.language === 'javascript' || chunk.language === 'js')
     ) {
+      // Signal running state to webview
+      await previewProvider.postMessageToPreview(sourceUri, {
+        command: 'codeChunkRunning',
+        chunkId,
+      });
       await previewProvider.postMessageToPreview(sourceUri, {
         command: 'executeBrowserJs',
         chunkId,
@@ -726,19 +857,16 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
       return;
     }
 
-    const result = await manager.runChunk(chunkId, workingDir);
-    if (result) {
-      await previewProvider.postMessageToPreview(sourceUri, {
-        command: 'codeChunkResult',
-        chunkId,
-        html: result.result,
-        status: result.status,
-      });
+    const result = await runCodeChunkInPreview(
+      previewProvider,
+      sourceUri,
+      chunkId,
+      workingDir,
+    );
 
-      // Handle modify_source
-      if (result.attrs.modify_source && result.result) {
-        await insertCodeChunkOutput(sourceUri, result);
-      }
+    // Handle modify_source
+    if (result?.attrs.modify_source && result.result) {
+      await insertCodeChunkOutput(sourceUri, result);
     }
   }
 
@@ -753,20 +881,12 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     const workingDir = path.dirname(sourceUri.fsPath);
 
     for (const chunkId of manager.getChunkIds()) {
-      await previewProvider.postMessageToPreview(sourceUri, {
-        command: 'codeChunkRunning',
+      await runCodeChunkInPreview(
+        previewProvider,
+        sourceUri,
         chunkId,
-      });
-
-      const result = await manager.runChunk(chunkId, workingDir);
-      if (result) {
-        await previewProvider.postMessageToPreview(sourceUri, {
-          command: 'codeChunkResult',
-          chunkId,
-          html: result.result,
-          status: result.status,
-        });
-      }
+        workingDir,
+      );
     }
   }
 
@@ -793,6 +913,89 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     }
   }
 
+  /**
+   * The document and ID of the code chunk at the cursor, for the commands
+   * run from the command palette
+   */
+  function getCodeChunkAtCursor(): { uri: string; chunkId: string } | null {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isMarkdownFile(editor.document)) {
+      return null;
+    }
+
+    const uri = editor.document.uri.toString();
+    const manager = getCodeChunkManager(uri);
+    manager.parseChunks(editor.document.getText());
+    const chunk = manager.findChunkAtLine(editor.selection.active.line);
+    if (!chunk) {
+      vscode.window.showInformationMessage(
+        'No code chunk found at cursor position.',
+      );
+      return null;
+    }
+    return { uri, chunkId: chunk.id };
+  }
+
+  function stopCodeChunk(uri: string, chunkId: string) {
+    const manager = getCodeChunkManager(vscode.Uri.parse(uri).toString());
+    if (!manager.stopChunk(chunkId)) {
+      vscode.window.showInformationMessage('The code chunk is not running.');
+    }
+  }
+
+  function interruptCodeChunkSession(uri: string, chunkId: string) {
+    const manager = getCodeChunkManager(vscode.Uri.parse(uri).toString());
+    if (!manager.interruptSession(chunkId)) {
+      vscode.window.showInformationMessage(
+        'The code chunk has no session running. Sessions are shared by chunks with continue.',
+      );
+    }
+  }
+
+  function restartCodeChunkSession(uri: string, chunkId: string) {
+    const manager = getCodeChunkManager(vscode.Uri.parse(uri).toString());
+    if (manager.restartSession(chunkId)) {
+      vscode.window.showInformationMessage(
+        'Restarted the code chunk session. The next chunk starts with a fresh state.',
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        'The code chunk has no session running. Sessions are shared by chunks with continue.',
+      );
+    }
+  }
+
+  async function clearCodeChunkCache() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isMarkdownFile(editor.document)) {
+      return;
+    }
+    const sourceUri = editor.document.uri;
+    getCodeChunkManager(sourceUri.toString()).clearCache();
+    const previewProvider = await getPreviewContentProvider(sourceUri);
+    previewProvider.updateMarkdown(sourceUri);
+    vscode.window.showInformationMessage(
+      `Cleared the cached code chunk outputs of ${path.basename(sourceUri.fsPath)}.`,
+    );
+  }
+
+  async function clearWorkspaceCodeChunkCache() {
+    const files = await vscode.workspace.findFiles(`**/${CACHE_DIR}/*.json`);
+    for (const file of files) {
+      removeCacheFile(file.fsPath);
+    }
+    // Re-render open previews without the outputs
+    for (const document of vscode.workspace.textDocuments) {
+      if (isMarkdownFile(document)) {
+        const previewProvider = await getPreviewContentProvider(document.uri);
+        previewProvider.updateMarkdown(document.uri);
+      }
+    }
+    vscode.window.showInformationMessage(
+      `Cleared the cached code chunk outputs of ${files.length} document(s).`,
+    );
+  }
+
   async function insertCodeChunkOutput(
     sourceUri: vscode.Uri,
     chunk: { line: number; code: string; result: string },
@@ -876,17 +1079,20 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
           manager.parseChunks(document.getText());
           if (manager.hasRunOnSaveChunks()) {
             const workingDir = path.dirname(document.uri.fsPath);
-            const results = await manager.runOnSaveChunks(workingDir);
-            for (const result of results) {
-              await previewProvider.postMessageToPreview(document.uri, {
-                command: 'codeChunkResult',
-                chunkId: result.id,
-                html: result.result,
-                status: result.status,
-              });
+            for (const chunkId of manager.getChunkIds()) {
+              if (manager.getChunk(chunkId)?.attrs.run_on_save) {
+                await runCodeChunkInPreview(
+                  previewProvider,
+                  document.uri,
+                  chunkId,
+                  workingDir,
+                );
+              }
             }
           }
         }
+
+        options.onDidSaveMarkdown?.(document);
       }
     }),
   );
@@ -1255,6 +1461,13 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     ),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.showDocumentDependencies',
+      showDocumentDependencies,
+    ),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('_mlp.revealLine', revealLine),
   );
@@ -1402,6 +1615,56 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     ),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.stopCodeChunk',
+      () => {
+        const chunk = getCodeChunkAtCursor();
+        if (chunk) {
+          stopCodeChunk(chunk.uri, chunk.chunkId);
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.interruptCodeChunkSession',
+      () => {
+        const chunk = getCodeChunkAtCursor();
+        if (chunk) {
+          interruptCodeChunkSession(chunk.uri, chunk.chunkId);
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.restartCodeChunkSession',
+      () => {
+        const chunk = getCodeChunkAtCursor();
+        if (chunk) {
+          restartCodeChunkSession(chunk.uri, chunk.chunkId);
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.clearCodeChunkCache',
+      clearCodeChunkCache,
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.clearWorkspaceCodeChunkCache',
+      clearWorkspaceCodeChunkCache,
+    ),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('_mlp.runCodeChunk', runCodeChunk),
   );
@@ -1410,6 +1673,24 @@ export async function initExtensionCommon(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('_mlp.runAllCodeChunks', runAllCodeChunks),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('_mlp.stopCodeChunk', stopCodeChunk),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      '_mlp.interruptCodeChunkSession',
+      interruptCodeChunkSession,
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      '_mlp.restartCodeChunkSession',
+      restartCodeChunkSession,
+    ),
+  );
+
   context.subscriptions.push(
     vscode.window.registerCustomEditorProvider(
       'markdown-live-preview',
@@ -5,6 +5,18 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as vscode from 'vscode';
+import {
+  ExportOnSave,
+  exportSite,
+  exportSlides,
+  exportSlidesToPdf,
+  exportToDocx,
+  exportToEpub,
+  exportToHtml,
+  exportToPdf,
+  exportToPptx,
+  exportWithPandoc,
+} from './export';
 import { initExtensionCommon } from './extension-common';
 import { globalConfigPath } from './utils';
 
@@ -35,8 +47,14 @@ export async function activate(context: vscode.ExtensionContext) {
     console.error('Error initializing global config:', error);
   }
 
+  // Exports listed in `export_on_save` front matter run after each save
+  const exportOnSave = new ExportOnSave();
+  context.subscriptions.push(exportOnSave);
+
   // Initialize the common extension module
-  await initExtensionCommon(context);
+  await initExtensionCommon(context, {
+    onDidSaveMarkdown: (document) => exportOnSave.schedule(document),
+  });
 
   // Register native-only commands
 
@@ -84,6 +102,18 @@ export async function activate(context: vscode.ExtensionContext) {
     );
   }
 
+  // Export commands take the explorer/editor URI, or the active editor's
+  function exportActiveDocument(
+    exporter: (sourceUri: vscode.Uri) => Promise<void>,
+  ) {
+    return (uri?: vscode.Uri) => {
+      const sourceUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (sourceUri) {
+        exporter(sourceUri);
+      }
+    };
+  }
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -113,4 +143,73 @@ export async function activate(context: vscode.ExtensionContext) {
     ),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportHtml',
+      exportActiveDocument(exportToHtml),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportPdf',
+      exportActiveDocument(exportToPdf),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportDocx',
+      exportActiveDocument(exportToDocx),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportEpub',
+      exportActiveDocument(exportToEpub),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportSlides',
+      exportActiveDocument(exportSlides),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportSlidesPdf',
+      exportActiveDocument(exportSlidesToPdf),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportPptx',
+      exportActiveDocument(exportToPptx),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.buildSite',
+      exportSite,
+    ),
+  );
+
+  // Pandoc errors and warnings, shown in the Problems panel
+  const pandocDiagnostics =
+    vscode.languages.createDiagnosticCollection('pandoc');
+  context.subscriptions.push(pandocDiagnostics);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'markdown-live-preview.exportPandoc',
+      exportActiveDocument((sourceUri) =>
+        exportWithPandoc(sourceUri, pandocDiagnostics),
+      ),
+    ),
+  );
 }
@@ -3,20 +3,60 @@
  */
 
 import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
 import * as path from 'node:path';
-import * as vscode from 'vscode';
+import { fileURLToPath } from 'node:url';
+import type * as MarkdownIt from 'markdown-it';
+import type * as vscode from 'vscode';
 import * as yaml from 'yaml';
-import { getFullConfig } from '../config/ConfigManager';
+import { defaultConfig } from '../config/defaults';
 import {
+  type CustomContainerType,
   FrontMatterRenderingOption,
   type MarkdownLivePreviewConfig,
   MathRenderingOption,
   type RendererOptions,
 } from '../types';
-import { generateSlug, MarkdownParser } from './MarkdownParser';
+import { CitationProcessor, parseBibliography } from './Citations';
+import {
+  type CrossReferences,
+  formatCrossReference,
+  type GlossaryEntry,
+  generateSlug,
+  getGlossaryAnchor,
+  MarkdownParser,
+  resolveWikiLink,
+} from './MarkdownParser';
 import { MdxProcessor } from './MdxProcessor';
+import { RuntimeAssets } from './RuntimeAssets';
 import { type CodeRenderer, getCodeRenderer } from './renderers/CodeRenderer';
-import { getKatexRenderer, KatexRenderer } from './renderers/KatexRenderer';
+import { DiagramRenderer } from './renderers/DiagramRenderer';
+import { KatexRenderer } from './renderers/KatexRenderer';
+
+// Icons of the Obsidian callout types, which are also `:::` container types
+const CALLOUT_ICONS: Record<string, string> = {
+  note: '&#9998;', // ✎ pencil
+  info: '&#8505;', // ℹ info
+  tip: '&#128161;', // 💡 lightbulb
+  success: '&#10004;', // ✔ check
+  warning: '&#9888;', // ⚠ warning
+  caution: '&#9888;', // ⚠ warning
+  important: '&#10071;', // ❗ exclamation
+  danger: '&#9889;', // ⚡ zap
+  failure: '&#10008;', // ✘ cross
+  question: '&#10067;', // ❓ question
+  bug: '&#128027;', // 🐛 bug
+  example: '&#128196;', // 📄 document
+  quote: '&#10078;', // ❞ quote
+  abstract: '&#128203;', // 📋 clipboard
+  todo: '&#9744;', // ☐ checkbox
+};
+
+// Limits on each remote image downloaded into an export, including its
+// redirects
+const REMOTE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+const REMOTE_IMAGE_TIMEOUT = 15000;
 
 // Marp Core for native Marp rendering (may not be available in web extension)
 let MarpClass:
@@ -28,6 +68,9 @@ let MarpClass:
         css: string;
         comments: string[][];
       };
+      markdown: {
+        parse: (md: string, env: object) => MarkdownIt.Token[];
+      };
     })
   | null = null;
 try {
@@ -37,8 +80,77 @@ try {
   // Marp Core not available (e.g., web extension)
 }
 
+/**
+ * Regular expression of a glob, matched against `/`-separated paths:
+ * `*`, `?`, `**` for any number of folders, `[abc]` and `{a,b}`
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        source += '(?:[^/]*/)*';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const chars = glob.slice(i + 1, end).replace(/^!/, '^');
+      source += `[${chars.replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve a document URI string (or a plain path) to a file system path.
+ * Stands in for vscode.Uri.parse(...).fsPath so the engine runs without a VS Code host.
+ */
+export function sourceUriToFsPath(sourceUri: string): string {
+  if (sourceUri.startsWith('file:')) {
+    return fileURLToPath(sourceUri);
+  }
+  if (/^[a-zA-Z][\w+.-]+:/.test(sourceUri)) {
+    return decodeURIComponent(new URL(sourceUri).pathname);
+  }
+  return sourceUri;
+}
+
 export interface RenderOptions extends RendererOptions {
   vscodePreviewPanel?: vscode.WebviewPanel;
+  // Put IMPORTED_FILE_MARKER around imported markdown files (e-book chapters)
+  markImportedFiles?: boolean;
+}
+
+// Marks where an imported markdown file starts and ends in rendered HTML
+export const IMPORTED_FILE_MARKER = '<!-- @import boundary -->';
+
+// A file that a document imports with @import or embeds with ![[note]], or
+// the absolute glob of a glob or directory import
+export interface DocumentDependency {
+  path: string;
+  // The document or imported file that references it
+  parent: string;
+  kind: 'import' | 'embed' | 'glob';
 }
 
 export interface HTMLTemplateOptions {
@@ -52,21 +164,101 @@ export interface HTMLTemplateOptions {
   contentSecurityPolicy?: string;
   vscodePreviewPanel?: vscode.WebviewPanel;
   isVSCodeWebExtension?: boolean;
+  // URI the page can load bundled runtime assets from (local asset mode)
+  assetsBaseUri?: string;
+  // Embed bundled runtime assets in the page instead of linking them
+  inlineAssets?: boolean;
+  // Leave remote images out of an export instead of downloading them, for
+  // exports that must work offline (PDF)
+  skipRemoteImages?: boolean;
+}
+
+// Reveal.js presentation settings, from front matter
+interface RevealSettings {
+  revealTheme: string;
+  transition: string;
+  controls: boolean;
+  progress: boolean;
+  center: boolean;
+  slideNumber: boolean;
+  width: number;
+  height: number;
 }
 
 export class MarkdownEngine {
   private parser: MarkdownParser;
   private codeRenderer: CodeRenderer;
   private katexRenderer: KatexRenderer;
+  private diagramRenderer: DiagramRenderer = new DiagramRenderer();
   private config: MarkdownLivePreviewConfig;
   private caches: Map<string, unknown> = new Map();
+  // Files imported or embedded by the last previewed document, by path
+  private dependencies = new Map<string, DocumentDependency>();
   public isPreviewInPresentationMode = false;
 
-  constructor(configOverrides?: Partial<MarkdownLivePreviewConfig>) {
-    this.config = { ...getFullConfig(), ...configOverrides };
+  constructor(config: MarkdownLivePreviewConfig) {
+    this.config = config;
     this.parser = new MarkdownParser(this.config);
-    this.codeRenderer = getCodeRenderer();
-    this.katexRenderer = getKatexRenderer();
+    this.codeRenderer = getCodeRenderer(this.config.theme.codeBlock);
+    this.katexRenderer = new KatexRenderer(this.config.math);
+  }
+
+  /**
+   * Parse markdown into markdown-it tokens, with front matter removed and
+   * @import directives resolved. For exporters that build documents from
+   * the token stream rather than from HTML.
+   */
+  async parseTokens(
+    markdown: string,
+    options?: RenderOptions,
+    env: Record<string, unknown> = {},
+  ): Promise<{
+    tokens: MarkdownIt.Token[];
+    frontMatter: Record<string, unknown> | null;
+  }> {
+    const { frontMatter, content } = this.extractFrontMatter(markdown);
+
+    let processedContent = content;
+    if (options?.sourceUri) {
+      try {
+        const sourcePath = sourceUriToFsPath(options.sourceUri);
+        processedContent = await this.processImports(
+          content,
+          sourcePath,
+          new Map(),
+        );
+      } catch (error) {
+        console.warn('Failed to process @import directives:', error);
+      }
+    }
+
+    env.containers = this.getContainerTypes(frontMatter);
+    return { tokens: this.parser.parse(processedContent, env), frontMatter };
+  }
+
+  /**
+   * Cross-reference labels of a document and its imported files, and the
+   * references that match none of them
+   */
+  async getCrossReferences(
+    markdown: string,
+    sourceUri: string,
+  ): Promise<CrossReferences> {
+    const env: Record<string, unknown> = {};
+    await this.parseTokens(markdown, { sourceUri }, env);
+    return env.crossReferences as CrossReferences;
+  }
+
+  /**
+   * Resolve @import directives in markdown relative to its source file,
+   * for exporters that hand the markdown to another tool
+   */
+  async resolveImports(markdown: string, sourceUri: string): Promise<string> {
+    return this.processImports(
+      markdown,
+      sourceUriToFsPath(sourceUri),
+      new Map(),
+    );
   }
 
   /**
@@ -96,10 +288,17 @@ export class MarkdownEngine {
 
     // Process @import directives
     let processedContent = content;
+    const dependencies = new Map<string, DocumentDependency>();
     if (options?.sourceUri) {
       try {
-        const sourcePath = vscode.Uri.parse(options.sourceUri).fsPath;
-        processedContent = await this.processImports(content, sourcePath);
+        const sourcePath = sourceUriToFsPath(options.sourceUri);
+        processedContent = await this.processImports(
+          content,
+          sourcePath,
+          dependencies,
+          undefined,
+          options.markImportedFiles,
+        );
       } catch (error) {
         console.warn('Failed to process @import directives:', error);
       }
@@ -109,7 +308,7 @@ export class MarkdownEngine {
     if (options?.sourceUri) {
       try {
         const ext = path
-          .extname(vscode.Uri.parse(options.sourceUri).fsPath)
+          .extname(sourceUriToFsPath(options.sourceUri))
           .toLowerCase();
         if (ext === '.mdx') {
           const mdxProcessor = new MdxProcessor();
@@ -121,14 +320,66 @@ export class MarkdownEngine {
       }
     }
 
+    // Load the bibliography for [@key] citations
+    let citations: CitationProcessor | undefined;
+    let loadErrors = '';
+    if (options?.sourceUri && frontMatter?.bibliography) {
+      try {
+        citations = this.loadCitations(
+          frontMatter,
+          sourceUriToFsPath(options.sourceUri),
+        );
+      } catch (error) {
+        loadErrors += `<div class="citation-error" style="color: #c00; padding: 8px; border: 1px solid #c00; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">Bibliography error: ${this.escapeHtml(
+          error instanceof Error ? error.message : String(error),
+        )}</div>`;
+      }
+    }
+
+    // Load the glossary, whose terms link to the glossary section
+    let glossary: Map<string, GlossaryEntry> | undefined;
+    if (options?.sourceUri && frontMatter?.glossary) {
+      try {
+        glossary = this.loadGlossary(
+          frontMatter,
+          sourceUriToFsPath(options.sourceUri),
+        );
+      } catch (error) {
+        loadErrors += `<div class="glossary-error" style="color: #c00; padding: 8px; border: 1px solid #c00; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">Glossary error: ${this.escapeHtml(
+          error instanceof Error ? error.message : String(error),
+        )}</div>`;
+      }
+    }
+
     // Render markdown to HTML
     // (Mermaid blocks are handled by the custom fence renderer in MarkdownParser)
-    let html = this.parser.render(processedContent, { lineOffset });
+    const env: Record<string, unknown> = {
+      lineOffset,
+      citations,
+      glossary,
+      containers: this.getContainerTypes(frontMatter),
+    };
+    let html = loadErrors + this.parser.render(processedContent, env);
+
+    // Glossary of the terms used, at [GLOSSARY] or at the end
+    if (glossary) {
+      html = this.insertGlossary(
+        html,
+        glossary,
+        (env.glossaryTerms as string[] | undefined) ?? [],
+        frontMatter ?? {},
+      );
+    }
+
+    // Reference list of the cited entries, at [BIBLIOGRAPHY] or at the end
+    if (citations) {
+      html = this.insertBibliography(html, citations, frontMatter ?? {});
+    }
 
     // Resolve relative image paths to data URIs for webview compatibility
-    if (options?.sourceUri) {
+    if (options?.sourceUri && !options.useRelativeFilePath) {
       try {
-        const sourcePath = vscode.Uri.parse(options.sourceUri).fsPath;
+        const sourcePath = sourceUriToFsPath(options.sourceUri);
         html = this.resolveImagePaths(html, path.dirname(sourcePath));
       } catch (error) {
         console.warn('Failed to resolve image paths:', error);
@@ -138,14 +389,21 @@ export class MarkdownEngine {
     // Process Obsidian-style callouts
     html = this.processCallouts(html);
 
+    // Turn <!-- pagebreak --> markers into print page breaks
+    html = this.processPageBreaks(html);
+
     // Process math expressions
     html = this.katexRenderer.processMathInContent(html);
 
     // Process code blocks with syntax highlighting
     html = await this.processCodeBlocks(html);
 
-    // Generate TOC HTML
-    const tocHTML = this.generateTOC(markdown, frontMatter);
+    // Generate TOC HTML (from the rendered content, so it covers imported files)
+    const tocHTML = this.generateTOC(
+      processedContent,
+      frontMatter,
+      env.crossReferences as CrossReferences | undefined,
+    );
 
     // Generate front matter HTML for TOC sidebar panel
     const frontMatterForTOC = this.generateFrontMatterForTOC(frontMatter);
@@ -158,7 +416,9 @@ export class MarkdownEngine {
     );
 
     // Render front matter if needed
-    const frontMatterHTML = this.renderFrontMatter(frontMatter);
+    const frontMatterHTML = options?.hideFrontMatter
+      ? ''
+      : this.renderFrontMatter(frontMatter);
     if (frontMatterHTML) {
       html = frontMatterHTML + html;
     }
@@ -176,6 +436,12 @@ export class MarkdownEngine {
     this.isPreviewInPresentationMode =
       !!yamlConfig.marp || !!yamlConfig.slideshow || !!yamlConfig.presentation;
 
+    // Only previews report their files to dependsOn; exports render the
+    // same document without changing what the preview watches
+    if (options?.isForPreview) {
+      this.dependencies = dependencies;
+    }
+
     return {
       html,
       tocHTML,
@@ -195,6 +461,7 @@ export class MarkdownEngine {
     options: HTMLTemplateOptions,
   ): Promise<string> {
     const { inputString, config: templateConfig } = options;
+    const assets = this.getRuntimeAssets(options);
 
     // Detect presentation mode from front matter
     if (this.isPresentationMarkdown(inputString)) {
@@ -203,16 +470,18 @@ export class MarkdownEngine {
       // .mdx presentations use Reveal.js (supports JSX, MDX expressions, diagrams)
       const sourceExt = templateConfig?.sourceUri
         ? path
-            .extname(vscode.Uri.parse(templateConfig.sourceUri).fsPath)
+            .extname(sourceUriToFsPath(templateConfig.sourceUri))
             .toLowerCase()
         : '';
       if (sourceExt === '.mdx') {
-        return this.generateRevealTemplate(inputString, templateConfig);
+        return this.generateRevealTemplate(inputString, templateConfig, assets);
       }
 
-      // .md presentations use Marp (backward-compatible)
+      // .md presentations use Marp (backward-compatible), which does not
+      // resolve imports
       if (MarpClass) {
-        return this.generateMarpTemplate(inputString, templateConfig);
+        this.dependencies = new Map();
+        return this.generateMarpTemplate(inputString, templateConfig, assets);
       }
     }
 
@@ -220,6 +489,7 @@ export class MarkdownEngine {
     const { html, tocHTML, frontMatterForTOC, yamlConfig } = await this.parseMD(
       inputString,
       {
+        isForPreview: true,
         sourceUri: templateConfig?.sourceUri,
       },
     );
@@ -240,12 +510,13 @@ export class MarkdownEngine {
   <meta http-equiv="Content-Security-Policy" content="default-src 'self' https: data:; script-src 'self' 'unsafe-inline' 'unsafe-eval' https:; style-src 'self' 'unsafe-inline' https:; img-src 'self' https: data: blob:; font-src 'self' https: data:; connect-src 'self' https:;">
   <title>Markdown Preview</title>
   ${this.config.math.renderingOption === MathRenderingOption.MathJax
-    ? `<script id="MathJax-script" async src="${this.config.math.mathjaxV3ScriptSrc}"></script>`
-    : `<link rel="stylesheet" href="${KatexRenderer.getCssUrl()}">`}
+    ? `<script id="MathJax-script" async src="${this.getMathJaxScriptSrc(assets)}"></script>`
+    : assets.stylesheet('katex', 'dist/katex.min.css')}
   <style>
     ${themeCSS}
     ${KatexRenderer.getCss()}
     ${this.getBaseCSS()}
+    ${this.getPrintCSS()}
   </style>
 </head>
 <body class="vscode-body ${yamlConfig.class || ''}" data-theme="system" data-preview-theme="${this.config.preview.theme || 'github'}" data-has-toc="${hasTOC}">
@@ -274,7 +545,7 @@ export class MarkdownEngine {
       ${html}
     </div>
   </div>
-  ${this.generateDiagramScripts()}
+  ${this.generateDiagramScripts(assets)}
   <script>
     (function() {
       const vscode = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null;
@@ -293,6 +564,43 @@ export class MarkdownEngine {
         });
       }
 
+      // Start times of the running code chunks, by chunk id
+      var runningChunks = {};
+      var runningChunksTimer = null;
+
+      function formatChunkElapsed(ms, precise) {
+        var seconds = ms / 1000;
+        if (seconds < 60) {
+          return (precise ? seconds.toFixed(1) : Math.floor(seconds)) + 's';
+        }
+        return Math.floor(seconds / 60) + 'm ' + Math.floor(seconds % 60) + 's';
+      }
+
+      // Show the running state and elapsed time of the running chunks, also
+      // after the preview re-renders
+      function updateRunningChunks() {
+        var ids = Object.keys(runningChunks);
+        ids.forEach(function(id) {
+          var chunkEl = document.querySelector('.code-chunk[data-chunk-id="' + id + '"]');
+          if (chunkEl) chunkEl.classList.add('running');
+          var controlsEl = document.querySelector('.code-chunk[data-chunk-id="' + id + '"] .code-chunk-controls');
+          if (controlsEl) controlsEl.classList.add('running');
+          var statusEl = document.querySelector('.code-chunk-status[data-chunk-id="' + id + '"]');
+          if (statusEl) {
+            statusEl.className = 'code-chunk-status running';
+            statusEl.setAttribute('data-elapsed', formatChunkElapsed(Date.now() - runningChunks[id], false));
+          }
+          var btn = document.querySelector('.code-chunk-run-btn[data-chunk-id="' + id + '"]');
+          if (btn) btn.disabled = true;
+        });
+        if (ids.length && !runningChunksTimer) {
+          runningChunksTimer = setInterval(updateRunningChunks, 1000);
+        } else if (!ids.length && runningChunksTimer) {
+          clearInterval(runningChunksTimer);
+          runningChunksTimer = null;
+        }
+      }
+
       // Handle messages from VS Code
       window.addEventListener('message', event => {
         const message = event.data;
@@ -326,6 +634,7 @@ export class MarkdownEngine {
             if (window._updatePageToolbar) {
               window._updatePageToolbar();
             }
+            updateRunningChunks();
             break;
           case 'changeTextEditorSelection':
             // Scroll sync handling (fraction-based)
@@ -335,27 +644,44 @@ export class MarkdownEngine {
             break;
           case 'codeChunkRunning': {
             var cid = message.chunkId;
-            var controlsEl = document.querySelector('.code-chunk[data-chunk-id="' + cid + '"] .code-chunk-controls');
-            if (controlsEl) controlsEl.classList.add('running');
-            var statusEl = document.querySelector('.code-chunk-status[data-chunk-id="' + cid + '"]');
-            if (statusEl) {
-              statusEl.className = 'code-chunk-status running';
+            runningChunks[cid] = Date.now() - (message.elapsed || 0);
+            updateRunningChunks();
+            // Output streamed so far
+            if (message.html !== undefined) {
+              var progressEl = document.querySelector('.code-chunk-output[data-chunk-id="' + cid + '"]');
+              if (progressEl) {
+                progressEl.innerHTML = message.html;
+                progressEl.classList.remove('stale');
+              }
             }
-            var btn = document.querySelector('.code-chunk-run-btn[data-chunk-id="' + cid + '"]');
-            if (btn) btn.disabled = true;
             break;
           }
           case 'codeChunkResult': {
             var cid2 = message.chunkId;
+            delete runningChunks[cid2];
+            updateRunningChunks();
+            var chunkEl2 = document.querySelector('.code-chunk[data-chunk-id="' + cid2 + '"]');
+            if (chunkEl2) chunkEl2.classList.remove('running');
             var controlsEl2 = document.querySelector('.code-chunk[data-chunk-id="' + cid2 + '"] .code-chunk-controls');
             if (controlsEl2) controlsEl2.classList.remove('running');
             var outputEl = document.querySelector('.code-chunk-output[data-chunk-id="' + cid2 + '"]');
             if (outputEl) {
               outputEl.innerHTML = message.html || '';
+              // Cached output of code that has changed since it ran
+              outputEl.classList.toggle('stale', !!message.stale);
+              // Vega, Vega-Lite and Plotly outputs
+              if (outputEl.querySelector('.vega, .vega-lite') && window.renderVega) {
+                window.renderVega();
+              }
             }
             var statusEl2 = document.querySelector('.code-chunk-status[data-chunk-id="' + cid2 + '"]');
             if (statusEl2) {
               statusEl2.className = 'code-chunk-status ' + (message.status || 'idle');
+              if (message.elapsed !== undefined) {
+                statusEl2.setAttribute('data-elapsed', formatChunkElapsed(message.elapsed, true));
+              } else {
+                statusEl2.removeAttribute('data-elapsed');
+              }
             }
             var btn2 = document.querySelector('.code-chunk-run-btn[data-chunk-id="' + cid2 + '"]');
             if (btn2) btn2.disabled = false;
@@ -462,16 +788,21 @@ export class MarkdownEngine {
         }
       });
 
-      // Handle code chunk run button clicks
+      // Handle code chunk run, stop and session button clicks
       document.addEventListener('click', (event) => {
-        var btn = event.target.closest('.code-chunk-run-btn');
+        var btn = event.target.closest('.code-chunk-run-btn, .code-chunk-stop-btn, .code-chunk-session-btn');
         if (!btn) return;
         event.preventDefault();
         event.stopPropagation();
         var chunkId = btn.getAttribute('data-chunk-id');
-        if (chunkId && vscode) {
+        var command = btn.classList.contains('code-chunk-run-btn')
+          ? 'runCodeChunk'
+          : btn.classList.contains('code-chunk-stop-btn')
+            ? 'stopCodeChunk'
+            : btn.getAttribute('data-action');
+        if (chunkId && command && vscode) {
           vscode.postMessage({
-            command: 'runCodeChunk',
+            command: command,
             args: ['${templateConfig?.sourceUri || ''}', chunkId]
           });
         }
@@ -1022,26 +1353,97 @@ export class MarkdownEngine {
     return map[ext] || ext;
   }
 
+  /**
+   * Files imported or embedded by the last previewed document, directly or
+   * through other imported files
+   */
+  getDependencies(): DocumentDependency[] {
+    return [...this.dependencies.values()];
+  }
+
+  /**
+   * Whether the last previewed document imports or embeds the file
+   */
+  dependsOn(filePath: string): boolean {
+    return this.dependencies.has(path.resolve(filePath));
+  }
+
+  /**
+   * Resolve the imports and embeds of a document, without rendering it, and
+   * return its dependencies
+   */
+  async findDependencies(
+    markdown: string,
+    sourceUri: string,
+  ): Promise<DocumentDependency[]> {
+    const dependencies = new Map<string, DocumentDependency>();
+    await this.processImports(
+      this.extractFrontMatter(markdown).content,
+      sourceUriToFsPath(sourceUri),
+      dependencies,
+    );
+    return [...dependencies.values()];
+  }
+
+  private addDependency(
+    dependencies: Map<string, DocumentDependency>,
+    filePath: string,
+    parent: string,
+    kind: DocumentDependency['kind'],
+  ): void {
+    if (!dependencies.has(filePath)) {
+      dependencies.set(filePath, { path: filePath, parent, kind });
+    }
+  }
+
   /**
    * Process `@import "file"` directives in markdown content.
    *
    * Resolves paths relative to the source file, reads the imported file,
    * and replaces each directive with the appropriate rendered content
-   * based on the file extension.
+   * based on the file extension. With wiki links enabled, `![[note]]`
+   * lines outside code fences embed the note, or a section or block of it.
+   * The files read are added to `dependencies`.
    */
   private async processImports(
     content: string,
     sourceFilePath: string,
+    dependencies: Map<string, DocumentDependency>,
     importedPaths?: Set<string>,
+    markImportedFiles = false,
   ): Promise<string> {
     const visited = importedPaths ?? new Set<string>();
     visited.add(sourceFilePath);
 
-    const sourceDir = path.dirname(sourceFilePath);
     const lines = content.split('\n');
     const result: string[] = [];
+    let fence = '';
 
     for (const line of lines) {
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fenceMatch && !fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch?.[1].startsWith(fence)) {
+        fence = '';
+      }
+
+      const embed =
+        !fence && this.config.wikiLink.enabled
+          ? line.match(/^\s*!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]\s*$/)
+          : null;
+      const transcluded =
+        embed &&
+        (await this.processTransclusion(
+          embed[1],
+          sourceFilePath,
+          visited,
+          dependencies,
+        ));
+      if (transcluded !== null && transcluded !== undefined) {
+        result.push(transcluded);
+        continue;
+      }
+
       // Reset regex state for per-line matching
       const lineRegex = /^@import\s+"([^"]+)"(?:\s+\{([^}]*)\})?\s*$/;
       const match = line.match(lineRegex);
@@ -1050,126 +1452,505 @@ export class MarkdownEngine {
         continue;
       }
 
-      const importPath = match[1];
       const attrs = this.parseImportAttrs(match[2]);
-      const resolvedPath = path.resolve(sourceDir, importPath);
-      const ext = path.extname(resolvedPath).toLowerCase();
-
-      // Circular import guard
-      if (visited.has(resolvedPath)) {
+      const imports = this.resolveImportTargets(
+        match[1],
+        attrs,
+        sourceFilePath,
+        dependencies,
+      );
+      if (imports.length === 0) {
         result.push(
-          `<!-- @import warning: circular import detected for "${importPath}" -->`,
+          `<div class="import-warning" style="color: #b08800; padding: 8px; border: 1px solid #b08800; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">@import warning: no files match ${this.escapeHtml(
+            match[1],
+          )}</div>`,
         );
         continue;
       }
 
-      // Read the file
-      let fileContent: string;
+      for (const [index, target] of imports.entries()) {
+        const { importPath, resolvedPath, section } = target;
+        const ext = path.extname(resolvedPath).toLowerCase();
+        // The files of a glob are separate blocks
+        if (index > 0) {
+          result.push('');
+          if (attrs.separator) {
+            result.push(attrs.separator, '');
+          }
+        }
+
+        // Circular import guard
+        if (visited.has(resolvedPath)) {
+          result.push(
+            `<!-- @import warning: circular import detected for "${importPath}" -->`,
+          );
+          continue;
+        }
+
+        // Read the file
+        this.addDependency(
+          dependencies,
+          resolvedPath,
+          sourceFilePath,
+          'import',
+        );
+        const importError = (message: string) =>
+          `<div class="import-error" style="color: #c00; padding: 8px; border: 1px solid #c00; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">@import error: ${this.escapeHtml(
+            message,
+          )}</div>`;
+        let fileContent: string;
+        try {
+          fileContent = fs.readFileSync(resolvedPath, 'utf-8');
+        } catch {
+          result.push(importError(`file not found: ${importPath}`));
+          continue;
+        }
+
+        // Extract a heading section or a #region
+        if (section && MarkdownEngine.MARKDOWN_EXTENSIONS.has(ext)) {
+          const extracted = this.extractSection(
+            this.extractFrontMatter(fileContent).content,
+            section,
+          );
+          if (extracted === null) {
+            result.push(importError(`heading not found: ${importPath}`));
+            continue;
+          }
+          fileContent = extracted;
+        }
+        if (attrs.region) {
+          const extracted = this.extractRegion(fileContent, attrs.region);
+          if (extracted === null) {
+            result.push(
+              importError(`region not found: ${attrs.region} in ${importPath}`),
+            );
+            continue;
+          }
+          fileContent = extracted;
+        }
+
+        // Apply line_begin / line_end slicing
+        if (attrs.line_begin || attrs.line_end) {
+          const fileLines = fileContent.split('\n');
+          const begin = attrs.line_begin
+            ? parseInt(attrs.line_begin, 10) - 1
+            : 0;
+          const end = attrs.line_end
+            ? parseInt(attrs.line_end, 10)
+            : fileLines.length;
+          fileContent = fileLines.slice(Math.max(0, begin), end).join('\n');
+        }
+
+        // hide=true → suppress output entirely
+        if (attrs.hide === 'true') {
+          // For CSS/JS: still include but hidden (side-effect import)
+          if (ext === '.css' || ext === '.less') {
+            result.push(`<style>${fileContent}</style>`);
+          } else if (ext === '.js' || ext === '.javascript') {
+            result.push(`<script>${fileContent}</script>`);
+          }
+          // For everything else, just skip
+          continue;
+        }
+
+        // code_block=true → force fenced code block rendering
+        if (attrs.code_block === 'true') {
+          const lang = ext.replace('.', '');
+          result.push(`\`\`\`${this.extToLanguage(lang)}`);
+          result.push(fileContent);
+          result.push('```');
+          continue;
+        }
+
+        // Render based on file extension
+        if (MarkdownEngine.IMAGE_EXTENSIONS.has(ext)) {
+          // Image: embed as data URI so it works in VS Code webview
+          // (relative paths don't resolve correctly in webview context)
+          const mimeTypes: Record<string, string> = {
+            '.jpg': 'image/jpeg',
+            '.jpeg': 'image/jpeg',
+            '.png': 'image/png',
+            '.gif': 'image/gif',
+            '.apng': 'image/apng',
+            '.svg': 'image/svg+xml',
+            '.bmp': 'image/bmp',
+            '.webp': 'image/webp',
+          };
+          const mime = mimeTypes[ext] || 'application/octet-stream';
+          let src: string;
+          if (ext === '.svg') {
+            // SVG: use text content as data URI
+            const svgContent = fs.readFileSync(resolvedPath, 'utf-8');
+            src = `data:image/svg+xml;base64,${Buffer.from(svgContent).toString('base64')}`;
+          } else {
+            // Binary image: read as base64
+            const imageBuffer = fs.readFileSync(resolvedPath);
+            src = `data:${mime};base64,${imageBuffer.toString('base64')}`;
+          }
+          const imgAttrs: string[] = [`src="${src}"`];
+          for (const key of ['width', 'height', 'title', 'alt']) {
+            if (attrs[key]) {
+              imgAttrs.push(`${key}="${this.escapeHtml(attrs[key])}"`);
+            }
+          }
+          result.push(`<img ${imgAttrs.join(' ')}>`);
+        } else if (MarkdownEngine.MARKDOWN_EXTENSIONS.has(ext)) {
+          // Markdown: recursively process imports then inline
+          let processed = await this.processImports(
+            fileContent,
+            resolvedPath,
+            dependencies,
+            new Set(visited),
+            markImportedFiles,
+          );
+          if (attrs.heading_offset) {
+            processed = this.offsetHeadings(
+              processed,
+              parseInt(attrs.heading_offset, 10) || 0,
+            );
+          }
+          if (markImportedFiles) {
+            result.push(
+              '',
+              IMPORTED_FILE_MARKER,
+              '',
+              processed,
+              '',
+              IMPORTED_FILE_MARKER,
+              '',
+            );
+          } else {
+            result.push(processed);
+          }
+        } else if (ext === '.mermaid') {
+          result.push('```mermaid');
+          result.push(fileContent);
+          result.push('```');
+        } else if (ext === '.csv') {
+          // CSV → markdown table
+          result.push(this.csvToMarkdownTable(fileContent));
+        } else if (ext === '.css' || ext === '.less') {
+          result.push(`<style>${fileContent}</style>`);
+        } else if (ext === '.js' || ext === '.javascript') {
+          result.push(`<script>${fileContent}</script>`);
+        } else if (ext === '.html' || ext === '.htm') {
+          result.push(fileContent);
+        } else {
+          // Other text files → fenced code block
+          const lang = ext.replace('.', '');
+          result.push(`\`\`\`${this.extToLanguage(lang)}`);
+          result.push(fileContent);
+          result.push('```');
+        }
+      }
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * The files of an `@import` path. A glob (`adrs/*.md`) or a directory
+   * (`adrs/`, for its markdown files) gives every matching file, ordered by
+   * `sort="name"` (the default) or `sort="mtime"`, reversed by
+   * `reverse=true`.
+   */
+  private resolveImportTargets(
+    importPath: string,
+    attrs: Record<string, string>,
+    sourceFilePath: string,
+    dependencies: Map<string, DocumentDependency>,
+  ): Array<{ importPath: string; resolvedPath: string; section: string }> {
+    const sourceDir = path.dirname(sourceFilePath);
+    let pattern = importPath;
+    if (!/[*?[{]/.test(importPath)) {
+      // "file.md#heading" imports the section under the heading
+      const hashIndex = importPath.indexOf('#');
+      const resolvedPath = path.resolve(
+        sourceDir,
+        hashIndex === -1 ? importPath : importPath.slice(0, hashIndex),
+      );
+      let isDirectory = false;
       try {
-        fileContent = fs.readFileSync(resolvedPath, 'utf-8');
+        isDirectory = fs.statSync(resolvedPath).isDirectory();
       } catch {
-        result.push(
-          `<div class="import-error" style="color: #c00; padding: 8px; border: 1px solid #c00; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">@import error: file not found: ${this.escapeHtml(
+        // Missing files are reported when they are read
+      }
+      if (!isDirectory) {
+        return [
+          {
             importPath,
-          )}</div>`,
-        );
-        continue;
+            resolvedPath,
+            section: hashIndex === -1 ? '' : importPath.slice(hashIndex + 1),
+          },
+        ];
       }
+      const extensions = [...MarkdownEngine.MARKDOWN_EXTENSIONS];
+      pattern = `${importPath.replace(/\/+$/, '')}/*{${extensions.join(',')}}`;
+    }
+
+    // Walk from the folder before the first wildcard
+    const segments = pattern.split('/');
+    const first = segments.findIndex((segment) => /[*?[{]/.test(segment));
+    const baseDir = path.resolve(sourceDir, segments.slice(0, first).join('/'));
+    const glob = segments.slice(first).join('/');
+    this.addDependency(
+      dependencies,
+      path.join(baseDir, glob),
+      sourceFilePath,
+      'glob',
+    );
 
-      // Apply line_begin / line_end slicing
-      if (attrs.line_begin || attrs.line_end) {
-        const fileLines = fileContent.split('\n');
-        const begin = attrs.line_begin ? parseInt(attrs.line_begin, 10) - 1 : 0;
-        const end = attrs.line_end
-          ? parseInt(attrs.line_end, 10)
-          : fileLines.length;
-        fileContent = fileLines.slice(Math.max(0, begin), end).join('\n');
+    const matcher = globToRegExp(glob);
+    const recursive = glob.includes('**');
+    const maxDepth = segments.length - first;
+    const files: string[] = [];
+    const walk = (dir: string, depth: number) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (
+            (recursive || depth < maxDepth) &&
+            !entry.name.startsWith('.') &&
+            entry.name !== 'node_modules'
+          ) {
+            walk(fullPath, depth + 1);
+          }
+        } else if (
+          matcher.test(
+            path.relative(baseDir, fullPath).split(path.sep).join('/'),
+          )
+        ) {
+          files.push(fullPath);
+        }
       }
+    };
+    walk(baseDir, 1);
 
-      // hide=true → suppress output entirely
-      if (attrs.hide === 'true') {
-        // For CSS/JS: still include but hidden (side-effect import)
-        if (ext === '.css' || ext === '.less') {
-          result.push(`<style>${fileContent}</style>`);
-        } else if (ext === '.js' || ext === '.javascript') {
-          result.push(`<script>${fileContent}</script>`);
+    if (attrs.sort === 'mtime') {
+      const mtimes = new Map(
+        files.map((file) => [file, fs.statSync(file).mtimeMs]),
+      );
+      files.sort((a, b) => (mtimes.get(a) ?? 0) - (mtimes.get(b) ?? 0));
+    } else {
+      files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }
+    if (attrs.reverse === 'true') {
+      files.reverse();
+    }
+    return files.map((file) => ({
+      importPath: path.relative(sourceDir, file).split(path.sep).join('/'),
+      resolvedPath: file,
+      section: '',
+    }));
+  }
+
+  /**
+   * Demote the ATX headings of markdown by `offset` levels, down to `######`
+   */
+  private offsetHeadings(markdown: string, offset: number): string {
+    let fence = '';
+    return markdown
+      .split('\n')
+      .map((line) => {
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch && !fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch?.[1].startsWith(fence)) {
+          fence = '';
         }
-        // For everything else, just skip
-        continue;
+        const heading = !fence && line.match(/^(#{1,6})(?=\s|$)/);
+        if (!heading) {
+          return line;
+        }
+        const level = Math.min(6, Math.max(1, heading[1].length + offset));
+        return '#'.repeat(level) + line.slice(heading[1].length);
+      })
+      .join('\n');
+  }
+
+  /**
+   * Markdown for a `![[note]]`, `![[note#Heading]]` or `![[note#^block]]`
+   * embed, under a link back to the note, or null when the target is not
+   * a markdown note. Embedded notes may embed and import others, with the
+   * same circular import guard.
+   */
+  private async processTransclusion(
+    target: string,
+    sourceFilePath: string,
+    visited: Set<string>,
+    dependencies: Map<string, DocumentDependency>,
+  ): Promise<string | null> {
+    const hashIndex = target.indexOf('#');
+    const note = hashIndex === -1 ? target : target.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : target.slice(hashIndex + 1);
+    const link = resolveWikiLink('', target, undefined, this.config);
+    const file = link.target.replace(/#.*$/, '');
+    const resolvedPath = file
+      ? path.resolve(path.dirname(sourceFilePath), file)
+      : sourceFilePath;
+    if (
+      !MarkdownEngine.MARKDOWN_EXTENSIONS.has(
+        path.extname(resolvedPath).toLowerCase(),
+      )
+    ) {
+      return null;
+    }
+
+    if (visited.has(resolvedPath)) {
+      return `<!-- transclusion warning: circular embed detected for "${target}" -->`;
+    }
+
+    const error = (message: string) =>
+      `<div class="transclusion-error" style="color: #c00; padding: 8px; border: 1px solid #c00; border-radius: 4px; margin: 8px 0; font-family: monospace; font-size: 12px;">Embed error: ${this.escapeHtml(
+        message,
+      )}</div>`;
+    this.addDependency(dependencies, resolvedPath, sourceFilePath, 'embed');
+    let fileContent: string;
+    try {
+      fileContent = fs.readFileSync(resolvedPath, 'utf-8');
+    } catch {
+      return error(`file not found: ${note.trim()}`);
+    }
+
+    let embedded: string | null = this.extractFrontMatter(fileContent).content;
+    if (fragment.startsWith('^')) {
+      embedded = this.extractBlock(embedded, fragment.slice(1).trim());
+      if (embedded === null) {
+        return error(`block not found: ${target.trim()}`);
+      }
+    } else if (fragment) {
+      embedded = this.extractSection(embedded, fragment);
+      if (embedded === null) {
+        return error(`heading not found: ${target.trim()}`);
       }
+    }
+
+    const processed = await this.processImports(
+      embedded,
+      resolvedPath,
+      dependencies,
+      new Set(visited),
+    );
+    const label = [note.trim(), fragment.trim()].filter(Boolean).join(' › ');
+    return [
+      `<div class="transclusion" data-source="${this.escapeHtml(file)}">`,
+      `<div class="transclusion-source"><a href="${this.escapeHtml(link.target)}" class="wiki-link">${this.escapeHtml(label)}</a></div>`,
+      '',
+      processed,
+      '',
+      '</div>',
+    ].join('\n');
+  }
 
-      // code_block=true → force fenced code block rendering
-      if (attrs.code_block === 'true') {
-        const lang = ext.replace('.', '');
-        result.push(`\`\`\`${this.extToLanguage(lang)}`);
-        result.push(fileContent);
-        result.push('```');
+  /**
+   * The section of a heading: the heading and the lines up to the next
+   * heading of the same or a higher level. Headings match by slug.
+   */
+  private extractSection(markdown: string, heading: string): string | null {
+    const lines = markdown.split('\n');
+    const slug = generateSlug(heading);
+    let start = -1;
+    let level = 0;
+    let fence = '';
+    for (let i = 0; i < lines.length; i++) {
+      const fenceMatch = lines[i].match(/^\s*(`{3,}|~{3,})/);
+      if (fenceMatch && !fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch?.[1].startsWith(fence)) {
+        fence = '';
+      }
+      const match = !fence && lines[i].match(/^(#{1,6})\s+(.*)$/);
+      if (!match) {
         continue;
       }
+      if (start === -1) {
+        if (generateSlug(match[2].replace(/\s+#+\s*$/, '')) === slug) {
+          start = i;
+          level = match[1].length;
+        }
+      } else if (match[1].length <= level) {
+        return lines.slice(start, i).join('\n');
+      }
+    }
+    return start === -1 ? null : lines.slice(start).join('\n');
+  }
 
-      // Render based on file extension
-      if (MarkdownEngine.IMAGE_EXTENSIONS.has(ext)) {
-        // Image: embed as data URI so it works in VS Code webview
-        // (relative paths don't resolve correctly in webview context)
-        const mimeTypes: Record<string, string> = {
-          '.jpg': 'image/jpeg',
-          '.jpeg': 'image/jpeg',
-          '.png': 'image/png',
-          '.gif': 'image/gif',
-          '.apng': 'image/apng',
-          '.svg': 'image/svg+xml',
-          '.bmp': 'image/bmp',
-          '.webp': 'image/webp',
-        };
-        const mime = mimeTypes[ext] || 'application/octet-stream';
-        let src: string;
-        if (ext === '.svg') {
-          // SVG: use text content as data URI
-          const svgContent = fs.readFileSync(resolvedPath, 'utf-8');
-          src = `data:image/svg+xml;base64,${Buffer.from(svgContent).toString('base64')}`;
-        } else {
-          // Binary image: read as base64
-          const imageBuffer = fs.readFileSync(resolvedPath);
-          src = `data:${mime};base64,${imageBuffer.toString('base64')}`;
+  /**
+   * The lines between `#region name` and its `#endregion`, without region
+   * markers. Markers may follow any line comment, as in `// #region`,
+   * `# region`, `<!-- #region -->` or `#pragma region`.
+   */
+  private extractRegion(content: string, name: string): string | null {
+    const marker =
+      /^\s*(?:(?:\/\/|\/\*|<!--|--|;|')\s*#?|#\s*)(?:pragma\s+)?(end)?region\b[ \t]*(.*?)[ \t]*(?:\*\/|-->)?[ \t]*$/;
+    const lines = content.split('\n');
+    const region: string[] = [];
+    let depth = 0;
+    for (const line of lines) {
+      const match = line.match(marker);
+      if (depth === 0) {
+        if (match && !match[1] && match[2] === name) {
+          depth = 1;
         }
-        const imgAttrs: string[] = [`src="${src}"`];
-        for (const key of ['width', 'height', 'title', 'alt']) {
-          if (attrs[key]) {
-            imgAttrs.push(`${key}="${this.escapeHtml(attrs[key])}"`);
-          }
+        continue;
+      }
+      if (match) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) {
+          return region.join('\n');
         }
-        result.push(`<img ${imgAttrs.join(' ')}>`);
-      } else if (MarkdownEngine.MARKDOWN_EXTENSIONS.has(ext)) {
-        // Markdown: recursively process imports then inline
-        const processed = await this.processImports(
-          fileContent,
-          resolvedPath,
-          new Set(visited),
-        );
-        result.push(processed);
-      } else if (ext === '.mermaid') {
-        result.push('```mermaid');
-        result.push(fileContent);
-        result.push('```');
-      } else if (ext === '.csv') {
-        // CSV → markdown table
-        result.push(this.csvToMarkdownTable(fileContent));
-      } else if (ext === '.css' || ext === '.less') {
-        result.push(`<style>${fileContent}</style>`);
-      } else if (ext === '.js' || ext === '.javascript') {
-        result.push(`<script>${fileContent}</script>`);
-      } else if (ext === '.html' || ext === '.htm') {
-        result.push(fileContent);
-      } else {
-        // Other text files → fenced code block
-        const lang = ext.replace('.', '');
-        result.push(`\`\`\`${this.extToLanguage(lang)}`);
-        result.push(fileContent);
-        result.push('```');
+        continue;
       }
+      region.push(line);
     }
+    return depth > 0 ? region.join('\n') : null;
+  }
 
-    return result.join('\n');
+  /**
+   * The block tagged `^id`, without the tag: the paragraph or list item
+   * whose last line ends in ` ^id`, or the block before a `^id` line
+   */
+  private extractBlock(markdown: string, id: string): string | null {
+    if (!/^[\w-]+$/.test(id)) {
+      return null;
+    }
+    const lines = markdown.split('\n');
+    const marker = new RegExp(`(^|\\s)\\^${id}\\s*$`);
+    const index = lines.findIndex((line) => marker.test(line));
+    if (index === -1) {
+      return null;
+    }
+
+    const line = lines[index].replace(marker, '');
+    if (/^\s*(?:[-*+]|\d+[.)])\s/.test(line)) {
+      return line;
+    }
+    // A `^id` line of its own tags the list, table or quote above it
+    let end = index + 1;
+    if (!line.trim()) {
+      end = index;
+      while (end > 0 && !lines[end - 1].trim()) {
+        end--;
+      }
+    }
+    let start = end - 1;
+    while (start > 0 && lines[start - 1].trim()) {
+      start--;
+    }
+    if (start < 0) {
+      return null;
+    }
+    const block = lines.slice(start, end);
+    if (end > index) {
+      block[block.length - 1] = line;
+    }
+    return block.join('\n').trim() ? block.join('\n') : null;
   }
 
   /**
@@ -1213,7 +1994,7 @@ export class MarkdownEngine {
   /**
    * Extract front matter from markdown
    */
-  private extractFrontMatter(content: string): {
+  extractFrontMatter(content: string): {
     frontMatter: Record<string, unknown> | null;
     content: string;
   } {
@@ -1349,6 +2130,7 @@ export class MarkdownEngine {
   private generateTOC(
     markdown: string,
     frontMatter?: Record<string, unknown> | null,
+    crossReferences?: CrossReferences,
   ): string {
     // Read TOC config from front matter
     const tocConfig = (frontMatter?.toc as Record<string, unknown>) || {};
@@ -1387,8 +2169,19 @@ export class MarkdownEngine {
       const customIdMatch = rawText.match(/\{[^}]*#([a-zA-Z0-9_-]+)[^}]*\}/);
       const customId = customIdMatch ? customIdMatch[1] : null;
 
-      // Strip {attr} syntax for display text
-      const text = rawText.replace(/\s*\{[^}]*\}\s*/g, '').trim();
+      // Strip {attr} syntax for display text, resolve @fig:x references
+      const text = rawText
+        .replace(/\s*\{[^}]*\}\s*/g, '')
+        .replace(
+          /(^|[^\w@])@((?:fig|tbl|eq):[\w:.-]*\w)/g,
+          (reference: string, before: string, label: string) => {
+            const number = crossReferences?.labels.get(label);
+            return number === undefined
+              ? reference
+              : `${before}${formatCrossReference(label, number)}`;
+          },
+        )
+        .trim();
 
       // Priority: {#custom-id} > link anchor reference > auto slug
       const linkedAnchor = linkAnchors.get(text.toLowerCase());
@@ -1439,28 +2232,377 @@ export class MarkdownEngine {
   }
 
   /**
-   * Detect whether the markdown is a presentation
-   * (`marp: true`, `slideshow`, or `presentation` in front matter).
+   * Generate a self-contained HTML page for export.
+   * Renders from source, pre-renders diagrams to SVG, inlines CSS/JS/fonts and
+   * images, and leaves out the editor-only scripts (messaging, toolbar, menus).
    */
-  private isPresentationMarkdown(markdown: string): boolean {
-    const fmMatch = markdown.match(/^---\s*\n([\s\S]*?)\n---/);
-    if (!fmMatch) return false;
-    const fm = fmMatch[1];
-    return (
-      /^marp\s*:\s*true\s*$/m.test(fm) ||
-      /^slideshow\s*:/m.test(fm) ||
-      /^presentation\s*:/m.test(fm)
+  async generateHTMLTemplateForExport(
+    options: HTMLTemplateOptions,
+  ): Promise<string> {
+    const { inputString, config: templateConfig } = options;
+    const assets = this.getRuntimeAssets({ ...options, inlineAssets: true });
+
+    // Presentations export as a standalone deck
+    if (this.isPresentationMarkdown(inputString)) {
+      return this.generateSlideDeck(inputString, {
+        sourceUri: templateConfig?.sourceUri,
+        skipRemoteImages: options.skipRemoteImages,
+      });
+    }
+
+    const { html: renderedHtml, yamlConfig } = await this.parseMD(inputString, {
+      sourceUri: templateConfig?.sourceUri,
+    });
+
+    let html = await this.diagramRenderer.renderAll(renderedHtml, {
+      mermaidTheme: this.config.mermaid.theme,
+    });
+    html = this.stripPreviewControls(html);
+    if (!options.skipRemoteImages) {
+      html = await this.inlineRemoteImages(html);
+    }
+
+    const title =
+      (typeof yamlConfig.title === 'string' && yamlConfig.title) ||
+      html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/)?.[1].replace(/<[^>]+>/g, '') ||
+      'Document';
+
+    // MathJax: the SVG build needs no font files, so it inlines cleanly.
+    // KaTeX: its styles and WOFF2 fonts, only when there is math
+    const mathScript =
+      this.config.math.renderingOption === MathRenderingOption.MathJax
+        ? assets.script('mathjax', 'es5/tex-mml-svg.js')
+        : html.includes('class="katex"')
+          ? assets.stylesheet('katex', 'dist/katex.min.css', {
+              woff2Only: true,
+            })
+          : '';
+
+    // Diagrams that could not be pre-rendered still render in the page
+    const diagramKinds = DiagramRenderer.getUnrenderedDiagramKinds(html);
+    const diagramScripts = diagramKinds.size
+      ? `${this.generateDiagramScripts(assets, diagramKinds)}
+  <script>
+    window.addEventListener('load', function() {
+      if (window.renderAllDiagrams) window.renderAllDiagrams();
+    });
+  </script>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(title.trim())}</title>
+  ${mathScript}
+  <style>
+    ${this.getExportCSS()}
+  </style>
+</head>
+<body class="vscode-body ${yamlConfig.class || ''}" data-theme="light" data-preview-theme="${this.config.preview.theme || 'github'}">
+  <div id="preview-root">
+    <div id="preview-content">
+      ${html}
+    </div>
+  </div>
+  ${diagramScripts}
+</body>
+</html>`;
+  }
+
+  /**
+   * Render markdown for e-book export: the parseMD pipeline without front
+   * matter, with diagrams pre-rendered to SVG, images embedded and imported
+   * markdown files marked by IMPORTED_FILE_MARKER. Also returns the TOC and
+   * the stylesheet the content needs, with the KaTeX styles and their WOFF2
+   * fonts only when there is math.
+   */
+  async generateEbookContent(
+    inputString: string,
+    sourceUri?: string,
+  ): Promise<{ html: string; tocHTML: string; css: string }> {
+    const { html: renderedHtml, tocHTML } = await this.parseMD(inputString, {
+      sourceUri,
+      hideFrontMatter: true,
+      markImportedFiles: true,
+    });
+
+    let html = await this.diagramRenderer.renderAll(renderedHtml, {
+      mermaidTheme: this.config.mermaid.theme,
+    });
+    html = await this.inlineRemoteImages(this.stripPreviewControls(html));
+
+    const assets = this.getRuntimeAssets({ inputString, inlineAssets: true });
+    const katexCSS = html.includes('class="katex"')
+      ? assets.inlineStylesheet('katex', 'dist/katex.min.css', {
+          woff2Only: true,
+        })
+      : null;
+    return {
+      html,
+      tocHTML,
+      css: `${katexCSS ?? ''}\n${this.getExportCSS()}`,
+    };
+  }
+
+  /**
+   * Render a document for a static site page: the export pipeline with
+   * relative image paths kept, so the site builder can copy the images.
+   * Returns the content HTML, the page title and the front matter `class`.
+   */
+  async generateSiteContent(
+    inputString: string,
+    sourceUri: string,
+  ): Promise<{ html: string; title: string; bodyClass: string }> {
+    const { html: renderedHtml, yamlConfig } = await this.parseMD(inputString, {
+      sourceUri,
+      useRelativeFilePath: true,
+    });
+
+    const html = this.stripPreviewControls(
+      await this.diagramRenderer.renderAll(renderedHtml, {
+        mermaidTheme: this.config.mermaid.theme,
+      }),
+    );
+    const heading = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/)?.[1];
+    const title =
+      (typeof yamlConfig.title === 'string' && yamlConfig.title) ||
+      (heading && this.unescapeHtml(heading.replace(/<[^>]+>/g, ''))) ||
+      path.basename(sourceUriToFsPath(sourceUri), path.extname(sourceUri));
+    return {
+      html,
+      title: title.trim(),
+      bodyClass: typeof yamlConfig.class === 'string' ? yamlConfig.class : '',
+    };
+  }
+
+  /**
+   * A static site page: rendered content next to the site navigation, styled
+   * by the shared stylesheet (see getSiteCSS) at `stylesheetHref`
+   */
+  generateSitePage(options: {
+    title: string;
+    html: string;
+    navHtml: string;
+    stylesheetHref: string;
+    bodyClass?: string;
+  }): string {
+    const assets = this.getRuntimeAssets({ inputString: '' });
+    const mathScript =
+      this.config.math.renderingOption === MathRenderingOption.MathJax
+        ? assets.script('mathjax', 'es5/tex-mml-svg.js')
+        : '';
+    // Diagrams that could not be pre-rendered still render in the page
+    const diagramKinds = DiagramRenderer.getUnrenderedDiagramKinds(
+      options.html,
+    );
+    const diagramScripts = diagramKinds.size
+      ? `${this.generateDiagramScripts(assets, diagramKinds)}
+  <script>
+    window.addEventListener('load', function() {
+      if (window.renderAllDiagrams) window.renderAllDiagrams();
+    });
+  </script>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(options.title)}</title>
+  <link rel="stylesheet" href="${options.stylesheetHref}">
+  ${mathScript}
+</head>
+<body class="vscode-body site-page ${options.bodyClass || ''}" data-theme="light" data-preview-theme="${this.config.preview.theme || 'github'}">
+  <nav class="site-nav">
+    ${options.navHtml}
+  </nav>
+  <div id="preview-root">
+    <div id="preview-content">
+      ${options.html}
+    </div>
+  </div>
+  ${diagramScripts}
+</body>
+</html>`;
+  }
+
+  /**
+   * Stylesheet shared by the pages of a static site: the export styles, the
+   * KaTeX styles with their fonts embedded, and the navigation sidebar
+   */
+  getSiteCSS(): string {
+    const assets = this.getRuntimeAssets({ inputString: '' });
+    const katexCSS =
+      this.config.math.renderingOption === MathRenderingOption.MathJax
+        ? ''
+        : assets.inlineStylesheet('katex', 'dist/katex.min.css');
+    return `${katexCSS ?? ''}
+    ${this.getExportCSS()}
+    /* Site navigation: a sidebar on wide screens, above the page otherwise */
+    .site-nav {
+      font-size: 14px;
+      line-height: 1.5;
+      padding: 12px 0;
+      border-bottom: 1px solid var(--border, #d0d7de);
+      margin-bottom: 16px;
+    }
+    .site-nav ul { list-style: none; margin: 0; padding-left: 14px; }
+    .site-nav > ul { padding-left: 0; }
+    .site-nav li { margin: 2px 0; }
+    .site-nav summary { cursor: pointer; font-weight: 600; }
+    .site-nav a { text-decoration: none; }
+    .site-nav a:hover { text-decoration: underline; }
+    .site-nav a.current { font-weight: 600; color: var(--fg); }
+    @media (min-width: 1000px) {
+      body.site-page {
+        margin-left: max(300px, calc((100vw - 900px) / 2));
+      }
+      .site-nav {
+        position: fixed;
+        top: 0;
+        bottom: 0;
+        left: 0;
+        width: 260px;
+        overflow-y: auto;
+        padding: 20px;
+        box-sizing: border-box;
+        border-bottom: none;
+        border-right: 1px solid var(--border, #d0d7de);
+      }
+    }`;
+  }
+
+  /**
+   * Render a presentation as a standalone deck: assets inlined, diagrams
+   * pre-rendered, with keyboard navigation, fragments and a speaker notes
+   * window (S). With `print`, every slide is laid out as a page at the
+   * deck's size, for PDF export. Remote images are downloaded into the deck
+   * unless printing or `skipRemoteImages` is set.
+   */
+  async generateSlideDeck(
+    inputString: string,
+    options: {
+      sourceUri?: string;
+      print?: boolean;
+      skipRemoteImages?: boolean;
+    } = {},
+  ): Promise<string> {
+    if (!this.isPresentationMarkdown(inputString)) {
+      throw new Error(
+        'Not a presentation: add `marp: true` or `presentation: true` to the front matter',
+      );
+    }
+
+    const sourceUri = options.sourceUri || '';
+    const assets = this.getRuntimeAssets({ inputString, inlineAssets: true });
+    const inlineImages = !options.print && !options.skipRemoteImages;
+    const sourceExt = sourceUri
+      ? path.extname(sourceUriToFsPath(sourceUri)).toLowerCase()
+      : '';
+    // Same engine choice as the preview: Reveal.js for .mdx, Marp otherwise
+    if (sourceExt === '.mdx' || !MarpClass) {
+      return this.generateRevealDeck(
+        inputString,
+        sourceUri,
+        assets,
+        !!options.print,
+        inlineImages,
+      );
+    }
+    return this.generateMarpDeck(inputString, sourceUri, assets, inlineImages);
+  }
+
+  /**
+   * Split a presentation into slides with their `<!-- .slide: -->`
+   * directives and speaker notes, for exporters that build decks from
+   * markdown. Marp slides come from Marp's own parser; their background
+   * directives and `![bg]` images become Reveal-style background attributes.
+   * The size is the deck's slide size in pixels.
+   */
+  getSlides(
+    markdown: string,
+    sourceUri = '',
+  ): {
+    frontMatter: Record<string, unknown> | null;
+    size: { width: number; height: number };
+    slides: Array<{ content: string; directives: string; notes: string }>;
+  } {
+    if (!this.isPresentationMarkdown(markdown)) {
+      throw new Error(
+        'Not a presentation: add `marp: true` or `presentation: true` to the front matter',
+      );
+    }
+
+    const sourceExt = sourceUri
+      ? path.extname(sourceUriToFsPath(sourceUri)).toLowerCase()
+      : '';
+    // Same engine choice as the preview: Reveal.js for .mdx, Marp otherwise
+    if (sourceExt === '.mdx' || !MarpClass) {
+      const { frontMatter, slides } = this.splitMarkdownIntoSlides(markdown);
+      const fm = frontMatter || {};
+      return {
+        frontMatter,
+        size: {
+          width: typeof fm.width === 'number' ? fm.width : 960,
+          height: typeof fm.height === 'number' ? fm.height : 700,
+        },
+        slides,
+      };
+    }
+
+    const { frontMatter } = this.extractFrontMatter(markdown);
+    return {
+      frontMatter,
+      size:
+        frontMatter?.size === '4:3'
+          ? { width: 960, height: 720 }
+          : { width: 1280, height: 720 },
+      slides: this.splitMarpSlides(markdown, !!frontMatter),
+    };
+  }
+
+  /**
+   * Stylesheet of exported pages: the preview styles without the controls
+   * that need the preview scripts
+   */
+  private getExportCSS(): string {
+    return `
+    ${this.getThemeCSS()}
+    ${KatexRenderer.getCss()}
+    ${this.getBaseCSS()}
+    ${this.getPrintCSS()}
+    /* Export: hover controls need the preview scripts */
+    .diagram-controls, .math-controls, .code-chunk-controls,
+    .code-copy-btn, .code-block-controls { display: none !important; }`;
+  }
+
+  /**
+   * Detect whether the markdown is a presentation
+   * (`marp: true`, `slideshow`, or `presentation` in front matter).
+   */
+  isPresentationMarkdown(markdown: string): boolean {
+    const fmMatch = markdown.match(/^---\s*\n([\s\S]*?)\n---/);
+    if (!fmMatch) return false;
+    const fm = fmMatch[1];
+    return (
+      /^marp\s*:\s*true\s*$/m.test(fm) ||
+      /^slideshow\s*:/m.test(fm) ||
+      /^presentation\s*:/m.test(fm)
     );
   }
 
   /**
    * Split markdown into slides for Reveal.js presentation.
    * Splits on `---` (horizontal rule) while protecting fenced code blocks.
-   * Parses `<!-- .slide: key="value" -->` directives into section attributes.
+   * Parses `<!-- .slide: key="value" -->` directives into section attributes,
+   * and takes everything after a `Note:` line as the slide's speaker notes.
    */
   private splitMarkdownIntoSlides(markdown: string): {
     frontMatter: Record<string, unknown> | null;
-    slides: Array<{ content: string; directives: string }>;
+    slides: Array<{ content: string; directives: string; notes: string }>;
   } {
     const { frontMatter, content } = this.extractFrontMatter(markdown);
 
@@ -1478,17 +2620,27 @@ export class MarkdownEngine {
     // Split by --- on its own line
     const rawSlides = protectedContent.split(/^---\s*$/m);
 
-    // Restore code blocks and parse directives
-    const slides: Array<{ content: string; directives: string }> = [];
-    for (const raw of rawSlides) {
-      let slideContent = raw;
-      // Restore placeholders
+    // Restore placeholders
+    const restoreCodeBlocks = (text: string) => {
       for (let i = 0; i < codeBlockPlaceholders.length; i++) {
-        slideContent = slideContent.replace(
-          `%%CODE_BLOCK_${i}%%`,
-          codeBlockPlaceholders[i],
-        );
+        text = text.replace(`%%CODE_BLOCK_${i}%%`, codeBlockPlaceholders[i]);
       }
+      return text;
+    };
+
+    // Restore code blocks and parse directives
+    const slides: Array<{
+      content: string;
+      directives: string;
+      notes: string;
+    }> = [];
+    for (const raw of rawSlides) {
+      const notesMatch = raw.match(/^notes?:[ \t]*/im);
+      const notesIndex = notesMatch?.index ?? raw.length;
+      let slideContent = restoreCodeBlocks(raw.slice(0, notesIndex));
+      const notes = restoreCodeBlocks(
+        raw.slice(notesIndex + (notesMatch?.[0].length ?? 0)),
+      );
 
       slideContent = slideContent.trim();
       if (!slideContent) continue;
@@ -1506,22 +2658,102 @@ export class MarkdownEngine {
         },
       );
 
-      slides.push({ content: slideContent.trim(), directives });
+      slides.push({
+        content: slideContent.trim(),
+        directives,
+        notes: notes.trim(),
+      });
     }
 
     return { frontMatter, slides };
   }
 
   /**
-   * Generate a Reveal.js presentation template for .mdx files.
+   * Split a Marp presentation along the slides of Marp's token stream.
+   * Non-directive comments are the speaker notes; `backgroundColor`,
+   * `backgroundImage` and `![bg](...)` become `data-background-*` attributes.
+   */
+  private splitMarpSlides(
+    markdown: string,
+    hasFrontMatter: boolean,
+  ): Array<{ content: string; directives: string; notes: string }> {
+    const lines = markdown.split('\n');
+    const tokens = new MarpClass!({ html: true }).markdown.parse(markdown, {});
+    const starts: Array<{ index: number; line: number }> = [];
+    tokens.forEach((token, index) => {
+      if (token.type === 'marpit_slide_open' && token.map) {
+        // The first slide starts after the front matter
+        const line =
+          starts.length === 0 && hasFrontMatter ? token.map[1] : token.map[0];
+        starts.push({ index, line });
+      }
+    });
+
+    return starts.map(({ index, line }, i) => {
+      const next = starts[i + 1];
+      const slideTokens = tokens.slice(index, next?.index ?? tokens.length);
+      const marpDirectives = (tokens[index].meta?.marpitDirectives ??
+        {}) as Record<string, string>;
+
+      const notes = slideTokens
+        .filter(
+          (token) =>
+            token.type === 'marpit_comment' && !token.meta?.marpitCommentParsed,
+        )
+        .map((token) => token.content.trim())
+        .join('\n\n');
+
+      // `![bg]` images take precedence over the background directives
+      const background: Record<string, string> = {};
+      const bgImage: Record<string, string> = {};
+      if (marpDirectives.backgroundColor) {
+        background.color = marpDirectives.backgroundColor;
+      }
+      const imageUrl = marpDirectives.backgroundImage?.match(
+        /url\(\s*['"]?([^'")]+)['"]?\s*\)/,
+      );
+      if (imageUrl) {
+        background.image = imageUrl[1];
+      }
+
+      const content = lines
+        .slice(line, next?.line ?? lines.length)
+        .join('\n')
+        // The slide separator
+        .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})[ \t]*\n/, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        // `![bg](image)` or the `![bg](color)` shorthand
+        .replace(
+          /!\[bg\b[^\]]*\]\(\s*([^)\s]+)[^)]*\)/g,
+          (_match, url: string) => {
+            if (/^(?:#[0-9a-f]{3,8}|rgba?\(.*|[a-z]+)$/i.test(url)) {
+              bgImage.color ??= url;
+            } else {
+              bgImage.image ??= url;
+            }
+            return '';
+          },
+        )
+        .trim();
+
+      const directives = Object.entries({ ...background, ...bgImage })
+        .map(([key, value]) => `data-background-${key}="${value}"`)
+        .join(' ');
+      return { content, directives, notes };
+    });
+  }
+
+  /**
+   * Render the slides of a Reveal.js presentation as `<section>` elements,
+   * with the presentation settings read from front matter.
    * Each slide is processed independently through the full MDX pipeline:
    * imports → MDX → markdown-it → image paths → callouts → KaTeX → Shiki.
    */
-  private async generateRevealTemplate(
+  private async renderRevealSlides(
     markdown: string,
-    templateConfig?: HTMLTemplateOptions['config'],
-  ): Promise<string> {
-    const jsdelivr = this.config.misc.jsdelivrCdnHost || 'cdn.jsdelivr.net';
+    sourceUri: string,
+    dependencies: Map<string, DocumentDependency>,
+  ): Promise<{ slidesHtml: string; settings: RevealSettings }> {
     const { frontMatter, slides } = this.splitMarkdownIntoSlides(markdown);
 
     // Valid Reveal.js 5.x theme names
@@ -1546,14 +2778,15 @@ export class MarkdownEngine {
     const progress = fm.progress !== false;
     const center = fm.center !== false;
     const slideNumber = !!fm.slideNumber;
+    const width = typeof fm.width === 'number' ? fm.width : 960;
+    const height = typeof fm.height === 'number' ? fm.height : 700;
 
     // Get source file path for import resolution and image paths
-    const sourceUri = templateConfig?.sourceUri || '';
     let sourceFilePath = '';
     let sourceDir = '';
     if (sourceUri) {
       try {
-        sourceFilePath = vscode.Uri.parse(sourceUri).fsPath;
+        sourceFilePath = sourceUriToFsPath(sourceUri);
         sourceDir = path.dirname(sourceFilePath);
       } catch {
         // ignore
@@ -1561,6 +2794,7 @@ export class MarkdownEngine {
     }
 
     // Process each slide through the full pipeline
+    const containers = this.getContainerTypes(fm);
     const slideHtmlParts: string[] = [];
     for (const slide of slides) {
       let slideContent = slide.content;
@@ -1571,6 +2805,7 @@ export class MarkdownEngine {
           slideContent = await this.processImports(
             slideContent,
             sourceFilePath,
+            dependencies,
           );
         } catch {
           // continue with unprocessed content
@@ -1587,7 +2822,9 @@ export class MarkdownEngine {
       }
 
       // 3. Render markdown to HTML via markdown-it
-      let slideHtml = this.parser.render(slideContent);
+      let slideHtml = this.applyElementDirectives(
+        this.parser.render(slideContent, { containers }),
+      );
 
       // 4. Resolve image paths to data URIs
       if (sourceDir) {
@@ -1618,6 +2855,11 @@ export class MarkdownEngine {
         },
       );
 
+      // Speaker notes, shown by the notes plugin
+      if (slide.notes) {
+        slideHtml += `\n<aside class="notes">${this.parser.render(slide.notes, { containers })}</aside>`;
+      }
+
       // Build <section> with optional directives
       const sectionAttrs = slide.directives
         ? ` ${slide.directives}`
@@ -1629,6 +2871,39 @@ export class MarkdownEngine {
 
     const slidesHtml = slideHtmlParts.join('\n');
 
+    return {
+      slidesHtml,
+      settings: {
+        revealTheme,
+        transition,
+        controls,
+        progress,
+        center,
+        slideNumber,
+        width,
+        height,
+      },
+    };
+  }
+
+  /**
+   * Generate a Reveal.js presentation template for .mdx files.
+   */
+  private async generateRevealTemplate(
+    markdown: string,
+    templateConfig: HTMLTemplateOptions['config'],
+    assets: RuntimeAssets,
+  ): Promise<string> {
+    const sourceUri = templateConfig?.sourceUri || '';
+    const dependencies = new Map<string, DocumentDependency>();
+    const { slidesHtml, settings } = await this.renderRevealSlides(
+      markdown,
+      sourceUri,
+      dependencies,
+    );
+    this.dependencies = dependencies;
+    const { revealTheme, transition, progress, center, slideNumber } = settings;
+
     return `<!DOCTYPE html>
 <html>
 <head>
@@ -1636,10 +2911,10 @@ export class MarkdownEngine {
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta http-equiv="Content-Security-Policy" content="default-src 'self' https: data:; script-src 'self' 'unsafe-inline' 'unsafe-eval' https:; style-src 'self' 'unsafe-inline' https:; img-src 'self' https: data: blob:; font-src 'self' https: data:; connect-src 'self' https:;">
   <title>Reveal.js Presentation</title>
-  <link rel="stylesheet" href="https://${jsdelivr}/npm/reveal.js@5/dist/reset.css">
-  <link rel="stylesheet" href="https://${jsdelivr}/npm/reveal.js@5/dist/reveal.css">
-  <link rel="stylesheet" href="https://${jsdelivr}/npm/reveal.js@5/dist/theme/${revealTheme}.css">
-  <link rel="stylesheet" href="${KatexRenderer.getCssUrl()}">
+  ${assets.stylesheet('reveal.js', 'dist/reset.css')}
+  ${assets.stylesheet('reveal.js', 'dist/reveal.css')}
+  ${assets.stylesheet('reveal.js', `dist/theme/${revealTheme}.css`)}
+  ${assets.stylesheet('katex', 'dist/katex.min.css')}
   <style>
     ${KatexRenderer.getCss()}
 
@@ -2010,9 +3285,9 @@ export class MarkdownEngine {
 ${slidesHtml}
     </div>
   </div>
-  ${this.generateDiagramScripts()}
-  <script src="https://${jsdelivr}/npm/reveal.js@5/dist/reveal.js"></script>
-  <script src="https://${jsdelivr}/npm/reveal.js@5/plugin/notes/notes.js"></script>
+  ${this.generateDiagramScripts(assets)}
+  ${assets.script('reveal.js', 'dist/reveal.js')}
+  ${assets.script('reveal.js', 'plugin/notes/notes.js')}
   <script>
     (function() {
       // VS Code API
@@ -2152,16 +3427,16 @@ ${slidesHtml}
   }
 
   /**
-   * Render a Marp presentation using @marp-team/marp-core.
-   * Marp Core handles all directives (theme, paginate, headingDivider, style,
-   * backgroundColor, etc.) natively via its own markdown-it pipeline.
+   * Render a Marp presentation with @marp-team/marp-core: one
+   * `<svg data-marpit-svg>` per slide, the theme CSS and each slide's
+   * comments (speaker notes).
    */
-  private generateMarpTemplate(
-    markdown: string,
-    templateConfig?: HTMLTemplateOptions['config'],
-  ): string {
-    const jsdelivr = this.config.misc.jsdelivrCdnHost || 'cdn.jsdelivr.net';
-
+  private renderMarpSlides(markdown: string): {
+    html: string;
+    css: string;
+    comments: string[][];
+    hasRecharts: boolean;
+  } {
     // Ensure `marp: true` is in front matter so Marp Core activates slide mode.
     // For `slideshow:` or `presentation:` documents, inject it.
     let marpInput = markdown;
@@ -2189,7 +3464,21 @@ ${slidesHtml}
       slug: true,
     });
 
-    const { html, css } = marp.render(marpInput);
+    const { html, css, comments } = marp.render(marpInput);
+    return { html, css, comments, hasRecharts };
+  }
+
+  /**
+   * Render a Marp presentation using @marp-team/marp-core.
+   * Marp Core handles all directives (theme, paginate, headingDivider, style,
+   * backgroundColor, etc.) natively via its own markdown-it pipeline.
+   */
+  private generateMarpTemplate(
+    markdown: string,
+    templateConfig: HTMLTemplateOptions['config'],
+    assets: RuntimeAssets,
+  ): string {
+    const { html, css, hasRecharts } = this.renderMarpSlides(markdown);
 
     // Conditional recharts CSS
     const rechartsCSS = hasRecharts
@@ -2217,11 +3506,11 @@ ${slidesHtml}
     const rechartsCDN = hasRecharts
       ? `
   <!-- React, ReactDOM, react-is for Recharts v3 -->
-  <script src="https://${jsdelivr}/npm/react@18/umd/react.production.min.js"></script>
-  <script src="https://${jsdelivr}/npm/react-dom@18/umd/react-dom.production.min.js"></script>
-  <script src="https://${jsdelivr}/npm/react-is@18/umd/react-is.production.min.js"></script>
+  ${assets.script('react', 'umd/react.production.min.js')}
+  ${assets.script('react-dom', 'umd/react-dom.production.min.js')}
+  ${assets.script('react-is', 'umd/react-is.production.min.js')}
   <!-- Recharts v3 -->
-  <script src="https://${jsdelivr}/npm/recharts@3/umd/Recharts.js"></script>`
+  ${assets.script('recharts', 'umd/Recharts.js')}`
       : '';
 
     // Conditional recharts render script
@@ -2510,7 +3799,7 @@ ${slidesHtml}
     <button id="nav-next" title="Next slide">&#9654;</button>
   </div>
   ${html}
-  <script src="https://${jsdelivr}/npm/@marp-team/marp-core/lib/browser.js"></script>${rechartsCDN}
+  ${assets.script('@marp-team/marp-core', 'lib/browser.js')}${rechartsCDN}
   <script>
     (function() {
       // VS Code API
@@ -2530,60 +3819,370 @@ ${slidesHtml}
 
       // ── Play mode ──
       var slides = Array.from(document.querySelectorAll('.marpit > svg[data-marpit-svg]'));
-      var current = 0;
+      var current = 0;
+      var counter = document.getElementById('slide-counter');
+
+      function showSlide(n) {
+        current = Math.max(0, Math.min(n, slides.length - 1));
+        slides.forEach(function(s, i) {
+          s.classList.toggle('active-slide', i === current);
+        });
+        counter.textContent = (current + 1) + ' / ' + slides.length;
+      }
+
+      function enterPlay() {
+        if (!slides.length) return;
+        document.body.classList.add('play-mode');
+        showSlide(0);
+      }
+
+      function exitPlay() {
+        document.body.classList.remove('play-mode');
+        slides.forEach(function(s) { s.classList.remove('active-slide'); });
+      }
+
+      function isPlaying() { return document.body.classList.contains('play-mode'); }
+
+      document.getElementById('marp-play-btn').addEventListener('click', enterPlay);
+      document.getElementById('nav-prev').addEventListener('click', function() { showSlide(current - 1); });
+      document.getElementById('nav-next').addEventListener('click', function() { showSlide(current + 1); });
+      document.getElementById('nav-exit').addEventListener('click', exitPlay);
+
+      // Show nav briefly on mouse move then auto-hide
+      var navTimer;
+      document.addEventListener('mousemove', function() {
+        if (!isPlaying()) return;
+        document.body.classList.add('nav-visible');
+        clearTimeout(navTimer);
+        navTimer = setTimeout(function() { document.body.classList.remove('nav-visible'); }, 2000);
+      });
+
+      document.addEventListener('keydown', function(e) {
+        if (!isPlaying()) return;
+        switch (e.key) {
+          case 'Escape':       exitPlay(); break;
+          case 'ArrowRight':
+          case 'ArrowDown':
+          case ' ':
+          case 'PageDown':     e.preventDefault(); showSlide(current + 1); break;
+          case 'ArrowLeft':
+          case 'ArrowUp':
+          case 'PageUp':       e.preventDefault(); showSlide(current - 1); break;
+          case 'Home':         e.preventDefault(); showSlide(0); break;
+          case 'End':          e.preventDefault(); showSlide(slides.length - 1); break;
+        }
+      });
+      ${rechartsScript}
+    })();
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Standalone Reveal.js deck for export (see generateSlideDeck). Fragments
+   * and speaker notes use Reveal.js's own navigation and notes plugin.
+   */
+  private async generateRevealDeck(
+    markdown: string,
+    sourceUri: string,
+    assets: RuntimeAssets,
+    print: boolean,
+    inlineImages: boolean,
+  ): Promise<string> {
+    const { slidesHtml: renderedSlides, settings } =
+      await this.renderRevealSlides(markdown, sourceUri, new Map());
+    let slidesHtml = await this.diagramRenderer.renderAll(renderedSlides, {
+      mermaidTheme: this.config.mermaid.theme,
+    });
+    slidesHtml = this.stripPreviewControls(slidesHtml);
+    if (inlineImages) {
+      slidesHtml = await this.inlineRemoteImages(slidesHtml);
+    }
+
+    const { frontMatter } = this.extractFrontMatter(markdown);
+    const title =
+      typeof frontMatter?.title === 'string'
+        ? frontMatter.title
+        : 'Presentation';
+    const diagramKinds = DiagramRenderer.getUnrenderedDiagramKinds(slidesHtml);
+    const diagramScripts = diagramKinds.size
+      ? this.generateDiagramScripts(assets, diagramKinds)
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(title)}</title>
+  ${assets.stylesheet('reveal.js', 'dist/reset.css')}
+  ${assets.stylesheet('reveal.js', 'dist/reveal.css')}
+  ${assets.stylesheet('reveal.js', `dist/theme/${settings.revealTheme}.css`)}
+  ${assets.stylesheet('katex', 'dist/katex.min.css')}
+  <style>
+    ${KatexRenderer.getCss()}
+    .reveal section { text-align: left; }
+    .reveal section h1, .reveal section h2,
+    .reveal section h3, .reveal section h4 { text-transform: none; }
+    .reveal .diagram-controls, .reveal .math-controls, .reveal .code-copy-btn,
+    .reveal .code-block-container .code-header { display: none !important; }
+    .reveal section .diagram-container {
+      display: flex;
+      justify-content: center;
+      margin: 0.4em 0;
+    }
+    .reveal section .mermaid svg, .reveal section .graphviz svg,
+    .reveal section .vega svg, .reveal section .vega-lite svg {
+      max-width: 90%;
+      max-height: ${Math.round(settings.height * 0.5)}px;
+      height: auto;
+    }
+    .reveal section img { max-height: ${Math.round(settings.height * 0.55)}px; }
+    .reveal section pre, .reveal section blockquote { box-shadow: none; }
+  </style>
+</head>
+<body${print ? ' data-print-pending' : ''}>
+  <div class="reveal">
+    <div class="slides">
+${slidesHtml}
+    </div>
+  </div>
+  ${diagramScripts}
+  ${assets.script('reveal.js', 'dist/reveal.js')}
+  ${assets.script('reveal.js', 'plugin/notes/notes.js')}
+  <script>
+    Reveal.initialize({
+      hash: true,
+      controls: ${settings.controls},
+      progress: ${settings.progress},
+      center: ${settings.center},
+      slideNumber: ${settings.slideNumber},
+      transition: ${JSON.stringify(settings.transition)},
+      width: ${settings.width},
+      height: ${settings.height},
+      view: ${print ? "'print'" : 'null'},
+      pdfSeparateFragments: false,
+      plugins: [RevealNotes]
+    }).then(function() {
+      if (window.renderAllDiagrams) window.renderAllDiagrams();
+      document.body.removeAttribute('data-print-pending');
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Standalone Marp deck for export (see generateSlideDeck). Fragmented
+   * lists are revealed one item at a time, and slide comments are the
+   * speaker notes.
+   */
+  private async generateMarpDeck(
+    markdown: string,
+    sourceUri: string,
+    assets: RuntimeAssets,
+    inlineImages: boolean,
+  ): Promise<string> {
+    const { html: marpHtml, css, comments } = this.renderMarpSlides(markdown);
+    let html = sourceUri
+      ? this.resolveImagePaths(
+          marpHtml,
+          path.dirname(sourceUriToFsPath(sourceUri)),
+        )
+      : marpHtml;
+    if (inlineImages) {
+      html = await this.inlineRemoteImages(html);
+    }
+
+    // Slide size, from the viewBox Marp gives every slide
+    const [, width = '1280', height = '720'] =
+      html.match(/data-marpit-svg[^>]*viewBox="0 0 (\d+) (\d+)"/) ?? [];
+    const { frontMatter } = this.extractFrontMatter(markdown);
+    const title =
+      typeof frontMatter?.title === 'string'
+        ? frontMatter.title
+        : 'Presentation';
+    const notes = comments.map((slideComments) => slideComments.join('\n\n'));
+    const diagramKinds = DiagramRenderer.getUnrenderedDiagramKinds(html);
+    const diagramScripts = diagramKinds.size
+      ? `${this.generateDiagramScripts(assets, diagramKinds)}
+  <script>
+    window.addEventListener('load', function() {
+      if (window.renderAllDiagrams) window.renderAllDiagrams();
+    });
+  </script>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(title)}</title>
+  <style>
+    ${css}
+    html, body {
+      margin: 0;
+      height: 100%;
+      overflow: hidden;
+      background: #000;
+    }
+    .marpit > svg[data-marpit-svg] {
+      display: none;
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+    }
+    .marpit > svg[data-marpit-svg].active-slide { display: block; }
+    .marpit [data-marpit-fragment]:not(.shown-fragment) { visibility: hidden; }
+    #slide-counter {
+      position: fixed;
+      right: 16px;
+      bottom: 12px;
+      color: rgba(255,255,255,0.6);
+      font: 13px/1 sans-serif;
+      opacity: 0;
+      transition: opacity 0.25s;
+    }
+    body.nav-visible #slide-counter { opacity: 1; }
+
+    @media print {
+      @page { size: ${width}px ${height}px; margin: 0; }
+      html, body { height: auto; overflow: visible; background: none; }
+      .marpit > svg[data-marpit-svg] {
+        display: block;
+        position: static;
+        width: ${width}px;
+        height: ${height}px;
+        break-after: page;
+      }
+      .marpit [data-marpit-fragment] { visibility: visible !important; }
+      #slide-counter { display: none; }
+    }
+  </style>
+</head>
+<body>
+  ${html}
+  <div id="slide-counter"></div>
+  <script type="application/json" id="speaker-notes">${JSON.stringify(notes).replace(/</g, '\\u003c')}</script>
+  ${assets.script('@marp-team/marp-core', 'lib/browser.js')}
+  ${diagramScripts}
+  <script>
+    (function() {
+      var slides = Array.from(document.querySelectorAll('.marpit > svg[data-marpit-svg]'));
+      var notes = JSON.parse(document.getElementById('speaker-notes').textContent);
       var counter = document.getElementById('slide-counter');
+      var current = 0;
+      var step = 0;
+      var notesWindow = null;
+      var startTime = Date.now();
 
-      function showSlide(n) {
+      function fragments(n) {
+        return slides[n] ? slides[n].querySelectorAll('[data-marpit-fragment]') : [];
+      }
+
+      // Show slide n with its first s fragments revealed
+      function show(n, s) {
         current = Math.max(0, Math.min(n, slides.length - 1));
-        slides.forEach(function(s, i) {
-          s.classList.toggle('active-slide', i === current);
+        var list = fragments(current);
+        step = Math.max(0, Math.min(s, list.length));
+        slides.forEach(function(slide, i) {
+          slide.classList.toggle('active-slide', i === current);
+        });
+        Array.prototype.forEach.call(list, function(el, i) {
+          el.classList.toggle('shown-fragment', i < step);
         });
         counter.textContent = (current + 1) + ' / ' + slides.length;
+        history.replaceState(null, '', '#' + (current + 1));
+        updateNotes();
+      }
+
+      function next() {
+        if (step < fragments(current).length) show(current, step + 1);
+        else if (current < slides.length - 1) show(current + 1, 0);
+      }
+
+      function prev() {
+        if (step > 0) show(current, step - 1);
+        else if (current > 0) show(current - 1, fragments(current - 1).length);
+      }
+
+      // ── Speaker notes window: notes, next slide and elapsed time ──
+      function openNotes() {
+        if (notesWindow && !notesWindow.closed) { notesWindow.focus(); return; }
+        notesWindow = window.open('', 'speaker-notes', 'width=960,height=640');
+        if (!notesWindow) return;
+        var doc = notesWindow.document;
+        doc.open();
+        doc.write('<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Speaker notes</title>' +
+          document.querySelector('style').outerHTML +
+          '<style>html,body{overflow:auto;background:#1e1e1e;color:#ddd;font:16px/1.5 sans-serif;}' +
+          'body{display:grid;grid-template-columns:3fr 2fr;gap:16px;padding:16px;box-sizing:border-box;}' +
+          '#notes{white-space:pre-wrap;font-size:20px;}#next{position:relative;aspect-ratio:${width}/${height};background:#000;}' +
+          '#next .marpit>svg{display:block;}#next [data-marpit-fragment]{visibility:visible;}' +
+          'h2{margin:0 0 8px;font-size:14px;color:#999;font-weight:normal;}</style></head><body>' +
+          '<div><h2 id="status"></h2><div id="notes"></div></div>' +
+          '<div><h2>Next</h2><div id="next"></div></div></body></html>');
+        doc.close();
+        doc.addEventListener('keydown', onKeyDown);
+        updateNotes();
+      }
+
+      function updateNotes() {
+        if (!notesWindow || notesWindow.closed) return;
+        var doc = notesWindow.document;
+        var elapsed = Math.floor((Date.now() - startTime) / 1000);
+        var time = Math.floor(elapsed / 60) + ':' + ('0' + (elapsed % 60)).slice(-2);
+        doc.getElementById('status').textContent =
+          'Slide ' + (current + 1) + ' / ' + slides.length + ' \u00b7 ' + time;
+        doc.getElementById('notes').textContent = notes[current] || '';
+        var nextSlide = doc.getElementById('next');
+        nextSlide.innerHTML = '';
+        if (slides[current + 1]) {
+          var container = doc.createElement('div');
+          container.className = 'marpit';
+          container.appendChild(slides[current + 1].cloneNode(true));
+          nextSlide.appendChild(container);
+        }
       }
+      setInterval(updateNotes, 1000);
 
-      function enterPlay() {
-        if (!slides.length) return;
-        document.body.classList.add('play-mode');
-        showSlide(0);
-      }
-
-      function exitPlay() {
-        document.body.classList.remove('play-mode');
-        slides.forEach(function(s) { s.classList.remove('active-slide'); });
+      function onKeyDown(e) {
+        switch (e.key) {
+          case 'ArrowRight':
+          case 'ArrowDown':
+          case ' ':
+          case 'Enter':
+          case 'PageDown':  e.preventDefault(); next(); break;
+          case 'ArrowLeft':
+          case 'ArrowUp':
+          case 'Backspace':
+          case 'PageUp':    e.preventDefault(); prev(); break;
+          case 'Home':      e.preventDefault(); show(0, 0); break;
+          case 'End':       e.preventDefault(); show(slides.length - 1, 0); break;
+          case 's':
+          case 'S':         openNotes(); break;
+          case 'f':
+          case 'F':
+            if (document.fullscreenElement) document.exitFullscreen();
+            else document.documentElement.requestFullscreen();
+            break;
+        }
       }
+      document.addEventListener('keydown', onKeyDown);
+      document.addEventListener('click', next);
 
-      function isPlaying() { return document.body.classList.contains('play-mode'); }
-
-      document.getElementById('marp-play-btn').addEventListener('click', enterPlay);
-      document.getElementById('nav-prev').addEventListener('click', function() { showSlide(current - 1); });
-      document.getElementById('nav-next').addEventListener('click', function() { showSlide(current + 1); });
-      document.getElementById('nav-exit').addEventListener('click', exitPlay);
-
-      // Show nav briefly on mouse move then auto-hide
+      // Show the counter briefly on mouse move
       var navTimer;
       document.addEventListener('mousemove', function() {
-        if (!isPlaying()) return;
         document.body.classList.add('nav-visible');
         clearTimeout(navTimer);
         navTimer = setTimeout(function() { document.body.classList.remove('nav-visible'); }, 2000);
       });
 
-      document.addEventListener('keydown', function(e) {
-        if (!isPlaying()) return;
-        switch (e.key) {
-          case 'Escape':       exitPlay(); break;
-          case 'ArrowRight':
-          case 'ArrowDown':
-          case ' ':
-          case 'PageDown':     e.preventDefault(); showSlide(current + 1); break;
-          case 'ArrowLeft':
-          case 'ArrowUp':
-          case 'PageUp':       e.preventDefault(); showSlide(current - 1); break;
-          case 'Home':         e.preventDefault(); showSlide(0); break;
-          case 'End':          e.preventDefault(); showSlide(slides.length - 1); break;
-        }
-      });
-      ${rechartsScript}
+      show((parseInt(location.hash.slice(1), 10) || 1) - 1, 0);
     })();
   </script>
 </body>
@@ -2663,6 +4262,12 @@ ${slidesHtml}
       .callout-icon {
         font-style: normal;
       }
+      /* ::: containers; declared types without a colour are grey */
+      .custom-container { border-left-color: #9e9e9e; background-color: rgba(158,158,158,0.1); }
+      .custom-container > :last-child { margin-bottom: 0; }
+      details.custom-container > summary { cursor: pointer; }
+      details.custom-container > summary .callout-title { display: inline-flex; }
+      details.custom-container[open] > summary { margin-bottom: 0.5em; }
       .callout-note, .callout-info { border-left-color: #448aff; background-color: rgba(68,138,255,0.1); }
       .callout-tip, .callout-success { border-left-color: #00c853; background-color: rgba(0,200,83,0.1); }
       .callout-warning, .callout-caution { border-left-color: #ff9100; background-color: rgba(255,145,0,0.1); }
@@ -2748,6 +4353,69 @@ ${slidesHtml}
         margin-left: 276px;
       }
 
+      /* Numbered figures, tables and cross-references */
+      figure.figure {
+        margin: 1em 0;
+        text-align: center;
+      }
+      figure.figure figcaption,
+      table caption {
+        color: var(--fg-muted);
+        font-size: 0.9em;
+        margin: 0.5em 0;
+      }
+      .cross-ref-missing {
+        color: #c00;
+        background: rgba(204, 0, 0, 0.1);
+        border-radius: 3px;
+      }
+
+      /* Citations and the reference list */
+      .citation {
+        cursor: help;
+      }
+      .citation-missing {
+        color: #c00;
+      }
+      .references .csl-entry {
+        padding-left: 2em;
+        text-indent: -2em;
+        margin-bottom: 0.5em;
+      }
+
+      /* Definition lists, abbreviations and glossary terms */
+      dt {
+        font-weight: 600;
+        margin-top: 0.5em;
+      }
+      dd {
+        margin-left: 2em;
+        margin-bottom: 0.5em;
+      }
+      abbr[title],
+      .glossary-term {
+        color: inherit;
+        text-decoration: underline dotted;
+        cursor: help;
+      }
+
+      /* ![[note]] transclusions */
+      .transclusion {
+        border-left: 3px solid var(--border);
+        padding-left: 1em;
+        margin: 1em 0;
+      }
+      .transclusion-source {
+        font-size: 0.85em;
+        margin-bottom: 0.5em;
+      }
+      .transclusion-source a {
+        color: var(--fg-muted);
+      }
+      .transclusion > :last-child {
+        margin-bottom: 0;
+      }
+
       /* Inline [TOC] */
       .table-of-contents {
         background: var(--bg-secondary);
@@ -2935,7 +4603,9 @@ ${slidesHtml}
         opacity: 1;
         pointer-events: auto;
       }
-      .code-chunk-run-btn {
+      .code-chunk-run-btn,
+      .code-chunk-stop-btn,
+      .code-chunk-session-btn {
         display: inline-flex;
         align-items: center;
         gap: 4px;
@@ -2948,12 +4618,24 @@ ${slidesHtml}
         cursor: pointer;
         font-family: inherit;
       }
-      .code-chunk-run-btn:hover {
+      .code-chunk-run-btn:hover,
+      .code-chunk-stop-btn:hover,
+      .code-chunk-session-btn:hover {
         background: var(--bg-secondary);
       }
-      .code-chunk-run-btn:active {
+      .code-chunk-run-btn:active,
+      .code-chunk-stop-btn:active,
+      .code-chunk-session-btn:active {
         background: var(--bg-tertiary);
       }
+      /* Stop takes the place of Run while the chunk runs */
+      .code-chunk-stop-btn,
+      .code-chunk-controls.running .code-chunk-run-btn {
+        display: none;
+      }
+      .code-chunk-controls.running .code-chunk-stop-btn {
+        display: inline-flex;
+      }
       .code-chunk-status {
         font-size: 12px;
         color: var(--fg-muted);
@@ -2962,22 +4644,47 @@ ${slidesHtml}
         content: 'Running...';
         animation: code-chunk-pulse 1.5s ease-in-out infinite;
       }
+      .code-chunk-status.running[data-elapsed]::after {
+        content: 'Running ' attr(data-elapsed);
+      }
       .code-chunk-status.success {
         color: #28a745;
       }
       .code-chunk-status.success::after {
         content: 'Done';
       }
+      .code-chunk-status.success[data-elapsed]::after {
+        content: 'Done in ' attr(data-elapsed);
+      }
       .code-chunk-status.error {
         color: #d73a49;
       }
       .code-chunk-status.error::after {
         content: 'Error';
       }
+      .code-chunk-status.error[data-elapsed]::after {
+        content: 'Error after ' attr(data-elapsed);
+      }
       @keyframes code-chunk-pulse {
         0%, 100% { opacity: 1; }
         50% { opacity: 0.4; }
       }
+      /* Indeterminate progress bar along the top of a running chunk */
+      .code-chunk.running::before {
+        content: '';
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 30%;
+        height: 2px;
+        z-index: 2;
+        background: var(--link, #0366d6);
+        animation: code-chunk-progress 1.2s ease-in-out infinite;
+      }
+      @keyframes code-chunk-progress {
+        0% { transform: translateX(-100%); }
+        100% { transform: translateX(333%); }
+      }
       .code-chunk-source {
         margin: 0;
       }
@@ -2993,6 +4700,16 @@ ${slidesHtml}
         display: none;
         border-top: none;
       }
+      .code-chunk-output.stale > * {
+        opacity: 0.55;
+      }
+      .code-chunk-output.stale::before {
+        content: 'Outdated output: the code has changed since it ran';
+        display: block;
+        padding: 0.3em 1em 0;
+        font-size: 0.8em;
+        color: var(--text-secondary, #888);
+      }
       .code-chunk-output-text {
         margin: 0;
         padding: 0.8em 1em;
@@ -3013,6 +4730,43 @@ ${slidesHtml}
         border-radius: 0;
         white-space: pre-wrap;
       }
+      /* ANSI colours and styles of terminal output */
+      .ansi-black-fg { color: #3e424d; }
+      .ansi-black-bg { background-color: #3e424d; }
+      .ansi-bright-black-fg { color: #282c36; }
+      .ansi-bright-black-bg { background-color: #282c36; }
+      .ansi-red-fg { color: #e75c58; }
+      .ansi-red-bg { background-color: #e75c58; }
+      .ansi-bright-red-fg { color: #b22b31; }
+      .ansi-bright-red-bg { background-color: #b22b31; }
+      .ansi-green-fg { color: #00a250; }
+      .ansi-green-bg { background-color: #00a250; }
+      .ansi-bright-green-fg { color: #007427; }
+      .ansi-bright-green-bg { background-color: #007427; }
+      .ansi-yellow-fg { color: #ddb62b; }
+      .ansi-yellow-bg { background-color: #ddb62b; }
+      .ansi-bright-yellow-fg { color: #b27d12; }
+      .ansi-bright-yellow-bg { background-color: #b27d12; }
+      .ansi-blue-fg { color: #208ffb; }
+      .ansi-blue-bg { background-color: #208ffb; }
+      .ansi-bright-blue-fg { color: #0065ca; }
+      .ansi-bright-blue-bg { background-color: #0065ca; }
+      .ansi-magenta-fg { color: #d160c4; }
+      .ansi-magenta-bg { background-color: #d160c4; }
+      .ansi-bright-magenta-fg { color: #a03196; }
+      .ansi-bright-magenta-bg { background-color: #a03196; }
+      .ansi-cyan-fg { color: #60c6c8; }
+      .ansi-cyan-bg { background-color: #60c6c8; }
+      .ansi-bright-cyan-fg { color: #258f8f; }
+      .ansi-bright-cyan-bg { background-color: #258f8f; }
+      .ansi-white-fg { color: #c5c1b4; }
+      .ansi-white-bg { background-color: #c5c1b4; }
+      .ansi-bright-white-fg { color: #a1a6b2; }
+      .ansi-bright-white-bg { background-color: #a1a6b2; }
+      .ansi-bold { font-weight: bold; }
+      .ansi-dim { opacity: 0.7; }
+      .ansi-italic { font-style: italic; }
+      .ansi-underline { text-decoration: underline; }
       .code-chunk-matplotlib,
       .code-chunk-output-png {
         max-width: 100%;
@@ -3023,6 +4777,46 @@ ${slidesHtml}
       .code-chunk-output-markdown {
         padding: 0.5em 1em;
       }
+      .code-chunk-output-svg,
+      .code-chunk-output-html,
+      .code-chunk-output-json,
+      .code-chunk-output .vega,
+      .code-chunk-output .vega-lite {
+        padding: 0.5em 1em;
+        overflow-x: auto;
+      }
+      .code-chunk-output-svg svg {
+        max-width: 100%;
+        height: auto;
+      }
+      .code-chunk-output-json {
+        font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', Menlo, monospace;
+        font-size: 0.9em;
+      }
+      .code-chunk-output-json details {
+        display: inline-block;
+        vertical-align: top;
+      }
+      .code-chunk-output-json summary {
+        cursor: pointer;
+        color: var(--text-secondary, #888);
+      }
+      .code-chunk-output-json ul {
+        margin: 0;
+        padding-left: 1.5em;
+        list-style: none;
+      }
+      .code-chunk-output-json .json-key {
+        color: #6f42c1;
+      }
+      .code-chunk-output-json .json-string {
+        color: #22863a;
+      }
+      .code-chunk-output-json .json-number,
+      .code-chunk-output-json .json-boolean,
+      .code-chunk-output-json .json-null {
+        color: #005cc5;
+      }
 
       /* ===== Code block hover controls ===== */
       .code-block-container {
@@ -3229,11 +5023,44 @@ ${slidesHtml}
   }
 
   /**
-   * Generate all diagram library scripts (Mermaid, WaveDrom, Viz.js, Vega).
+   * Print layout, used when printing the preview and by PDF export.
+   * Colors come from the light variant of the preview theme (see getThemeCSS).
+   */
+  private getPrintCSS(): string {
+    return `
+      @media print {
+        body {
+          max-width: none;
+          margin: 0;
+          padding: 0;
+          -webkit-print-color-adjust: exact;
+          print-color-adjust: exact;
+        }
+        #page-toolbar, #toc-container, .ctx-menu,
+        .diagram-controls, .math-controls, .code-chunk-controls,
+        .code-copy-btn, .code-block-controls { display: none !important; }
+        .pagebreak { break-after: page; }
+        h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+        pre, blockquote, figure, img, svg, tr, .callout, .katex-display,
+        .mermaid, .graphviz, .vega, .vega-lite, .wavedrom, .recharts {
+          break-inside: avoid;
+        }
+        thead { display: table-header-group; }
+        a { text-decoration: none; }
+      }
+    `;
+  }
+
+  /**
+   * Generate the diagram library scripts (Mermaid, WaveDrom, Viz.js, Vega,
+   * Recharts). With `kinds`, the container classes of the diagrams a page
+   * has, only the libraries those need are loaded.
    */
-  private generateDiagramScripts(): string {
+  private generateDiagramScripts(
+    assets: RuntimeAssets,
+    kinds?: Set<string>,
+  ): string {
     const mermaidTheme = this.config.mermaid.theme || 'github-light';
-    const jsdelivr = this.config.misc.jsdelivrCdnHost || 'cdn.jsdelivr.net';
 
     // Map beautiful-mermaid theme to vanilla mermaid theme
     const darkThemes = /dark|night|storm|mocha|dracula|one-dark/;
@@ -3241,35 +5068,43 @@ ${slidesHtml}
       ? 'dark'
       : 'default';
 
-    return `
-<!-- WaveDrom -->
-<script src="https://${jsdelivr}/npm/wavedrom@3/wavedrom.min.js"></script>
-<script src="https://${jsdelivr}/npm/wavedrom@3/skins/default.js"></script>
-
-<!-- Viz.js (GraphViz) -->
-<script src="https://${jsdelivr}/npm/@viz-js/viz@3/lib/viz-standalone.js"></script>
-
-<!-- js-yaml for YAML-format Vega specs -->
-<script src="https://${jsdelivr}/npm/js-yaml@4/dist/js-yaml.min.js"></script>
+    const uses = (...names: string[]) =>
+      !kinds || names.some((name) => kinds.has(name));
+    const libraries = [
+      uses('wavedrom') &&
+        `<!-- WaveDrom -->
+${assets.script('wavedrom', 'wavedrom.min.js')}
+${assets.script('wavedrom', 'skins/default.js')}`,
+      uses('graphviz') &&
+        `<!-- Viz.js (GraphViz) -->
+${assets.script('@viz-js/viz', 'dist/viz-global.js')}`,
+      uses('vega', 'vega-lite') &&
+        `<!-- js-yaml for YAML-format Vega specs -->
+${assets.script('js-yaml', 'dist/js-yaml.min.js')}
 <!-- Vega / Vega-Lite / Vega-Embed (explicit UMD builds) -->
-<script src="https://${jsdelivr}/npm/vega@5/build/vega.min.js"></script>
-<script src="https://${jsdelivr}/npm/vega-lite@5/build/vega-lite.min.js"></script>
-<script src="https://${jsdelivr}/npm/vega-embed@6/build/vega-embed.min.js"></script>
-
-<!-- React, ReactDOM, react-is for Recharts v3 -->
-<script src="https://${jsdelivr}/npm/react@18/umd/react.production.min.js"></script>
-<script src="https://${jsdelivr}/npm/react-dom@18/umd/react-dom.production.min.js"></script>
-<script src="https://${jsdelivr}/npm/react-is@18/umd/react-is.production.min.js"></script>
+${assets.script('vega', 'build/vega.min.js')}
+${assets.script('vega-lite', 'build/vega-lite.min.js')}
+${assets.script('vega-embed', 'build/vega-embed.min.js')}`,
+      uses('recharts') &&
+        `<!-- React, ReactDOM, react-is for Recharts v3 -->
+${assets.script('react', 'umd/react.production.min.js')}
+${assets.script('react-dom', 'umd/react-dom.production.min.js')}
+${assets.script('react-is', 'umd/react-is.production.min.js')}
 <!-- Recharts v3 -->
-<script src="https://${jsdelivr}/npm/recharts@3/umd/Recharts.js"></script>
-
-<!-- html2canvas for math/element to PNG -->
-<script src="https://${jsdelivr}/npm/html2canvas@1/dist/html2canvas.min.js"></script>
-
-<!-- Beautiful Mermaid (primary) -->
-<script src="https://${jsdelivr}/npm/beautiful-mermaid/dist/beautiful-mermaid.browser.global.js"></script>
+${assets.script('recharts', 'umd/Recharts.js')}`,
+      // Only the preview controls copy as PNG
+      !kinds &&
+        `<!-- html2canvas for math/element to PNG -->
+${assets.script('html2canvas', 'dist/html2canvas.min.js')}`,
+      uses('mermaid') &&
+        `<!-- Beautiful Mermaid (primary) -->
+${assets.script('beautiful-mermaid', 'dist/beautiful-mermaid.browser.global.js')}
 <!-- Vanilla Mermaid (fallback for unsupported diagram types) -->
-<script src="https://${jsdelivr}/npm/mermaid@11/dist/mermaid.min.js"></script>
+${assets.script('mermaid', 'dist/mermaid.min.js')}`,
+    ].filter(Boolean);
+
+    return `
+${libraries.join('\n\n')}
 
 <script>
 // Initialize vanilla mermaid for fallback (don't auto-render)
@@ -5118,6 +6953,13 @@ body.vscode-high-contrast .ctx-sep {
       css += `${lightSel}{${varsBlock(light)}}`;
       css += `${darkSel}{${varsBlock(dark)}}`;
       css += `@media(prefers-color-scheme:dark){${sysDarkSel}{${varsBlock(dark)}}}`;
+
+      // Print: always the light variant, whatever the color scheme on screen
+      const printSel =
+        name === 'github'
+          ? `:root, [data-preview-theme="github"][data-theme], [data-preview-theme="github"].vscode-dark`
+          : `[data-preview-theme="${name}"][data-theme], [data-preview-theme="${name}"].vscode-dark`;
+      css += `@media print{${printSel}{${varsBlock(light)}}}`;
     }
 
     // Shiki dual-theme: activate light or dark token colors
@@ -5132,6 +6974,10 @@ body.vscode-high-contrast .ctx-sep {
         [data-theme="system"] .shiki { background-color: var(--shiki-dark-bg) !important; }
         [data-theme="system"] .shiki span { color: var(--shiki-dark); }
       }
+      @media print {
+        .shiki { background-color: var(--shiki-light-bg) !important; }
+        .shiki span { color: var(--shiki-light) !important; }
+      }
     `;
 
     return css;
@@ -5141,24 +6987,285 @@ body.vscode-high-contrast .ctx-sep {
    * Get SVG icon for a callout type.
    */
   private static getCalloutIcon(type: string): string {
-    const icons: Record<string, string> = {
-      note: '&#9998;', // ✎ pencil
-      info: '&#8505;', // ℹ info
-      tip: '&#128161;', // 💡 lightbulb
-      success: '&#10004;', // ✔ check
-      warning: '&#9888;', // ⚠ warning
-      caution: '&#9888;', // ⚠ warning
-      important: '&#10071;', // ❗ exclamation
-      danger: '&#9889;', // ⚡ zap
-      failure: '&#10008;', // ✘ cross
-      question: '&#10067;', // ❓ question
-      bug: '&#128027;', // 🐛 bug
-      example: '&#128196;', // 📄 document
-      quote: '&#10078;', // ❞ quote
-      abstract: '&#128203;', // 📋 clipboard
-      todo: '&#9744;', // ☐ checkbox
-    };
-    return icons[type] || icons.note;
+    return CALLOUT_ICONS[type] || CALLOUT_ICONS.note;
+  }
+
+  /**
+   * Types of `:::` containers: the callout types and a collapsible
+   * `details`, extended or overridden by the `customContainers` setting and
+   * the front matter `containers` key
+   */
+  private getContainerTypes(
+    frontMatter: Record<string, unknown> | null,
+  ): Map<string, CustomContainerType> {
+    const types = new Map<string, CustomContainerType>(
+      Object.entries(CALLOUT_ICONS).map(([type, icon]) => [type, { icon }]),
+    );
+    types.set('details', { collapsible: true });
+    const declared = frontMatter?.containers;
+    for (const source of [
+      this.config.markdown.customContainers,
+      declared && typeof declared === 'object' ? declared : {},
+    ]) {
+      for (const [name, definition] of Object.entries(source)) {
+        const type = name.toLowerCase();
+        types.set(type, {
+          ...types.get(type),
+          ...(definition && typeof definition === 'object' ? definition : {}),
+        });
+      }
+    }
+    return types;
+  }
+
+  /**
+   * Apply Reveal.js `<!-- .element: class="fragment" -->` comments: the
+   * attributes go to the element right before the comment, or else to the
+   * element that contains it.
+   */
+  private applyElementDirectives(html: string): string {
+    const voidElements = new Set([
+      'area',
+      'br',
+      'col',
+      'embed',
+      'hr',
+      'img',
+      'input',
+      'source',
+      'wbr',
+    ]);
+    interface Tag {
+      name: string;
+      // Range of the attribute list in the opening tag
+      attrsStart: number;
+      attrsEnd: number;
+    }
+    const stack: Tag[] = [];
+    let previous: (Tag & { end: number }) | null = null;
+    const additions = new Map<Tag, string[]>();
+
+    const pattern =
+      /<!--\s*\.element:\s*([\s\S]*?)\s*-->|<(\/?)([a-zA-Z][\w-]*)([^>]*?)(\/?)>/g;
+    for (const match of html.matchAll(pattern)) {
+      const [text, directive, closing, name, attrs, selfClosing] = match;
+      const index = match.index ?? 0;
+      if (directive !== undefined) {
+        const target =
+          previous && !html.slice(previous.end, index).trim()
+            ? previous
+            : stack[stack.length - 1];
+        if (target) {
+          additions.set(target, [...(additions.get(target) ?? []), directive]);
+        }
+      } else if (closing) {
+        const openIndex = stack
+          .map((tag) => tag.name)
+          .lastIndexOf(name.toLowerCase());
+        if (openIndex !== -1) {
+          previous = { ...stack[openIndex], end: index + text.length };
+          stack.length = openIndex;
+        }
+      } else {
+        const attrsStart = index + 1 + name.length;
+        const tag = {
+          name: name.toLowerCase(),
+          attrsStart,
+          attrsEnd: attrsStart + attrs.length,
+        };
+        if (selfClosing || voidElements.has(tag.name)) {
+          previous = { ...tag, end: index + text.length };
+        } else {
+          stack.push(tag);
+          previous = null;
+        }
+      }
+    }
+
+    // Merge the attributes, last tag first so earlier offsets stay valid
+    let result = html;
+    const targets = [...additions.keys()].sort(
+      (a, b) => b.attrsStart - a.attrsStart,
+    );
+    for (const tag of targets) {
+      let attrs = result.slice(tag.attrsStart, tag.attrsEnd);
+      for (const directive of additions.get(tag) ?? []) {
+        for (const [, key, ...values] of directive.matchAll(
+          /([\w-]+)=(?:"([^"]*)"|'([^']*)'|(\S+))/g,
+        )) {
+          const value = values.find((v) => v !== undefined) ?? '';
+          const existing = new RegExp(`(\\s${key}=")([^"]*)"`);
+          attrs =
+            key === 'class' && existing.test(attrs)
+              ? attrs.replace(existing, `$1$2 ${value}"`)
+              : `${attrs} ${key}="${value}"`;
+        }
+      }
+      result =
+        result.slice(0, tag.attrsStart) + attrs + result.slice(tag.attrsEnd);
+    }
+    return result;
+  }
+
+  /**
+   * Citation processor for the `bibliography` files of the front matter,
+   * formatted with its `csl` style file and `lang` locale. Cached until one
+   * of the files changes.
+   */
+  private loadCitations(
+    frontMatter: Record<string, unknown>,
+    sourcePath: string,
+  ): CitationProcessor {
+    const dir = path.dirname(sourcePath);
+    const bibliography = frontMatter.bibliography;
+    const files = (Array.isArray(bibliography) ? bibliography : [bibliography])
+      .filter((file): file is string => typeof file === 'string')
+      .map((file) => path.resolve(dir, file.trim()));
+    const stylePath =
+      typeof frontMatter.csl === 'string'
+        ? path.resolve(dir, frontMatter.csl.trim())
+        : '';
+    const locale = typeof frontMatter.lang === 'string' ? frontMatter.lang : '';
+
+    const cacheKey = [...files, stylePath]
+      .filter(Boolean)
+      .map((file) => {
+        if (!fs.existsSync(file)) {
+          throw new Error(`file not found: ${path.relative(dir, file)}`);
+        }
+        return `${file}@${fs.statSync(file).mtimeMs}`;
+      })
+      .concat(locale)
+      .join('|');
+    const cached = this.caches.get(`citations:${cacheKey}`);
+    if (cached instanceof CitationProcessor) {
+      return cached;
+    }
+
+    const items = files.flatMap((file) =>
+      parseBibliography(fs.readFileSync(file, 'utf-8'), file),
+    );
+    const citations = new CitationProcessor(
+      items,
+      stylePath ? fs.readFileSync(stylePath, 'utf-8') : undefined,
+      locale,
+    );
+    this.caches.set(`citations:${cacheKey}`, citations);
+    return citations;
+  }
+
+  /**
+   * Put the reference list of the cited entries in place of a
+   * [BIBLIOGRAPHY] paragraph, or at the end of the document. The heading
+   * comes from `reference-section-title` (default "References").
+   */
+  private insertBibliography(
+    html: string,
+    citations: CitationProcessor,
+    frontMatter: Record<string, unknown>,
+  ): string {
+    const placeholder = /<p[^>]*>\[BIBLIOGRAPHY\]<\/p>/i;
+    const bibliography = citations.formatBibliography();
+    if (!bibliography) {
+      return html.replace(placeholder, '');
+    }
+
+    const title =
+      typeof frontMatter['reference-section-title'] === 'string'
+        ? frontMatter['reference-section-title']
+        : 'References';
+    const section = `<section class="references">
+<h2 id="${generateSlug(title) || 'references'}">${this.escapeHtml(title)}</h2>
+${bibliography}
+</section>`;
+    return placeholder.test(html)
+      ? html.replace(placeholder, () => section)
+      : `${html}\n${section}`;
+  }
+
+  /**
+   * Glossary entries of the `glossary` file(s) in front matter, keyed by
+   * lower-case term. The files are YAML or JSON mappings of terms to
+   * definitions.
+   */
+  private loadGlossary(
+    frontMatter: Record<string, unknown>,
+    sourcePath: string,
+  ): Map<string, GlossaryEntry> {
+    const dir = path.dirname(sourcePath);
+    const files = (
+      Array.isArray(frontMatter.glossary)
+        ? frontMatter.glossary
+        : [frontMatter.glossary]
+    )
+      .filter((file): file is string => typeof file === 'string')
+      .map((file) => path.resolve(dir, file.trim()));
+
+    const glossary = new Map<string, GlossaryEntry>();
+    for (const file of files) {
+      const name = path.relative(dir, file);
+      if (!fs.existsSync(file)) {
+        throw new Error(`file not found: ${name}`);
+      }
+      const cacheKey = `glossary:${file}@${fs.statSync(file).mtimeMs}`;
+      let entries = this.caches.get(cacheKey) as GlossaryEntry[] | undefined;
+      if (!entries) {
+        const data = yaml.parse(fs.readFileSync(file, 'utf-8'));
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+          throw new Error(
+            `${name}: expected a mapping of terms to definitions`,
+          );
+        }
+        entries = Object.entries(data)
+          .filter(([term, definition]) => term.trim() && definition != null)
+          .map(([term, definition]) => ({
+            term: term.trim(),
+            definition: String(definition).trim(),
+          }));
+        this.caches.set(cacheKey, entries);
+      }
+      for (const entry of entries) {
+        glossary.set(entry.term.toLowerCase(), entry);
+      }
+    }
+    return glossary;
+  }
+
+  /**
+   * Insert the glossary section, listing the terms used in the document in
+   * alphabetical order, in place of `[GLOSSARY]` or at the end
+   */
+  private insertGlossary(
+    html: string,
+    glossary: Map<string, GlossaryEntry>,
+    terms: string[],
+    frontMatter: Record<string, unknown>,
+  ): string {
+    const placeholder = /<p[^>]*>\[GLOSSARY\]<\/p>/i;
+    if (terms.length === 0) {
+      return html.replace(placeholder, '');
+    }
+
+    const title =
+      typeof frontMatter['glossary-title'] === 'string'
+        ? frontMatter['glossary-title']
+        : 'Glossary';
+    const entries = terms
+      .map((term) => glossary.get(term.toLowerCase()) as GlossaryEntry)
+      .sort((a, b) => a.term.localeCompare(b.term))
+      .map(
+        (entry) =>
+          `<dt id="${getGlossaryAnchor(entry.term)}">${this.escapeHtml(entry.term)}</dt>\n<dd>${this.parser.renderInline(entry.definition)}</dd>`,
+      );
+    const section = `<section class="glossary">
+<h2 id="${generateSlug(title) || 'glossary'}">${this.escapeHtml(title)}</h2>
+<dl>
+${entries.join('\n')}
+</dl>
+</section>`;
+    return placeholder.test(html)
+      ? html.replace(placeholder, () => section)
+      : `${html}\n${section}`;
   }
 
   /**
@@ -5180,6 +7287,17 @@ body.vscode-high-contrast .ctx-sep {
     );
   }
 
+  /**
+   * Replace `<!-- pagebreak -->` / `<!-- newpage -->` comments (inserted by the
+   * Insert Page Break command) with elements the print stylesheet breaks after.
+   */
+  private processPageBreaks(html: string): string {
+    return html.replace(
+      /<!--\s*(?:pagebreak|newpage)\s*-->\n?/gi,
+      '<div class="pagebreak"></div>\n',
+    );
+  }
+
   /**
    * Resolve relative image paths in rendered HTML to data URIs.
    * Standard markdown ![alt](relative/path.png) renders as <img src="relative/path.png">
@@ -5265,6 +7383,133 @@ body.vscode-high-contrast .ctx-sep {
     );
   }
 
+  /**
+   * Replace remote image sources with data URIs (best effort, for export)
+   */
+  private async inlineRemoteImages(html: string): Promise<string> {
+    const pattern = /(<img\s[^>]*?src=")(https?:\/\/[^"]+)(")/g;
+    const urls = new Set<string>();
+    for (const match of html.matchAll(pattern)) {
+      urls.add(match[2]);
+    }
+
+    const dataUris = new Map<string, string>();
+    await Promise.all(
+      Array.from(urls).map(async (url) => {
+        try {
+          dataUris.set(url, await this.fetchAsDataUri(this.unescapeHtml(url)));
+        } catch (error) {
+          console.warn(`Failed to inline image ${url}:`, error);
+        }
+      }),
+    );
+
+    return html.replace(pattern, (match, before, url, after) =>
+      dataUris.has(url) ? `${before}${dataUris.get(url)}${after}` : match,
+    );
+  }
+
+  /**
+   * Download a URL into a data URI, following redirects. Fails past
+   * REMOTE_IMAGE_MAX_BYTES or once the deadline passes.
+   */
+  private fetchAsDataUri(
+    url: string,
+    redirects = 5,
+    deadline = Date.now() + REMOTE_IMAGE_TIMEOUT,
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const client = url.startsWith('https:') ? https : http;
+      const request = client.get(url, (response) => {
+        const { statusCode = 0, headers } = response;
+        if (statusCode >= 300 && statusCode < 400 && headers.location) {
+          response.resume();
+          if (redirects <= 0) {
+            reject(new Error('Too many redirects'));
+            return;
+          }
+          const next = new URL(headers.location, url).href;
+          this.fetchAsDataUri(next, redirects - 1, deadline).then(
+            resolve,
+            reject,
+          );
+          return;
+        }
+        if (statusCode !== 200) {
+          response.resume();
+          reject(new Error(`HTTP ${statusCode}`));
+          return;
+        }
+        const tooLarge = new Error(
+          `Larger than ${REMOTE_IMAGE_MAX_BYTES / 1024 / 1024} MB`,
+        );
+        if (Number(headers['content-length']) > REMOTE_IMAGE_MAX_BYTES) {
+          request.destroy(tooLarge);
+          return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > REMOTE_IMAGE_MAX_BYTES) {
+            request.destroy(tooLarge);
+          } else {
+            chunks.push(chunk);
+          }
+        });
+        response.on('end', () => {
+          const mime = (headers['content-type'] || 'image/png').split(';')[0];
+          resolve(
+            `data:${mime};base64,${Buffer.concat(chunks).toString('base64')}`,
+          );
+        });
+        response.on('error', reject);
+      });
+      const timer = setTimeout(
+        () => request.destroy(new Error('Timed out')),
+        Math.max(0, deadline - Date.now()),
+      );
+      request.on('close', () => clearTimeout(timer));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Remove the hover controls of diagrams, math and code blocks, which only
+   * work in the preview
+   */
+  private stripPreviewControls(html: string): string {
+    return html.replace(
+      /<div class="(?:diagram|math)-controls">[\s\S]*?<\/div><\/div>|<div class="code-block-controls">[\s\S]*?<\/div>/g,
+      '',
+    );
+  }
+
+  /**
+   * Resolve where runtime assets are loaded from for a template
+   */
+  private getRuntimeAssets(options: HTMLTemplateOptions): RuntimeAssets {
+    return new RuntimeAssets({
+      mode: this.config.misc.assets,
+      cdnHost: this.config.misc.jsdelivrCdnHost,
+      cdnFallback: this.config.misc.assetsCdnFallback,
+      baseUri: options.assetsBaseUri,
+      inline: options.inlineAssets,
+    });
+  }
+
+  /**
+   * MathJax script source; the default CDN script is swapped for the bundled
+   * copy in local asset mode, a custom source is always kept
+   */
+  private getMathJaxScriptSrc(assets: RuntimeAssets): string {
+    const src = this.config.math.mathjaxV3ScriptSrc;
+    if (!src || src === defaultConfig.math.mathjaxV3ScriptSrc) {
+      return assets.url('mathjax', 'es5/tex-mml-chtml.js');
+    }
+    return src;
+  }
+
   /**
    * Clear all caches
    */
@@ -5278,6 +7523,8 @@ body.vscode-high-contrast .ctx-sep {
   updateConfig(configOverrides: Partial<MarkdownLivePreviewConfig>): void {
     this.config = { ...this.config, ...configOverrides };
     this.parser.updateConfig(this.config);
+    this.codeRenderer = getCodeRenderer(this.config.theme.codeBlock);
+    this.katexRenderer.updateConfig(this.config.math);
   }
 }
 
@@ -5287,10 +7534,13 @@ const engineCache: Map<string, MarkdownEngine> = new Map();
 /**
  * Get or create a markdown engine for a file
  */
-export function getMarkdownEngine(filePath: string): MarkdownEngine {
+export function getMarkdownEngine(
+  filePath: string,
+  config: MarkdownLivePreviewConfig,
+): MarkdownEngine {
   let engine = engineCache.get(filePath);
   if (!engine) {
-    engine = new MarkdownEngine();
+    engine = new MarkdownEngine(config);
     engineCache.set(filePath, engine);
   }
   return engine;
@@ -4,6 +4,8 @@
 
 // Use require for CommonJS compatibility
 const MarkdownIt = require('markdown-it');
+const markdownItAbbr = require('markdown-it-abbr');
+const markdownItDeflist = require('markdown-it-deflist');
 const markdownItEmoji = require('markdown-it-emoji');
 const markdownItFootnote = require('markdown-it-footnote');
 const markdownItSub = require('markdown-it-sub');
@@ -15,9 +17,10 @@ const markdownItTaskLists = require('markdown-it-task-lists');
 type MarkdownItType = ReturnType<typeof MarkdownIt>;
 
 import { extname } from 'node:path';
+import type * as MarkdownItTypes from 'markdown-it';
 
-import { getFullConfig } from '../config/ConfigManager';
-import type { MarkdownLivePreviewConfig } from '../types';
+import type { CustomContainerType, MarkdownLivePreviewConfig } from '../types';
+import type { CitationItem, CitationProcessor } from './Citations';
 
 export interface MarkdownParserOptions {
   html?: boolean;
@@ -92,9 +95,8 @@ export function generateSlug(text: string): string {
 }
 
 export function createMarkdownParser(
-  configOverrides?: Partial<MarkdownLivePreviewConfig>,
+  config: MarkdownLivePreviewConfig,
 ): MarkdownItType {
-  const config = { ...getFullConfig(), ...configOverrides };
 
   const mdOptions: MarkdownParserOptions = {
     html: true,
@@ -129,6 +131,10 @@ export function createMarkdownParser(
   md.use(markdownItSup);
   md.use(markdownItMark);
 
+  // Enable definition lists and *[abbr]: abbreviations
+  md.use(markdownItDeflist);
+  md.use(markdownItAbbr);
+
   // Enable task lists
   md.use(markdownItTaskLists, {
     enabled: true,
@@ -144,10 +150,32 @@ export function createMarkdownParser(
   // Obsidian-style %%comment%% stripping
   enableObsidianComments(md);
 
+  // Backslash escapes kept as written, for env.rawEscapes
+  enableRawEscapes(md);
+
+  // Pandoc-style [@key] citations, when the document has a bibliography
+  enableCitations(md);
+
   // Custom fence renderer for diagram languages (mermaid, etc.)
   installDiagramFenceRenderer(md, config.codeChunk.enableScriptExecution);
 
-  // Add data-line attributes for scroll sync
+  // ::: type containers, for the types in env.containers
+  enableContainers(md);
+
+  // {#id .class key=value} attributes on blocks, inline elements and spans
+  enableAttributes(md);
+
+  // Obsidian `^block-id` markers, the targets of [[note#^block-id]] links
+  enableBlockIds(md);
+
+  // Numbered figures, tables and equations with @fig:x references
+  enableCrossReferences(md);
+
+  // Glossary terms from env.glossary, linked to the glossary section
+  enableGlossary(md);
+
+  // Add data-line attributes for scroll sync, except with env.noSourceLines
+  // for markdown shown apart from the document, such as code chunk output
   md.core.ruler.push(
     'source_line_mapping',
     (state: {
@@ -158,6 +186,9 @@ export function createMarkdownParser(
         attrSet: (name: string, value: string) => void;
       }>;
     }) => {
+      if (state.env?.noSourceLines) {
+        return;
+      }
       const offset = (state.env?.lineOffset as number) || 0;
       for (const token of state.tokens) {
         if (token.map && token.nesting >= 0) {
@@ -221,15 +252,21 @@ export function createMarkdownParser(
           }
         }
 
-        // Check for {ignore=true} in the raw text
-        const hasIgnore = /\{[^}]*ignore\s*=\s*true[^}]*\}/.test(fullText);
+        // Check for {ignore=true}, taken by the attributes rule or raw
+        const ignoreIndex = token.attrIndex('ignore');
+        if (ignoreIndex >= 0) {
+          token.attrs.splice(ignoreIndex, 1);
+        }
+        const hasIgnore =
+          ignoreIndex >= 0 || /\{[^}]*ignore\s*=\s*true[^}]*\}/.test(fullText);
         if (hasIgnore) {
           token.attrSet('data-toc-ignore', 'true');
         }
 
         // Extract custom ID from {#custom-id} syntax
         const customIdMatch = fullText.match(/\{[^}]*#([a-zA-Z0-9_-]+)[^}]*\}/);
-        const customId = customIdMatch ? customIdMatch[1] : null;
+        const customId =
+          token.attrGet('id') || (customIdMatch ? customIdMatch[1] : null);
 
         // Strip {attr} syntax from inline children so it doesn't render
         for (const child of children) {
@@ -245,6 +282,9 @@ export function createMarkdownParser(
         for (const child of children) {
           if (child.type === 'text' || child.type === 'code_inline') {
             fullText += child.content;
+          } else if (child.type === 'cross_ref') {
+            // Spaced as in the source, so the slug matches generateTOC's
+            fullText += ` ${child.content} `;
           }
         }
 
@@ -271,7 +311,7 @@ export function createMarkdownParser(
  * Diagram languages rendered client-side in the browser.
  * Maps language name → CSS class used on the container div.
  */
-const DIAGRAM_LANGUAGES: Record<string, string> = {
+export const DIAGRAM_LANGUAGES: Record<string, string> = {
   'mermaid': 'mermaid',
   'wavedrom': 'wavedrom',
   'viz': 'graphviz',
@@ -314,111 +354,131 @@ const KROKI_LANGUAGES = new Set([
 /**
  * Parse a fenced code block info string into language + attributes.
  * e.g. "mermaid {code_block=true}" → { language: "mermaid", attrs: { code_block: "true" } }
- *
- * Supports:
- * - key=value, key="quoted", key='quoted'
- * - Bare flags: `cmd` → cmd=true, `hide` → hide=true
- * - CSS class shorthand: `.line-numbers` → class=line-numbers
- * - Array values: `args=["-v", "--flag"]` (preserved as string)
  */
 export function parseInfoString(info: string): {
   language: string;
   attrs: Record<string, string>;
 } {
   const trimmed = info.trim();
-  const attrs: Record<string, string> = {};
 
   // Match: language {key=value key2=value2 ...}
   const match = trimmed.match(/^(\S+?)(?:\s+\{(.+)\})?\s*$/);
   if (!match) {
-    return { language: trimmed, attrs };
+    return { language: trimmed, attrs: {} };
   }
 
   const language = match[1];
-  const attrStr = match[2];
+  const attrs = match[2] ? parseAttributes(match[2]) : {};
 
-  if (attrStr) {
-    let pos = 0;
-    const str = attrStr.trim();
-
-    while (pos < str.length) {
-      // Skip whitespace
-      while (pos < str.length && /\s/.test(str[pos])) pos++;
-      if (pos >= str.length) break;
+  return { language, attrs };
+}
 
-      // CSS class shorthand: .className
-      if (str[pos] === '.') {
-        pos++;
-        let cls = '';
-        while (pos < str.length && /[\w-]/.test(str[pos])) {
-          cls += str[pos++];
-        }
-        if (cls) {
-          attrs.class = attrs.class ? `${attrs.class} ${cls}` : cls;
-        }
-        continue;
+/**
+ * Parse the attribute list between the braces of `{...}`.
+ * e.g. "#intro .note data-x=1" → { id: "intro", class: "note", "data-x": "1" }
+ *
+ * Supports:
+ * - key=value, key="quoted", key='quoted'
+ * - Bare flags: `cmd` → cmd=true, `hide` → hide=true
+ * - CSS class shorthand: `.line-numbers` → class=line-numbers
+ * - ID shorthand: `#fig:flow` → id=fig:flow
+ * - Array values: `args=["-v", "--flag"]` (preserved as string)
+ */
+export function parseAttributes(attrStr: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  let pos = 0;
+  const str = attrStr.trim();
+
+  while (pos < str.length) {
+    // Skip whitespace
+    while (pos < str.length && /\s/.test(str[pos])) pos++;
+    if (pos >= str.length) break;
+
+    // ID shorthand: #id (may contain `:` and `.`, as in #fig:flow)
+    if (str[pos] === '#') {
+      pos++;
+      let id = '';
+      while (pos < str.length && /[\w:.-]/.test(str[pos])) {
+        id += str[pos++];
       }
-
-      // Read key
-      let key = '';
-      while (pos < str.length && /[\w_]/.test(str[pos])) {
-        key += str[pos++];
+      if (id) {
+        attrs.id = id;
       }
+      continue;
+    }
 
-      if (!key) {
-        pos++;
-        continue;
+    // CSS class shorthand: .className
+    if (str[pos] === '.') {
+      pos++;
+      let cls = '';
+      while (pos < str.length && /[\w-]/.test(str[pos])) {
+        cls += str[pos++];
       }
+      if (cls) {
+        attrs.class = attrs.class ? `${attrs.class} ${cls}` : cls;
+      }
+      continue;
+    }
+
+    // Read key
+    let key = '';
+    while (pos < str.length && /[\w-]/.test(str[pos])) {
+      key += str[pos++];
+    }
+
+    if (!key) {
+      pos++;
+      continue;
+    }
 
-      // Skip whitespace
+    // Skip whitespace
+    while (pos < str.length && str[pos] === ' ') pos++;
+
+    // Check for =
+    if (pos < str.length && str[pos] === '=') {
+      pos++; // skip =
       while (pos < str.length && str[pos] === ' ') pos++;
 
-      // Check for =
-      if (pos < str.length && str[pos] === '=') {
-        pos++; // skip =
-        while (pos < str.length && str[pos] === ' ') pos++;
-
-        let value = '';
-
-        if (pos < str.length && str[pos] === '[') {
-          // Array value: args=["-v", "--flag"]
-          const start = pos;
-          let depth = 0;
-          while (pos < str.length) {
-            if (str[pos] === '[') depth++;
-            else if (str[pos] === ']') {
-              depth--;
-              if (depth === 0) {
-                pos++;
-                break;
-              }
+      let value = '';
+
+      if (pos < str.length && str[pos] === '[') {
+        // Array value: args=["-v", "--flag"]
+        const start = pos;
+        let depth = 0;
+        while (pos < str.length) {
+          if (str[pos] === '[') depth++;
+          else if (str[pos] === ']') {
+            depth--;
+            if (depth === 0) {
+              pos++;
+              break;
             }
-            pos++;
-          }
-          value = str.substring(start, pos);
-        } else if (pos < str.length && (str[pos] === '"' || str[pos] === "'")) {
-          // Quoted value
-          const quote = str[pos++];
-          while (pos < str.length && str[pos] !== quote) {
-            value += str[pos++];
-          }
-          if (pos < str.length) pos++; // skip closing quote
-        } else {
-          // Unquoted value
-          while (pos < str.length && !/\s/.test(str[pos])) {
-            value += str[pos++];
           }
+          pos++;
         }
-
-        attrs[key] = value;
+        value = str.substring(start, pos);
+      } else if (pos < str.length && (str[pos] === '"' || str[pos] === "'")) {
+        // Quoted value
+        const quote = str[pos++];
+        while (pos < str.length && str[pos] !== quote) {
+          value += str[pos++];
+        }
+        if (pos < str.length) pos++; // skip closing quote
       } else {
-        // Bare flag: key → key=true
-        attrs[key] = 'true';
+        // Unquoted value
+        while (pos < str.length && !/\s/.test(str[pos])) {
+          value += str[pos++];
+        }
       }
+
+      attrs[key] = value;
+    } else {
+      // Bare flag: key → key=true
+      attrs[key] = 'true';
     }
   }
 
-  return { language, attrs };
+  return attrs;
 }
 
 /**
@@ -556,13 +616,17 @@ function installDiagramFenceRenderer(
       // Build controls HTML - always include Copy button, conditionally include Run
       let controlsHtml = `<div class="code-chunk-controls">`;
       if (enableScriptExecution) {
+        const chunkIdAttr = escapeHtmlForFence(chunkId);
         controlsHtml +=
-          `<button class="code-chunk-run-btn" data-chunk-id="${escapeHtmlForFence(
-            chunkId,
-          )}">&#9654; Run</button>` +
-          `<span class="code-chunk-status" data-chunk-id="${escapeHtmlForFence(
-            chunkId,
-          )}"></span>`;
+          `<button class="code-chunk-run-btn" data-chunk-id="${chunkIdAttr}">&#9654; Run</button>` +
+          `<button class="code-chunk-stop-btn" data-chunk-id="${chunkIdAttr}" title="Stop the chunk">&#9632; Stop</button>`;
+        // Chunks with continue share a session
+        if (attrs.continue && attrs.continue !== 'false') {
+          controlsHtml +=
+            `<button class="code-chunk-session-btn" data-action="interruptCodeChunkSession" data-chunk-id="${chunkIdAttr}" title="Interrupt the code running in the session (SIGINT)">Interrupt</button>` +
+            `<button class="code-chunk-session-btn" data-action="restartCodeChunkSession" data-chunk-id="${chunkIdAttr}" title="Restart the session, discarding its state">Restart</button>`;
+        }
+        controlsHtml += `<span class="code-chunk-status" data-chunk-id="${chunkIdAttr}"></span>`;
       }
       controlsHtml += `<button class="code-copy-btn" title="Copy code">Copy</button>`;
       controlsHtml += `</div>`;
@@ -756,6 +820,982 @@ function enableObsidianComments(md: MarkdownItType): void {
   });
 }
 
+// ASCII punctuation after a backslash, as markdown-it unescapes it
+const ESCAPE_PATTERN = /\\([!-/:-@[-`{-~])/g;
+
+/**
+ * Keep backslash escapes as written when `env.rawEscapes` is set, for
+ * exporters that find math in the text, where `\,` and `\\` are TeX.
+ * Text outside the math is unescaped with unescapeMarkdown.
+ */
+function enableRawEscapes(md: MarkdownItType): void {
+  md.core.ruler.before('text_join', 'raw_escapes', (state) => {
+    if (!state.env?.rawEscapes) return;
+    for (const blockToken of state.tokens) {
+      for (const token of blockToken.children ?? []) {
+        if (token.type === 'text_special' && token.info === 'escape') {
+          token.content = token.markup;
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Remove the backslash escapes left by `env.rawEscapes`
+ */
+export function unescapeMarkdown(text: string): string {
+  return text.replace(ESCAPE_PATTERN, '$1');
+}
+
+// Citation key: starts with a word character, may contain internal
+// punctuation (`@doe:2020`, `@smith.j`)
+const CITATION_PATTERN = /^(.*?)(-?)@(\w(?:[\w:.#$%&+?<>~/-]*\w)?)(.*)$/s;
+
+// Keys of figure, table and equation cross-references, not citations
+const CROSS_REF_KEY_PATTERN = /@(?:fig|tbl|eq):/;
+
+// Locator labels after a citation key: `[@key, p. 12]`, `[@key, chap. 3]`
+const CITATION_LOCATOR_LABELS: Record<string, string> = {
+  p: 'page',
+  pp: 'page',
+  page: 'page',
+  pages: 'page',
+  chap: 'chapter',
+  chapter: 'chapter',
+  chapters: 'chapter',
+  sec: 'section',
+  section: 'section',
+  sections: 'section',
+  '\u00a7': 'section',
+  para: 'paragraph',
+  paragraph: 'paragraph',
+  fig: 'figure',
+  figure: 'figure',
+  vol: 'volume',
+  volume: 'volume',
+  l: 'line',
+  line: 'line',
+  lines: 'line',
+  n: 'note',
+  note: 'note',
+};
+
+/**
+ * Parse the inside of a citation cluster, `see @a, p. 12; @b`. Returns null
+ * when a part has no citation key.
+ */
+export function parseCitationCluster(text: string): CitationItem[] | null {
+  const items: CitationItem[] = [];
+  for (const part of text.split(';')) {
+    const match = part.match(CITATION_PATTERN);
+    // The key must start a word, so `[mail me@example.com]` is not a citation
+    if (!match || (match[1] && !/\s$/.test(match[1]))) {
+      return null;
+    }
+    const [, prefix, suppressAuthor, id, rest] = match;
+    const item: CitationItem = { id };
+    if (prefix.trim()) {
+      item.prefix = prefix.trim();
+    }
+    if (suppressAuthor) {
+      item['suppress-author'] = true;
+    }
+
+    // `, p. 12, emphasis added`: locator up to the next comma, then suffix
+    const locator = rest.match(
+      /^\s*,\s*(?:([a-z]+)(?:\.\s*|\s+)|(\u00a7)\s*)?([^\s,][^,]*)(.*)$/is,
+    );
+    const labelText = locator?.[1] || locator?.[2];
+    const label = labelText
+      ? CITATION_LOCATOR_LABELS[labelText.toLowerCase()]
+      : /^\d/.test(locator?.[3] ?? '') && 'page';
+    if (locator && label) {
+      item.label = label;
+      item.locator = locator[3].trim();
+      if (locator[4].trim()) {
+        item.suffix = locator[4].trim();
+      }
+    } else if (rest.trim()) {
+      item.suffix = rest.trim();
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Enable `[@key]` citations. They are formatted by the CitationProcessor
+ * passed in `env.citations`; without one, the text is left as written.
+ */
+function enableCitations(md: MarkdownItType): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.inline.ruler.before('link', 'citation', (state: any, silent: boolean) => {
+    if (!state.env?.citations || state.src.charAt(state.pos) !== '[') {
+      return false;
+    }
+    const end = state.src.indexOf(']', state.pos);
+    // `[@key](url)` and `[@key][ref]` are links
+    if (end === -1 || /[([]/.test(state.src.charAt(end + 1))) {
+      return false;
+    }
+    const text = state.src.slice(state.pos + 1, end);
+    const items = text.includes('@') ? parseCitationCluster(text) : null;
+    // `[@fig:x]` is a bracketed cross-reference, whether or not the label
+    // exists
+    if (!items || CROSS_REF_KEY_PATTERN.test(text)) {
+      return false;
+    }
+    if (!silent) {
+      const token = state.push('citation', '', 0);
+      token.content = state.src.slice(state.pos, end + 1);
+      token.meta = { items };
+    }
+    state.pos = end + 1;
+    return true;
+  });
+
+  // Format all citations together, in document order
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.core.ruler.push('citations', (state: any) => {
+    const citations = state.env?.citations as CitationProcessor | undefined;
+    if (!citations) {
+      return;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tokens: any[] = [];
+    for (const blockToken of state.tokens) {
+      for (const token of blockToken.children || []) {
+        if (token.type === 'citation') {
+          const { items } = token.meta as { items: CitationItem[] };
+          token.meta.missing = items
+            .filter((item) => !citations.has(item.id))
+            .map((item) => item.id);
+          if (token.meta.missing.length === 0) {
+            tokens.push(token);
+          }
+        }
+      }
+    }
+
+    // Also resets what a previous render cited
+    const formatted = citations.formatCitations(
+      tokens.map((token) => token.meta.items),
+    );
+    const entries = citations.getEntryTexts();
+    tokens.forEach((token, index) => {
+      token.meta.html = formatted[index];
+      token.meta.title = (token.meta.items as CitationItem[])
+        .map((item) => entries.get(item.id))
+        .filter(Boolean)
+        .join('\n');
+    });
+  });
+
+  md.renderer.rules.citation = (tokens, idx) => {
+    const { items, missing, html, title } = tokens[idx].meta;
+    const cites = md.utils.escapeHtml(
+      (items as CitationItem[]).map((item) => item.id).join(' '),
+    );
+    if (missing.length > 0) {
+      return `<span class="citation citation-missing" data-cites="${cites}" title="Citation not found: ${md.utils.escapeHtml(missing.join(', '))}">${md.utils.escapeHtml(tokens[idx].content)}</span>`;
+    }
+    return `<span class="citation" data-cites="${cites}" title="${md.utils.escapeHtml(title)}">${html}</span>`;
+  };
+}
+
+// `::: type Title`, or `:::type[Title]` as in Docusaurus
+const CONTAINER_OPEN =
+  /^(:{3,})\s*([A-Za-z][\w-]*)(?:\[([^\]]*)\])?(?:\s+(.*?))?\s*$/;
+const CONTAINER_CLOSE = /^(:{3,})\s*$/;
+const FENCE_MARKER = /^(`{3,}|~{3,})/;
+
+/**
+ * Enable `::: type Title` … `:::` containers. Only the types in
+ * `env.containers` are containers; other `:::` blocks stay text. Nested
+ * containers close with as many colons as they open with, or fewer colons
+ * than the outer one.
+ */
+function enableContainers(md: MarkdownItType): void {
+  md.block.ruler.before(
+    'fence',
+    'container',
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (state: any, startLine: number, endLine: number, silent: boolean) => {
+      const types: Map<string, CustomContainerType> | undefined =
+        state.env.containers;
+      if (!types || state.sCount[startLine] - state.blkIndent >= 4) {
+        return false;
+      }
+      const lineText = (line: number) =>
+        state.src.slice(
+          state.bMarks[line] + state.tShift[line],
+          state.eMarks[line],
+        );
+      const match = lineText(startLine).match(CONTAINER_OPEN);
+      const type = match?.[2].toLowerCase();
+      if (!match || !type || !types.has(type)) {
+        return false;
+      }
+      if (silent) {
+        return true;
+      }
+
+      // Find the closing marker, past nested containers and code fences
+      const markers = [match[1].length];
+      let fence = '';
+      let closeLine = startLine + 1;
+      for (; closeLine < endLine; closeLine++) {
+        const text = lineText(closeLine);
+        if (text && state.sCount[closeLine] < state.blkIndent) {
+          break;
+        }
+        if (state.sCount[closeLine] - state.blkIndent >= 4) {
+          continue;
+        }
+        const fenceMarker = text.match(FENCE_MARKER)?.[1];
+        if (fence) {
+          if (
+            fenceMarker?.[0] === fence[0] &&
+            fenceMarker.length >= fence.length &&
+            !text.slice(fenceMarker.length).trim()
+          ) {
+            fence = '';
+          }
+          continue;
+        }
+        if (fenceMarker) {
+          fence = fenceMarker;
+          continue;
+        }
+        const close = text.match(CONTAINER_CLOSE);
+        if (close && close[1].length >= markers[markers.length - 1]) {
+          markers.pop();
+          if (markers.length === 0) {
+            break;
+          }
+        } else if (!close && CONTAINER_OPEN.test(text)) {
+          markers.push(text.match(/^:+/)[0].length);
+        }
+      }
+
+      const parentType = state.parentType;
+      const lineMax = state.lineMax;
+      state.parentType = 'container';
+      state.lineMax = closeLine;
+
+      const definition = types.get(type) as CustomContainerType;
+      const tag = definition.collapsible ? 'details' : 'div';
+      const open = state.push('container_open', tag, 1);
+      open.markup = match[1];
+      open.block = true;
+      open.info = (match[3] ?? match[4] ?? '').trim();
+      open.meta = {
+        type,
+        // Shown when the container gives no title
+        title: definition.title || type.charAt(0).toUpperCase() + type.slice(1),
+      };
+      open.map = [startLine, closeLine];
+      open.attrSet('class', `callout callout-${type} custom-container`);
+      if (definition.color) {
+        open.attrSet(
+          'style',
+          `border-left-color: ${definition.color}; background-color: color-mix(in srgb, ${definition.color} 10%, transparent)`,
+        );
+      }
+      if (definition.collapsible && definition.open) {
+        open.attrSet('open', '');
+      }
+      state.md.block.tokenize(state, startLine + 1, closeLine);
+      const close = state.push('container_close', tag, -1);
+      close.markup = match[1];
+      close.block = true;
+
+      state.parentType = parentType;
+      state.lineMax = lineMax;
+      state.line = Math.min(closeLine + 1, endLine);
+      return true;
+    },
+    { alt: ['paragraph', 'reference', 'blockquote', 'list'] },
+  );
+
+  md.renderer.rules.container_open = (tokens, idx, _options, env, self) => {
+    const token = tokens[idx];
+    const definition: CustomContainerType =
+      env.containers?.get(token.meta.type) ?? {};
+    const title = token.info
+      ? md.renderInline(token.info, env)
+      : md.utils.escapeHtml(token.meta.title);
+    const icon = definition.icon
+      ? `<span class="callout-icon">${definition.icon}</span> `
+      : '';
+    const heading = `<strong class="callout-title">${icon}${title}</strong>`;
+    return token.tag === 'details'
+      ? `<details${self.renderAttrs(token)}><summary>${heading}</summary>\n`
+      : `<div${self.renderAttrs(token)}><p>${heading}</p>\n`;
+  };
+}
+
+// One attribute of `{#id .class key=value}`. Bare flags are not accepted
+// outside fences, so ordinary text in braces is left alone.
+const ATTRIBUTE =
+  '(?:#[\\w:.-]+|\\.[\\w-]+|[\\w-]+=(?:"[^"]*"|\'[^\']*\'|[^\\s"\'}]+))';
+const ATTRIBUTE_LIST = `\\{(\\s*${ATTRIBUTE}(?:\\s+${ATTRIBUTE})*\\s*)\\}`;
+const LEADING_ATTRIBUTES = new RegExp(`^${ATTRIBUTE_LIST}`);
+const TRAILING_ATTRIBUTES = new RegExp(
+  `(?:^|[ \\t]+)${ATTRIBUTE_LIST}[ \\t]*$`,
+);
+const ONLY_ATTRIBUTES = new RegExp(`^\\s*${ATTRIBUTE_LIST}\\s*$`);
+
+// Blocks that take the attributes of a `{...}` paragraph right after them
+const ATTRIBUTE_CONTAINERS = new Set([
+  'bullet_list_close',
+  'ordered_list_close',
+  'blockquote_close',
+  'table_close',
+]);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function applyAttributes(token: any, attrList: string): void {
+  for (const [name, value] of Object.entries(parseAttributes(attrList))) {
+    if (name === 'class') {
+      token.attrJoin('class', value);
+    } else {
+      token.attrSet(name, value);
+    }
+  }
+}
+
+/**
+ * Index of the token that opens or closes the element of `tokens[index]`
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function findMatchingToken(tokens: any[], index: number): number {
+  const step = tokens[index].nesting;
+  let depth = 0;
+  for (let k = index; k >= 0 && k < tokens.length; k += step) {
+    depth += tokens[k].nesting;
+    if (depth === 0) {
+      return k;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the block that contains `tokens[index]`
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function findParentToken(tokens: any[], index: number): number {
+  for (let k = index - 1; k >= 0; k--) {
+    if (tokens[k].nesting === 1 && tokens[k].level < tokens[index].level) {
+      return k;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Enable `{#id .class key=value}` attributes, as in markdown-it-attrs:
+ * - Right after an inline element: `*text*{.note}`, `![](a.png){width=50%}`,
+ *   `[link](url){target=_blank}`, `` `code`{.lang} ``
+ * - `[text]{.note}` wraps the text in a span
+ * - At the end of a paragraph, heading, table cell or list item
+ * - On the line after a list or table, or as a paragraph after a block
+ *   quote, list or table: applies to that block
+ */
+function enableAttributes(md: MarkdownItType): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const spanRule = (state: any, silent: boolean) => {
+    // `[[` is a wiki link
+    if (
+      state.src.charAt(state.pos) !== '[' ||
+      state.src.charAt(state.pos + 1) === '['
+    ) {
+      return false;
+    }
+    const labelEnd = state.md.helpers.parseLinkLabel(state, state.pos, false);
+    if (labelEnd < 0) {
+      return false;
+    }
+    const match = state.src.slice(labelEnd + 1).match(LEADING_ATTRIBUTES);
+    if (!match) {
+      return false;
+    }
+    // A shortcut reference link takes the attributes itself
+    const label = state.src.slice(state.pos + 1, labelEnd);
+    if (state.env.references?.[state.md.utils.normalizeReference(label)]) {
+      return false;
+    }
+    if (!silent) {
+      applyAttributes(state.push('span_open', 'span', 1), match[1]);
+      const posMax = state.posMax;
+      state.pos += 1;
+      state.posMax = labelEnd;
+      state.md.inline.tokenize(state);
+      state.posMax = posMax;
+      state.push('span_close', 'span', -1);
+    }
+    state.pos = labelEnd + 1 + match[0].length;
+    return true;
+  };
+  md.inline.ruler.before('link', 'attribute_span', spanRule);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.core.ruler.push('attributes', (state: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tokens: any[] = state.tokens;
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      // `{...}` on the line after a table is parsed as its last row
+      if (token.type === 'table_open') {
+        const close = findMatchingToken(tokens, i);
+        const rowEnd = close - 2;
+        if (tokens[rowEnd]?.type !== 'tr_close') {
+          continue;
+        }
+        let rowStart = findMatchingToken(tokens, rowEnd);
+        const cells = tokens
+          .slice(rowStart, rowEnd)
+          .filter((t) => t.type === 'inline');
+        const match = cells[0]?.content.match(ONLY_ATTRIBUTES);
+        if (match && cells.slice(1).every((cell) => !cell.content.trim())) {
+          applyAttributes(token, match[1]);
+          if (tokens[rowStart - 1].type === 'tbody_open') {
+            rowStart--;
+          }
+          tokens.splice(rowStart, close - 1 - rowStart);
+        }
+        continue;
+      }
+
+      if (token.type !== 'inline' || !token.children) {
+        continue;
+      }
+      const children = token.children;
+
+      // Inline elements: the attributes follow them directly
+      for (let j = 1; j < children.length; j++) {
+        const match =
+          children[j].type === 'text' &&
+          children[j].content.match(LEADING_ATTRIBUTES);
+        if (!match) {
+          continue;
+        }
+        const previous = children[j - 1];
+        let target = null;
+        if (previous.nesting === -1) {
+          target = children[findMatchingToken(children, j - 1)];
+        } else if (
+          previous.type === 'image' ||
+          previous.type === 'code_inline'
+        ) {
+          target = previous;
+        }
+        if (target) {
+          applyAttributes(target, match[1]);
+          children[j].content = children[j].content.slice(match[0].length);
+        }
+      }
+
+      // Blocks: the attributes end the text
+      const last = children[children.length - 1];
+      const match =
+        last?.type === 'text' && last.content.match(TRAILING_ATTRIBUTES);
+      const open = tokens[i - 1];
+      if (
+        !match ||
+        !['paragraph_open', 'heading_open', 'th_open', 'td_open'].includes(
+          open.type,
+        )
+      ) {
+        continue;
+      }
+
+      if (
+        children.length === 1 &&
+        match.index === 0 &&
+        open.type === 'paragraph_open' &&
+        ATTRIBUTE_CONTAINERS.has(tokens[i - 2]?.type)
+      ) {
+        // A paragraph of only attributes, after a list, quote or table
+        applyAttributes(tokens[findMatchingToken(tokens, i - 2)], match[1]);
+        tokens.splice(i - 1, 3);
+        i -= 2;
+        continue;
+      }
+
+      let target = open;
+      const ownLine =
+        match.index === 0 &&
+        children[children.length - 2]?.type === 'softbreak';
+      const parentIndex = findParentToken(tokens, i - 1);
+      if (
+        open.type === 'paragraph_open' &&
+        tokens[parentIndex]?.type === 'list_item_open'
+      ) {
+        // `- item {.x}` is the item, a line of its own the whole list
+        target = ownLine
+          ? tokens[findParentToken(tokens, parentIndex)]
+          : tokens[parentIndex];
+      }
+      applyAttributes(target, match[1]);
+      last.content = last.content.slice(0, match.index);
+      token.content = token.content.replace(TRAILING_ATTRIBUTES, '');
+      if (ownLine) {
+        children.splice(children.length - 2, 2);
+      }
+    }
+  });
+}
+
+// `^block-id` at the end of a paragraph or list item, or on a line of its own
+const BLOCK_ID = /(?:^|[ \t]+)\^([\w-]+)[ \t]*$/;
+
+/**
+ * Enable Obsidian block ids: a paragraph, heading or list item ending in
+ * `^id` gets that id, and a `^id` paragraph after a list, quote or table
+ * gives the id to that block
+ */
+function enableBlockIds(md: MarkdownItType): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.core.ruler.push('block_ids', (state: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tokens: any[] = state.tokens;
+    for (let i = 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      const children = token.children;
+      const last = children?.[children.length - 1];
+      const match =
+        token.type === 'inline' &&
+        last?.type === 'text' &&
+        last.content.match(BLOCK_ID);
+      const open = tokens[i - 1];
+      if (!match || !['paragraph_open', 'heading_open'].includes(open.type)) {
+        continue;
+      }
+      const id = generateSlug(match[1]);
+
+      if (
+        children.length === 1 &&
+        match.index === 0 &&
+        open.type === 'paragraph_open' &&
+        ATTRIBUTE_CONTAINERS.has(tokens[i - 2]?.type)
+      ) {
+        tokens[findMatchingToken(tokens, i - 2)].attrSet('id', id);
+        tokens.splice(i - 1, 3);
+        i -= 2;
+        continue;
+      }
+
+      const parentIndex = findParentToken(tokens, i - 1);
+      const target =
+        open.type === 'paragraph_open' &&
+        tokens[parentIndex]?.type === 'list_item_open'
+          ? tokens[parentIndex]
+          : open;
+      target.attrSet('id', id);
+      last.content = last.content.slice(0, match.index);
+      token.content = token.content.replace(BLOCK_ID, '');
+      const ownLine =
+        match.index === 0 &&
+        children[children.length - 2]?.type === 'softbreak';
+      if (ownLine) {
+        children.splice(children.length - 2, 2);
+      }
+    }
+  });
+}
+
+// Label of a numbered element, e.g. `fig:arch`, as in `{#fig:arch}`
+const CROSS_REF_PATTERN = /^(fig|tbl|eq):[\w:.-]*\w/;
+const LABEL_PATTERN = new RegExp(`${CROSS_REF_PATTERN.source}$`);
+
+// Reference text of each kind of label
+const CROSS_REF_NAMES: Record<string, string> = {
+  fig: 'Figure',
+  tbl: 'Table',
+  eq: 'Equation',
+};
+
+export interface CrossReferences {
+  // Number of each label, counted per kind in document order
+  labels: Map<string, number>;
+  // Referenced labels that are not defined
+  unresolved: string[];
+}
+
+/**
+ * Reference text of a label, e.g. "Figure 3"
+ */
+export function formatCrossReference(label: string, number: number): string {
+  return `${CROSS_REF_NAMES[label.slice(0, label.indexOf(':'))]} ${number}`;
+}
+
+/**
+ * Enable numbered figures, tables and equations:
+ * - `![Caption](a.png){#fig:x}` and fences with `{#fig:x caption="..."}`
+ * - `: Caption {#tbl:x}` before or after a table
+ * - `\label{eq:x}` in display math, which gets a `\tag{n}`; the math
+ *   renderer gives its label to the equation as an id
+ *
+ * `@fig:x`, `@tbl:x` and `@eq:x` link to them. The labels and unresolved
+ * references are left in `env.crossReferences`.
+ */
+function enableCrossReferences(md: MarkdownItType): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const crossRefRule = (state: any, silent: boolean) => {
+    if (state.src.charAt(state.pos) !== '@') {
+      return false;
+    }
+    // Not in the middle of a word, like an e-mail address
+    if (state.pos > 0 && /[\w@]/.test(state.src.charAt(state.pos - 1))) {
+      return false;
+    }
+    const match = state.src.slice(state.pos + 1).match(CROSS_REF_PATTERN);
+    if (!match) {
+      return false;
+    }
+    if (!silent) {
+      const token = state.push('cross_ref', '', 0);
+      token.content = `@${match[0]}`;
+      token.meta = { label: match[0] };
+    }
+    state.pos += match[0].length + 1;
+    return true;
+  };
+  md.inline.ruler.before('emphasis', 'cross_ref', crossRefRule);
+
+  // `[@fig:x]` and `[@fig:x; @tbl:y]` are the references without brackets,
+  // as in pandoc-crossref
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const bracketRule = (state: any, silent: boolean) => {
+    if (state.src.charAt(state.pos) !== '[') {
+      return false;
+    }
+    const end = state.src.indexOf(']', state.pos);
+    // `[@fig:x](url)` and `[@fig:x][ref]` are links
+    if (end === -1 || /[([]/.test(state.src.charAt(end + 1))) {
+      return false;
+    }
+    const refs: string[] = state.src
+      .slice(state.pos + 1, end)
+      .split(';')
+      .map((part: string) => part.trim());
+    if (
+      !refs.every((ref) => ref[0] === '@' && LABEL_PATTERN.test(ref.slice(1)))
+    ) {
+      return false;
+    }
+    const labels = refs.map((ref) => ref.slice(1));
+    if (!silent) {
+      labels.forEach((label, index) => {
+        if (index > 0) {
+          state.push('text', '', 0).content = ', ';
+        }
+        const token = state.push('cross_ref', '', 0);
+        token.content = `@${label}`;
+        token.meta = { label };
+      });
+    }
+    state.pos = end + 1;
+    return true;
+  };
+  md.inline.ruler.before('link', 'cross_ref_bracket', bracketRule);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.core.ruler.push('cross_references', (state: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const tokens: any[] = state.tokens;
+    const labels = new Map<string, number>();
+    const counts: Record<string, number> = {};
+    const define = (label: string): number => {
+      const kind = label.slice(0, label.indexOf(':'));
+      let number = labels.get(label);
+      if (number === undefined) {
+        counts[kind] = (counts[kind] || 0) + 1;
+        number = counts[kind];
+        labels.set(label, number);
+      }
+      return number;
+    };
+    // Labels are the ids given by `{#fig:x}` attributes
+    const isLabel = (id: string | null, kind: string) =>
+      !!id?.startsWith(`${kind}:`) && LABEL_PATTERN.test(id);
+    const tableCaption = /^(?:Table)?:(?:\s+([\s\S]*))?$/;
+    const isTableCaption = (index: number) =>
+      tokens[index]?.type === 'paragraph_open' &&
+      isLabel(tokens[index].attrGet('id'), 'tbl') &&
+      tableCaption.test(tokens[index + 1].content);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      // Diagrams and code blocks: ```mermaid {#fig:x caption="..."}
+      if (token.type === 'fence') {
+        const { attrs } = parseInfoString(token.info || '');
+        if (attrs.id?.startsWith('fig:')) {
+          token.meta = {
+            ...token.meta,
+            figure: {
+              label: attrs.id,
+              number: define(attrs.id),
+              caption: attrs.caption,
+            },
+          };
+        }
+        continue;
+      }
+
+      // Tables: a `: Caption {#tbl:x}` paragraph just before or after
+      if (token.type === 'table_open') {
+        const closeIndex = tokens.findIndex(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (t: any, index: number) => index > i && t.type === 'table_close',
+        );
+        let captionIndex = -1;
+        if (isTableCaption(closeIndex + 1)) {
+          captionIndex = closeIndex + 1;
+        } else if (isTableCaption(i - 3)) {
+          captionIndex = i - 3;
+        }
+        if (captionIndex === -1) {
+          continue;
+        }
+
+        const text =
+          tokens[captionIndex + 1].content.match(tableCaption)[1] ?? '';
+        const label = tokens[captionIndex].attrGet('id');
+        const caption = new state.Token('inline', '', 0);
+        caption.content = text;
+        caption.children = [];
+        state.md.inline.parse(text, state.md, state.env, caption.children);
+        const captionOpen = new state.Token('html_block', '', 0);
+        captionOpen.content = `<caption>${formatCrossReference(label, define(label))}${text ? ': ' : ''}`;
+        const captionClose = new state.Token('html_block', '', 0);
+        captionClose.content = '</caption>\n';
+        // The caption's other attributes, e.g. `.wide`, are the table's
+        for (const [name, value] of tokens[captionIndex].attrs) {
+          if (name === 'class') {
+            token.attrJoin('class', value);
+          } else {
+            token.attrSet(name, value);
+          }
+        }
+
+        tokens.splice(captionIndex, 3);
+        const openIndex = captionIndex < i ? i - 3 : i;
+        tokens.splice(openIndex + 1, 0, captionOpen, caption, captionClose);
+        i = openIndex + 3;
+        continue;
+      }
+
+      if (token.type !== 'inline' || !token.children) {
+        continue;
+      }
+      const paragraph =
+        tokens[i - 1]?.type === 'paragraph_open' ? tokens[i - 1] : null;
+
+      // Images: ![Caption](a.png){#fig:x}
+      const children = token.children;
+      for (const image of children) {
+        const label = image.attrGet('id');
+        if (image.type !== 'image' || !isLabel(label, 'fig')) {
+          continue;
+        }
+        const number = define(label);
+
+        const alone = children.every(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (child: any) =>
+            child === image || (child.type === 'text' && !child.content.trim()),
+        );
+        if (paragraph && alone) {
+          // A labeled image on its own is a figure with a caption
+          const close = tokens[i + 1];
+          paragraph.tag = 'figure';
+          paragraph.attrSet('id', label);
+          paragraph.attrJoin('class', 'figure');
+          image.attrs = image.attrs.filter(
+            ([name]: [string, string]) => name !== 'id',
+          );
+          close.tag = 'figure';
+          const captionOpen = new state.Token('html_inline', '', 0);
+          captionOpen.content = `<figcaption>${formatCrossReference(label, number)}${image.children.length ? ': ' : ''}`;
+          const captionClose = new state.Token('html_inline', '', 0);
+          captionClose.content = '</figcaption>';
+          token.children = [
+            image,
+            captionOpen,
+            ...image.children,
+            captionClose,
+          ];
+          break;
+        }
+      }
+
+      // Equations: $$ ... \label{eq:x} $$
+      for (const child of token.children) {
+        if (child.type !== 'text' || !child.content.includes('\\label{eq:')) {
+          continue;
+        }
+        child.content = child.content.replace(
+          /\\label\{(eq:[\w:.-]*\w)\}/g,
+          (match: string, label: string) => `\\tag{${define(label)}}${match}`,
+        );
+      }
+    }
+
+    // Resolve references, now that every label is numbered
+    const unresolved = new Set<string>();
+    for (const token of tokens) {
+      for (const child of token.children || []) {
+        if (child.type === 'cross_ref') {
+          child.meta.number = labels.get(child.meta.label);
+          if (child.meta.number === undefined) {
+            unresolved.add(child.meta.label);
+          }
+        }
+      }
+    }
+    state.env.crossReferences = {
+      labels,
+      unresolved: [...unresolved],
+    } satisfies CrossReferences;
+  });
+
+  md.renderer.rules.cross_ref = (tokens, idx) => {
+    const { label, number } = tokens[idx].meta;
+    if (number === undefined) {
+      return `<span class="cross-ref cross-ref-missing" title="Unresolved reference">${md.utils.escapeHtml(tokens[idx].content)}</span>`;
+    }
+    return `<a href="#${md.utils.escapeHtml(label)}" class="cross-ref">${formatCrossReference(label, number)}</a>`;
+  };
+
+  // Fences labeled as figures get a numbered caption
+  const fence = md.renderer.rules.fence;
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const html = fence ? fence(tokens, idx, options, env, self) : '';
+    const figure = tokens[idx].meta?.figure;
+    if (!figure) {
+      return html;
+    }
+    const caption = figure.caption
+      ? `: ${md.utils.escapeHtml(figure.caption)}`
+      : '';
+    return `<figure id="${md.utils.escapeHtml(figure.label)}" class="figure">\n${html}<figcaption>${formatCrossReference(figure.label, figure.number)}${caption}</figcaption>\n</figure>\n`;
+  };
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+/**
+ * Anchor of a term in the glossary section
+ */
+export function getGlossaryAnchor(term: string): string {
+  return `glossary-${generateSlug(term)}`;
+}
+
+/**
+ * Enable glossary terms: whole-word, case-insensitive occurrences of the
+ * terms in `env.glossary` (keyed by lower-case term) link to their entry in
+ * the glossary section, with the definition as tooltip. Terms in headings,
+ * links and abbreviations are left alone. The terms found, in order of
+ * first use, are left in `env.glossaryTerms`.
+ */
+function enableGlossary(md: MarkdownItType): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  md.core.ruler.push('glossary', (state: any) => {
+    const glossary: Map<string, GlossaryEntry> | undefined = state.env.glossary;
+    if (!glossary?.size) {
+      return;
+    }
+    const alternatives = [...glossary.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`,
+      'giu',
+    );
+    const used = new Set<string>();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    state.tokens.forEach((block: any, index: number) => {
+      if (
+        block.type !== 'inline' ||
+        state.tokens[index - 1]?.type === 'heading_open'
+      ) {
+        return;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const children: any[] = [];
+      let depth = 0;
+      for (const child of block.children) {
+        if (/^(link|abbr)_open$/.test(child.type)) {
+          depth++;
+        } else if (/^(link|abbr)_close$/.test(child.type)) {
+          depth--;
+        }
+        if (child.type !== 'text' || depth > 0) {
+          children.push(child);
+          continue;
+        }
+        let pos = 0;
+        for (const match of child.content.matchAll(pattern)) {
+          const entry = glossary.get(match[0].toLowerCase()) as GlossaryEntry;
+          const start = match.index ?? 0;
+          if (start > pos) {
+            const text = new state.Token('text', '', 0);
+            text.content = child.content.slice(pos, start);
+            children.push(text);
+          }
+          const term = new state.Token('glossary_term', '', 0);
+          term.content = match[0];
+          term.meta = entry;
+          children.push(term);
+          used.add(entry.term);
+          pos = start + match[0].length;
+        }
+        if (pos === 0) {
+          children.push(child);
+        } else if (pos < child.content.length) {
+          const text = new state.Token('text', '', 0);
+          text.content = child.content.slice(pos);
+          children.push(text);
+        }
+      }
+      block.children = children;
+    });
+    state.env.glossaryTerms = [...used];
+  });
+
+  md.renderer.rules.glossary_term = (tokens, idx) => {
+    const { term, definition } = tokens[idx].meta as GlossaryEntry;
+    // The tooltip shows the definition as plain text
+    const title = md.renderInline(definition).replace(/<[^>]*>/g, '');
+    return `<a href="#${getGlossaryAnchor(term)}" class="glossary-term" title="${title}">${md.utils.escapeHtml(tokens[idx].content)}</a>`;
+  };
+}
+
+// Wiki link pattern: [[link]] or [[link|text]] or [[text|link]]
+// Also captures optional preceding `!` for Obsidian-style image embeds: ![[image.png]]
+export const WIKI_LINK_PATTERN = /(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/;
+
+const WIKI_IMAGE_EXTENSIONS = new Set([
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.png',
+  '.apng',
+  '.svg',
+  '.bmp',
+  '.webp',
+]);
+
 /**
  * Enable wiki link support in markdown-it
  */
@@ -763,19 +1803,7 @@ function enableWikiLinks(
   md: MarkdownItType,
   config: MarkdownLivePreviewConfig,
 ): void {
-  // Wiki link pattern: [[link]] or [[link|text]] or [[text|link]]
-  // Also captures optional preceding `!` for Obsidian-style image embeds: ![[image.png]]
-  const wikiLinkRegex = /(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
-  const imageExtensions = new Set([
-    '.jpg',
-    '.jpeg',
-    '.gif',
-    '.png',
-    '.apng',
-    '.svg',
-    '.bmp',
-    '.webp',
-  ]);
+  const wikiLinkRegex = new RegExp(WIKI_LINK_PATTERN, 'g');
 
   md.core.ruler.push('wiki_link', (state) => {
     const tokens = state.tokens;
@@ -818,77 +1846,21 @@ function enableWikiLinks(
             newTokens.push(textToken);
           }
 
-          // Determine link and text based on GitHub style or Wikipedia style
-          let linkTarget: string;
-          let linkText: string;
-
-          if (secondPart !== undefined) {
-            if (config.wikiLink.useGitHubStylePipedLink) {
-              // GitHub style: [[linkText|wikiLink]]
-              linkText = firstPart.trim();
-              linkTarget = secondPart.trim();
-            } else {
-              // Wikipedia style: [[wikiLink|linkText]]
-              linkTarget = firstPart.trim();
-              linkText = secondPart.trim();
-            }
-          } else {
-            linkTarget = firstPart.trim();
-            linkText = firstPart.trim();
-          }
-
-          // Extract anchor fragment before file extension/case transforms
-          let anchorFragment = '';
-          const hashIndex = linkTarget.indexOf('#');
-          if (hashIndex !== -1) {
-            anchorFragment = linkTarget.slice(hashIndex + 1);
-            linkTarget = linkTarget.slice(0, hashIndex);
-          }
-
-          // Add file extension and case transform only when there is a file path
-          if (linkTarget) {
-            if (
-              !linkTarget.includes('.') &&
-              config.wikiLink.targetFileExtension
-            ) {
-              linkTarget += config.wikiLink.targetFileExtension;
-            }
-
-            // Apply case transformation
-            linkTarget = applyCase(
-              linkTarget,
-              config.wikiLink.targetFileNameChangeCase,
-            );
-          }
-
-          if (
-            excl === '!' &&
-            imageExtensions.has(extname(linkTarget).toLowerCase())
-          ) {
+          const link = resolveWikiLink(excl, firstPart, secondPart, config);
+          if (link.isImage) {
             // Obsidian-style image embed: ![[image.png]] or ![[image.png|alt text]]
-            const altText =
-              secondPart !== undefined
-                ? config.wikiLink.useGitHubStylePipedLink
-                  ? firstPart.trim()
-                  : secondPart.trim()
-                : firstPart.trim();
             const imgToken = new state.Token('html_inline', '', 0);
-            imgToken.content = `<img src="${linkTarget}" alt="${altText}" class="wiki-image">`;
+            imgToken.content = `<img src="${link.target}" alt="${link.text}" class="wiki-image">`;
             newTokens.push(imgToken);
           } else {
-            // Re-append anchor fragment as slug for link hrefs
-            if (anchorFragment) {
-              linkTarget += '#' + generateSlug(anchorFragment);
-            }
-
             // Create link tokens
             const linkOpenToken = new state.Token('link_open', 'a', 1);
-            linkOpenToken.attrs = [['href', linkTarget]];
+            linkOpenToken.attrs = [['href', link.target]];
             linkOpenToken.attrSet('class', 'wiki-link');
             newTokens.push(linkOpenToken);
 
             const textToken = new state.Token('text', '', 0);
-            textToken.content = linkText;
+            textToken.content = link.text;
             newTokens.push(textToken);
 
             const linkCloseToken = new state.Token('link_close', 'a', -1);
@@ -915,6 +1887,71 @@ function enableWikiLinks(
   });
 }
 
+/**
+ * Resolve the target and text of a wiki link from its WIKI_LINK_PATTERN
+ * groups. Targets get the configured file extension and case; `#heading`
+ * fragments become heading slugs.
+ */
+export function resolveWikiLink(
+  excl: string,
+  firstPart: string,
+  secondPart: string | undefined,
+  config: MarkdownLivePreviewConfig,
+): { target: string; text: string; isImage: boolean } {
+  // Determine link and text based on GitHub style or Wikipedia style
+  let linkTarget: string;
+  let linkText: string;
+
+  if (secondPart !== undefined) {
+    if (config.wikiLink.useGitHubStylePipedLink) {
+      // GitHub style: [[linkText|wikiLink]]
+      linkText = firstPart.trim();
+      linkTarget = secondPart.trim();
+    } else {
+      // Wikipedia style: [[wikiLink|linkText]]
+      linkTarget = firstPart.trim();
+      linkText = secondPart.trim();
+    }
+  } else {
+    linkTarget = firstPart.trim();
+    linkText = firstPart.trim();
+  }
+
+  // Extract anchor fragment before file extension/case transforms
+  let anchorFragment = '';
+  const hashIndex = linkTarget.indexOf('#');
+  if (hashIndex !== -1) {
+    anchorFragment = linkTarget.slice(hashIndex + 1);
+    linkTarget = linkTarget.slice(0, hashIndex);
+  }
+
+  // Add file extension and case transform only when there is a file path
+  if (linkTarget) {
+    if (!linkTarget.includes('.') && config.wikiLink.targetFileExtension) {
+      linkTarget += config.wikiLink.targetFileExtension;
+    }
+
+    // Apply case transformation
+    linkTarget = applyCase(
+      linkTarget,
+      config.wikiLink.targetFileNameChangeCase,
+    );
+  }
+
+  if (
+    excl === '!' &&
+    WIKI_IMAGE_EXTENSIONS.has(extname(linkTarget).toLowerCase())
+  ) {
+    return { target: linkTarget, text: linkText, isImage: true };
+  }
+
+  // Re-append anchor fragment as slug for link hrefs
+  if (anchorFragment) {
+    linkTarget += '#' + generateSlug(anchorFragment);
+  }
+  return { target: linkTarget, text: linkText, isImage: false };
+}
+
 /**
  * Apply case transformation to a string
  */
@@ -956,8 +1993,8 @@ export class MarkdownParser {
   private md: MarkdownItType;
   private config: MarkdownLivePreviewConfig;
 
-  constructor(configOverrides?: Partial<MarkdownLivePreviewConfig>) {
-    this.config = { ...getFullConfig(), ...configOverrides };
+  constructor(config: MarkdownLivePreviewConfig) {
+    this.config = config;
     this.md = createMarkdownParser(this.config);
   }
 
@@ -968,6 +2005,16 @@ export class MarkdownParser {
     return this.md.render(markdown, env || {});
   }
 
+  /**
+   * Parse markdown into the markdown-it token stream
+   */
+  parse(
+    markdown: string,
+    env?: Record<string, unknown>,
+  ): MarkdownItTypes.Token[] {
+    return this.md.parse(markdown, env || {});
+  }
+
   /**
    * Render markdown inline (no paragraph wrapping)
    */
@@ -0,0 +1,171 @@
+/**
+ * Runtime assets - the browser libraries (math, diagrams, slides) loaded by
+ * the preview page. They come from jsDelivr by default, or from the copies
+ * that build.js bundles into out/assets when `assets` is set to `local`.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AssetsMode } from '../types';
+import * as manifest from './runtime-assets.json';
+
+export type RuntimeAssetName = keyof typeof manifest;
+
+const assetManifest: Record<
+  RuntimeAssetName,
+  { version: string; files: string[] }
+> = manifest;
+
+// Bundled copies, relative to out/native, out/web or out/cli
+export const LOCAL_ASSETS_DIR = path.resolve(__dirname, '..', 'assets');
+
+export interface RuntimeAssetsOptions {
+  mode: AssetsMode;
+  cdnHost: string;
+  // Use the CDN for assets missing from the local bundle
+  cdnFallback?: boolean;
+  // Base URI the page can load LOCAL_ASSETS_DIR from (e.g. webview.asWebviewUri)
+  baseUri?: string;
+  // Embed the asset contents in the page (for exported HTML)
+  inline?: boolean;
+}
+
+// @font-face sources after the first in a src list, other than WOFF2
+const FALLBACK_FONT_SOURCE_PATTERN =
+  /,\s*url\([^)]*\)\s*format\(\s*(['"]?)(?!woff2\1)[^)]*\)/g;
+
+// MIME types of files referenced from bundled stylesheets
+const FONT_MIME_TYPES: Record<string, string> = {
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+};
+
+export class RuntimeAssets {
+  private options: RuntimeAssetsOptions;
+
+  constructor(options: RuntimeAssetsOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Get the URL of an asset file
+   */
+  url(name: RuntimeAssetName, file: string): string {
+    if (this.options.mode === 'local' && !this.shouldUseCdn(name, file)) {
+      const baseUri =
+        this.options.baseUri || pathToFileURL(LOCAL_ASSETS_DIR).href;
+      return `${baseUri.replace(/\/$/, '')}/${name}/${file}`;
+    }
+    return this.cdnUrl(name, file);
+  }
+
+  /**
+   * Get the jsDelivr URL of an asset file
+   */
+  cdnUrl(name: RuntimeAssetName, file: string): string {
+    const { version } = assetManifest[name];
+    const host = this.options.cdnHost || 'cdn.jsdelivr.net';
+    return `https://${host}/npm/${name}${version ? `@${version}` : ''}/${file}`;
+  }
+
+  /**
+   * Get a <script> tag for an asset, inlined when requested and available
+   */
+  script(name: RuntimeAssetName, file: string): string {
+    const content = this.options.inline ? this.readLocal(name, file) : null;
+    if (content !== null) {
+      return `<script>${content.replace(/<\/script/gi, '<\\/script')}</script>`;
+    }
+    return `<script src="${this.url(name, file)}"></script>`;
+  }
+
+  /**
+   * Get a stylesheet tag for an asset, inlined when requested and available.
+   * Fonts and images referenced by an inlined stylesheet become data URIs,
+   * WOFF2 fonts only with `woff2Only`.
+   */
+  stylesheet(
+    name: RuntimeAssetName,
+    file: string,
+    options: { woff2Only?: boolean } = {},
+  ): string {
+    const content = this.options.inline
+      ? this.inlineStylesheet(name, file, options)
+      : null;
+    if (content !== null) {
+      return `<style>${content}</style>`;
+    }
+    return `<link rel="stylesheet" href="${this.url(name, file)}">`;
+  }
+
+  /**
+   * Get the contents of a bundled stylesheet with its fonts and images as
+   * data URIs, or null if it is not bundled. With `woff2Only`, the WOFF and
+   * TrueType fallbacks of its fonts are dropped rather than embedded.
+   */
+  inlineStylesheet(
+    name: RuntimeAssetName,
+    file: string,
+    { woff2Only = false }: { woff2Only?: boolean } = {},
+  ): string | null {
+    let content = this.readLocal(name, file);
+    if (content === null) {
+      return null;
+    }
+    if (woff2Only) {
+      content = content.replace(FALLBACK_FONT_SOURCE_PATTERN, '');
+    }
+    const cssDir = path.dirname(path.join(LOCAL_ASSETS_DIR, name, file));
+    return this.inlineCssUrls(content, cssDir);
+  }
+
+  /**
+   * Check whether an asset file is present in the local bundle
+   */
+  hasLocal(name: RuntimeAssetName, file: string): boolean {
+    try {
+      return fs.existsSync(path.join(LOCAL_ASSETS_DIR, name, file));
+    } catch {
+      // No file system (e.g. web extension)
+      return false;
+    }
+  }
+
+  private shouldUseCdn(name: RuntimeAssetName, file: string): boolean {
+    return !!this.options.cdnFallback && !this.hasLocal(name, file);
+  }
+
+  private readLocal(name: RuntimeAssetName, file: string): string | null {
+    if (!this.hasLocal(name, file)) {
+      return null;
+    }
+    return fs.readFileSync(path.join(LOCAL_ASSETS_DIR, name, file), 'utf-8');
+  }
+
+  /**
+   * Replace relative url(...) references in a stylesheet with data URIs
+   */
+  private inlineCssUrls(css: string, cssDir: string): string {
+    return css.replace(
+      /url\(\s*(['"]?)([^'")]+)\1\s*\)/g,
+      (match, _quote: string, ref: string) => {
+        if (/^(?:[a-z]+:|#|\/\/)/i.test(ref)) {
+          return match;
+        }
+        const filePath = path.join(cssDir, ref.split(/[?#]/)[0]);
+        const mime = FONT_MIME_TYPES[path.extname(filePath).toLowerCase()];
+        if (!mime || !fs.existsSync(filePath)) {
+          return match;
+        }
+        const data = fs.readFileSync(filePath).toString('base64');
+        return `url(data:${mime};base64,${data})`;
+      },
+    );
+  }
+}
@@ -8,9 +8,14 @@ import {
   createHighlighter,
   type Highlighter,
 } from 'shiki';
-import { getFullConfig } from '../../config/ConfigManager';
 import type { CodeBlockTheme } from '../../types';
 
+// A highlighted code block, as colored tokens per line (light theme)
+export interface HighlightedCode {
+  background?: string;
+  lines: Array<Array<{ content: string; color?: string; fontStyle?: number }>>;
+}
+
 // Map code block themes to Shiki themes
 const themeMap: Record<string, BundledTheme> = {
   'auto.css': 'github-light',
@@ -65,7 +70,8 @@ export class CodeRenderer {
   private initPromise: Promise<void> | null = null;
   private currentTheme: BundledTheme = 'github-light';
 
-  constructor() {
+  constructor(codeBlockTheme: CodeBlockTheme = 'auto') {
+    this.currentTheme = this.getShikiTheme(codeBlockTheme);
     this.initPromise = this.init();
   }
 
@@ -73,9 +79,6 @@ export class CodeRenderer {
    * Initialize the Shiki highlighter
    */
   private async init(): Promise<void> {
-    const config = getFullConfig();
-    this.currentTheme = this.getShikiTheme(config.theme.codeBlock);
-
     try {
       this.highlighter = await createHighlighter({
         themes: [this.currentTheme, 'github-light', 'github-dark'],
@@ -114,24 +117,14 @@ export class CodeRenderer {
     }
 
     try {
-      // Normalize language name
-      const normalizedLang = this.normalizeLanguage(language);
-
-      // Check if language is loaded, if not load it
-      const loadedLangs = this.highlighter.getLoadedLanguages();
-      if (!loadedLangs.includes(normalizedLang as BundledLanguage)) {
-        try {
-          await this.highlighter.loadLanguage(
-            normalizedLang as BundledLanguage,
-          );
-        } catch {
-          // Language not supported, use plain text
-          return this.createFallbackCodeBlock(code, language);
-        }
+      const normalizedLang = await this.loadLanguage(language);
+      if (!normalizedLang) {
+        // Language not supported, use plain text
+        return this.createFallbackCodeBlock(code, language);
       }
 
       const html = this.highlighter.codeToHtml(code, {
-        lang: normalizedLang as BundledLanguage,
+        lang: normalizedLang,
         themes: {
           light: 'github-light',
           dark: 'github-dark',
@@ -146,6 +139,74 @@ export class CodeRenderer {
     }
   }
 
+  /**
+   * Highlight code as colored tokens, for exporters that don't produce HTML.
+   * Uses the same light theme as the preview; unknown languages come back
+   * as uncolored lines.
+   */
+  async highlightTokens(
+    code: string,
+    language: string,
+  ): Promise<HighlightedCode> {
+    const plain = {
+      lines: code
+        .replace(/\n$/, '')
+        .split('\n')
+        .map((line) => [{ content: line }]),
+    };
+
+    await this.ensureInitialized();
+    if (!this.highlighter) {
+      return plain;
+    }
+
+    try {
+      const normalizedLang = await this.loadLanguage(language);
+      if (!normalizedLang) {
+        return plain;
+      }
+      const { tokens, bg } = this.highlighter.codeToTokens(
+        code.replace(/\n$/, ''),
+        { lang: normalizedLang, theme: 'github-light' },
+      );
+      return {
+        background: bg,
+        lines: tokens.map((line) =>
+          line.map(({ content, color, fontStyle }) => ({
+            content,
+            color,
+            fontStyle,
+          })),
+        ),
+      };
+    } catch (error) {
+      console.error('Failed to highlight code:', error);
+      return plain;
+    }
+  }
+
+  /**
+   * Normalize a language name and load its grammar if needed.
+   * Returns null for languages Shiki doesn't support.
+   */
+  private async loadLanguage(
+    language: string,
+  ): Promise<BundledLanguage | null> {
+    if (!this.highlighter) {
+      return null;
+    }
+
+    const normalizedLang = this.normalizeLanguage(language) as BundledLanguage;
+    if (!this.highlighter.getLoadedLanguages().includes(normalizedLang)) {
+      try {
+        await this.highlighter.loadLanguage(normalizedLang);
+      } catch {
+        return null;
+      }
+    }
+    return normalizedLang;
+  }
+
   /**
    * Create a fallback code block without highlighting, with line numbers
    */
@@ -269,12 +330,16 @@ export class CodeRenderer {
   }
 }
 
-// Singleton instance
-let codeRenderer: CodeRenderer | null = null;
+// One instance per code block theme, as engines may use different configs
+const codeRenderers = new Map<CodeBlockTheme, CodeRenderer>();
 
-export function getCodeRenderer(): CodeRenderer {
+export function getCodeRenderer(
+  codeBlockTheme: CodeBlockTheme = 'auto',
+): CodeRenderer {
+  let codeRenderer = codeRenderers.get(codeBlockTheme);
   if (!codeRenderer) {
-    codeRenderer = new CodeRenderer();
+    codeRenderer = new CodeRenderer(codeBlockTheme);
+    codeRenderers.set(codeBlockTheme, codeRenderer);
   }
   return codeRenderer;
 }
@@ -0,0 +1,410 @@
+/**
+ * Diagram renderer - renders Mermaid, GraphViz and Vega/Vega-Lite blocks to
+ * SVG ahead of time, so exported pages show diagrams without running scripts.
+ * Blocks that cannot be rendered here are left for the in-page renderers.
+ */
+
+import * as fs from 'node:fs';
+import { builtinModules } from 'node:module';
+import * as path from 'node:path';
+import { renderMermaid, THEMES } from 'beautiful-mermaid';
+import * as yaml from 'yaml';
+import type { MermaidTheme } from '../../types';
+import { LOCAL_ASSETS_DIR } from '../RuntimeAssets';
+
+export interface DiagramRenderOptions {
+  mermaidTheme: MermaidTheme;
+}
+
+// Minimal shapes of the bundled browser libraries used here
+interface VizInstance {
+  renderString(
+    source: string,
+    options: { engine?: string; format: string },
+  ): string;
+}
+interface VegaLib {
+  View: new (
+    runtime: unknown,
+    options: { renderer: string },
+  ) => { toSVG(): Promise<string> };
+  parse(spec: unknown): unknown;
+}
+interface VegaLiteLib {
+  compile(spec: unknown): { spec: unknown };
+}
+
+export class DiagramRenderer {
+  private vizPromise: Promise<VizInstance | null> | null = null;
+  private vega: VegaLib | null = null;
+  private vegaLite: VegaLiteLib | null = null;
+
+  /**
+   * Replace every renderable diagram block in the HTML with its SVG
+   */
+  async renderAll(
+    html: string,
+    options: DiagramRenderOptions,
+  ): Promise<string> {
+    let result = await this.replaceAsync(
+      html,
+      /<div class="mermaid" data-source="([^"]*)">[\s\S]*?<\/div>/g,
+      async (match, source: string) => {
+        const svg = await this.renderMermaid(
+          this.unescapeHtml(source),
+          options.mermaidTheme,
+        );
+        return svg
+          ? `<div class="mermaid" data-source="${source}" data-rendered="true">${svg}</div>`
+          : match;
+      },
+    );
+
+    result = await this.replaceAsync(
+      result,
+      /<div class="graphviz" data-engine="([^"]*)" data-source="([^"]*)">[\s\S]*?<\/div>/g,
+      async (match, engine: string, source: string) => {
+        const svg = await this.renderGraphViz(
+          this.unescapeHtml(source),
+          this.unescapeHtml(engine),
+        );
+        return svg
+          ? `<div class="graphviz" data-engine="${engine}" data-source="${source}" data-rendered="true">${svg}</div>`
+          : match;
+      },
+    );
+
+    result = await this.replaceAsync(
+      result,
+      /<div class="(vega|vega-lite)" id="([^"]*)" data-source="([^"]*)"><script type="application\/json">[\s\S]*?<\/script><\/div>/g,
+      async (match, kind: string, id: string, source: string) => {
+        const svg = await this.renderVega(
+          this.unescapeHtml(source),
+          kind === 'vega-lite',
+        );
+        return svg
+          ? `<div class="${kind}" id="${id}" data-source="${source}" data-rendered="true">${svg}</div>`
+          : match;
+      },
+    );
+
+    return result;
+  }
+
+  /**
+   * Container classes of the diagrams the HTML still has that need in-page
+   * rendering (see DIAGRAM_LANGUAGES)
+   */
+  static getUnrenderedDiagramKinds(html: string): Set<string> {
+    const kinds = new Set<string>();
+    for (const match of html.matchAll(
+      /<div class="(mermaid|wavedrom|graphviz|vega|vega-lite|recharts)"(?![^>]*data-rendered)[^>]*>/g,
+    )) {
+      kinds.add(match[1]);
+    }
+    return kinds;
+  }
+
+  /**
+   * Render a single diagram to SVG by its container class (see
+   * DIAGRAM_LANGUAGES), or return null if it needs an in-page renderer
+   */
+  async renderSvg(
+    kind: string,
+    source: string,
+    options: DiagramRenderOptions & { engine?: string },
+  ): Promise<string | null> {
+    switch (kind) {
+      case 'mermaid':
+        return this.renderMermaid(source, options.mermaidTheme);
+      case 'graphviz':
+        return this.renderGraphViz(source, options.engine || 'dot');
+      case 'vega':
+      case 'vega-lite':
+        return this.renderVega(source, kind === 'vega-lite');
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Resolve the CSS custom properties and color-mix() colors that Beautiful
+   * Mermaid SVGs are styled with, for consumers without CSS support (Word)
+   */
+  static toStandaloneSvg(svg: string): string {
+    const variables: Record<string, string> = {};
+    for (const [, name, value] of svg.matchAll(
+      /(--[\w-]+)\s*:\s*([^;"]+?)\s*(?:;|(?="))/g,
+    )) {
+      variables[name] = value;
+    }
+
+    const resolve = (text: string, depth = 0): string => {
+      if (depth > 10) {
+        return text;
+      }
+      const withVariables = replaceCssFunction(text, 'var', (args) => {
+        const [name, ...fallback] = splitTopLevel(args);
+        if (!name.trim().startsWith('--')) {
+          return `var(${args})`;
+        }
+        return resolve(
+          variables[name.trim()] ?? fallback.join(',').trim(),
+          depth + 1,
+        );
+      });
+      return replaceCssFunction(
+        withVariables,
+        'color-mix',
+        (args) => mixColors(resolve(args, depth + 1)) ?? `color-mix(${args})`,
+      );
+    };
+
+    return resolve(svg.replace(/@import[^;]*;\s*/g, ''));
+  }
+
+  private async renderMermaid(
+    source: string,
+    theme: MermaidTheme,
+  ): Promise<string | null> {
+    try {
+      // Statement terminators are optional in Mermaid but rejected here
+      const normalized = source.trim().replace(/;\s*$/gm, '');
+      return await renderMermaid(
+        normalized,
+        THEMES[theme] || THEMES['github-light'],
+      );
+    } catch {
+      // Unsupported diagram type - vanilla Mermaid renders it in the page
+      return null;
+    }
+  }
+
+  private async renderGraphViz(
+    source: string,
+    engine: string,
+  ): Promise<string | null> {
+    if (!this.vizPromise) {
+      this.vizPromise = Promise.resolve().then(() => {
+        const viz = this.loadBundledLibrary<{
+          instance(): Promise<VizInstance>;
+        }>('@viz-js/viz/dist/viz-global.js');
+        return viz ? viz.instance() : null;
+      });
+    }
+    try {
+      const viz = await this.vizPromise;
+      return viz ? viz.renderString(source, { engine, format: 'svg' }) : null;
+    } catch (error) {
+      console.warn('GraphViz pre-render error:', error);
+      return null;
+    }
+  }
+
+  private async renderVega(
+    source: string,
+    isVegaLite: boolean,
+  ): Promise<string | null> {
+    if (!this.vega) {
+      this.vega = this.loadBundledLibrary<VegaLib>('vega/build/vega.min.js');
+    }
+    if (isVegaLite && !this.vegaLite && this.vega) {
+      const vega = this.vega;
+      this.vegaLite = this.loadBundledLibrary<VegaLiteLib>(
+        'vega-lite/build/vega-lite.min.js',
+        { vega },
+      );
+    }
+    if (!this.vega || (isVegaLite && !this.vegaLite)) {
+      return null;
+    }
+
+    try {
+      // Specs may be written as JSON or YAML
+      let spec: unknown;
+      try {
+        spec = JSON.parse(source);
+      } catch {
+        spec = yaml.parse(source);
+      }
+      if (isVegaLite && this.vegaLite) {
+        spec = this.vegaLite.compile(spec).spec;
+      }
+      const view = new this.vega.View(this.vega.parse(spec), {
+        renderer: 'none',
+      });
+      const svg = await view.toSVG();
+      return svg.replace(/^<\?xml[^>]*>\s*(?:<!DOCTYPE[^>]*>\s*)?/, '');
+    } catch (error) {
+      console.warn('Vega pre-render error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Evaluate a bundled UMD build from out/assets in CommonJS mode
+   */
+  private loadBundledLibrary<T>(
+    file: string,
+    dependencies: Record<string, unknown> = {},
+  ): T | null {
+    try {
+      const filename = path.join(LOCAL_ASSETS_DIR, file);
+      const code = fs.readFileSync(filename, 'utf-8');
+      const module = { exports: {} as T };
+      const requireDependency = (id: string) => {
+        if (id in dependencies) {
+          return dependencies[id];
+        }
+        // Emscripten builds (Viz.js) probe Node built-ins to locate their wasm
+        if (builtinModules.includes(id.replace(/^node:/, ''))) {
+          return require(id);
+        }
+        throw new Error(`Cannot find module '${id}'`);
+      };
+      new Function(
+        'exports',
+        'module',
+        'require',
+        '__filename',
+        '__dirname',
+        code,
+      )(
+        module.exports,
+        module,
+        requireDependency,
+        filename,
+        path.dirname(filename),
+      );
+      return module.exports;
+    } catch (error) {
+      console.warn(`Failed to load bundled library ${file}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * String.replace with an async replacer
+   */
+  private async replaceAsync(
+    text: string,
+    pattern: RegExp,
+    replacer: (match: string, ...groups: string[]) => Promise<string>,
+  ): Promise<string> {
+    const replacements: Promise<string>[] = [];
+    text.replace(pattern, (match: string, ...groups: string[]) => {
+      replacements.push(replacer(match, ...groups));
+      return match;
+    });
+    const resolved = await Promise.all(replacements);
+    let index = 0;
+    return text.replace(pattern, () => resolved[index++]);
+  }
+
+  /**
+   * Unescape HTML entities
+   */
+  private unescapeHtml(text: string): string {
+    const htmlEntities: Record<string, string> = {
+      '&amp;': '&',
+      '&lt;': '<',
+      '&gt;': '>',
+      '&quot;': '"',
+      '&#39;': "'",
+    };
+    return text.replace(
+      /&(?:amp|lt|gt|quot|#39);/g,
+      (entity) => htmlEntities[entity] || entity,
+    );
+  }
+}
+
+/**
+ * Replace every call of a CSS function, matching nested parentheses
+ */
+function replaceCssFunction(
+  text: string,
+  name: string,
+  replacer: (args: string) => string,
+): string {
+  let result = '';
+  let position = 0;
+  const pattern = new RegExp(`\\b${name}\\(`, 'g');
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const argsStart = match.index + match[0].length;
+    let depth = 1;
+    let end = argsStart;
+    while (end < text.length && depth > 0) {
+      if (text[end] === '(') depth++;
+      else if (text[end] === ')') depth--;
+      end++;
+    }
+    if (depth > 0) {
+      break;
+    }
+    result +=
+      text.slice(position, match.index) +
+      replacer(text.slice(argsStart, end - 1));
+    position = end;
+    pattern.lastIndex = end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Split CSS function arguments on top-level commas
+ */
+function splitTopLevel(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '(') depth++;
+    else if (args[i] === ')') depth--;
+    else if (args[i] === ',' && depth === 0) {
+      parts.push(args.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(args.slice(start));
+  return parts;
+}
+
+/**
+ * Evaluate `color-mix(in srgb, <color> <p>%, <color>)` for hex colors
+ */
+function mixColors(args: string): string | null {
+  const [space, first, second] = splitTopLevel(args).map((part) => part.trim());
+  if (space !== 'in srgb' || !first || !second) {
+    return null;
+  }
+
+  const parse = (part: string) => {
+    const match = part.match(/^#([0-9a-f]{3}|[0-9a-f]{6})\s*(?:([\d.]+)%)?$/i);
+    if (!match) {
+      return null;
+    }
+    const hex =
+      match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+    return {
+      rgb: [0, 2, 4].map((i) => Number.parseInt(hex.slice(i, i + 2), 16)),
+      weight: match[2] !== undefined ? Number(match[2]) / 100 : undefined,
+    };
+  };
+
+  const a = parse(first);
+  const b = parse(second);
+  if (!a || !b) {
+    return null;
+  }
+  const weightA = a.weight ?? 1 - (b.weight ?? 0.5);
+  const weightB = b.weight ?? 1 - weightA;
+  const total = weightA + weightB || 1;
+  return `#${a.rgb
+    .map((channel, i) =>
+      Math.round((channel * weightA + b.rgb[i] * weightB) / total)
+        .toString(16)
+        .padStart(2, '0'),
+    )
+    .join('')}`;
+}
@@ -3,15 +3,46 @@
  */
 
 import katex from 'katex';
-import { getFullConfig } from '../../config/ConfigManager';
-import { type KatexOptions, MathRenderingOption } from '../../types';
+import {
+  type KatexOptions,
+  type MarkdownLivePreviewConfig,
+  MathRenderingOption,
+} from '../../types';
 
 export interface MathRenderResult {
   html: string;
   error?: string;
 }
 
+// A run of plain text, or a math expression (without its delimiters)
+export interface MathSegment {
+  text: string;
+  isMath: boolean;
+  displayMode: boolean;
+}
+
+// `\label{...}`, which KaTeX does not support
+const LABEL_PATTERN = /\\label\{([^{}]*)\}/g;
+
+/**
+ * Take the `\label{...}` commands out of a math expression, returning the
+ * expression without them and the first label
+ */
+function extractLabel(expression: string): {
+  expression: string;
+  label?: string;
+} {
+  let label: string | undefined;
+  const rest = expression.replace(LABEL_PATTERN, (_, name: string) => {
+    label ??= name;
+    return '';
+  });
+  return { expression: rest, label };
+}
+
 export class KatexRenderer {
+  private mathConfig: MarkdownLivePreviewConfig['math'];
+
   private defaultOptions: Partial<KatexOptions> = {
     throwOnError: false,
     errorColor: '#cc0000',
@@ -21,23 +52,35 @@ export class KatexRenderer {
     maxExpand: 1000,
   };
 
+  constructor(mathConfig: MarkdownLivePreviewConfig['math']) {
+    this.mathConfig = mathConfig;
+  }
+
+  /**
+   * Update the math configuration
+   */
+  updateConfig(mathConfig: MarkdownLivePreviewConfig['math']): void {
+    this.mathConfig = mathConfig;
+  }
+
   /**
-   * Render a math expression to HTML
+   * Render a math expression to HTML. `\label{...}` is left out; see
+   * processMathInContent.
    */
   render(
-    expression: string,
+    latex: string,
     displayMode: boolean = false,
     options?: Partial<KatexOptions>,
   ): MathRenderResult {
-    const config = getFullConfig();
+    const { expression } = extractLabel(latex);
 
     // Check if math rendering is disabled
-    if (config.math.renderingOption === MathRenderingOption.None) {
+    if (this.mathConfig.renderingOption === MathRenderingOption.None) {
       return { html: this.escapeHtml(expression) };
     }
 
     // Check if MathJax is preferred
-    if (config.math.renderingOption === MathRenderingOption.MathJax) {
+    if (this.mathConfig.renderingOption === MathRenderingOption.MathJax) {
       return this.renderForMathJax(expression, displayMode);
     }
 
@@ -89,24 +132,101 @@ export class KatexRenderer {
   }
 
   /**
-   * Process markdown content and replace math expressions with rendered HTML
+   * Render a math expression to MathML (the `<math>` element), or null when
+   * math rendering is disabled or the expression is invalid
    */
-  processMathInContent(content: string): string {
-    const config = getFullConfig();
+  renderMathML(latex: string, displayMode: boolean = false): string | null {
+    if (this.mathConfig.renderingOption === MathRenderingOption.None) {
+      return null;
+    }
+
+    try {
+      const html = katex.renderToString(extractLabel(latex).expression, {
+        ...this.defaultOptions,
+        displayMode,
+        throwOnError: true,
+        output: 'mathml',
+      } as katex.KatexOptions);
+      return html.match(/<math[\s\S]*<\/math>/)?.[0] ?? null;
+    } catch (error) {
+      console.warn(
+        'KaTeX rendering error:',
+        error instanceof Error ? error.message : error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Split text into plain text and math expressions, using the configured
+   * delimiters (block delimiters first, as in processMathInContent)
+   */
+  splitMath(text: string): MathSegment[] {
+    let segments: MathSegment[] = [{ text, isMath: false, displayMode: false }];
+    if (this.mathConfig.renderingOption === MathRenderingOption.None) {
+      return segments;
+    }
+
+    const passes: Array<[string[], boolean]> = [
+      ...this.mathConfig.blockDelimiters.map(
+        (delimiters): [string[], boolean] => [delimiters, true],
+      ),
+      ...this.mathConfig.inlineDelimiters.map(
+        (delimiters): [string[], boolean] => [delimiters, false],
+      ),
+    ];
+
+    for (const [[start, end], displayMode] of passes) {
+      const pattern = this.getDelimiterPattern(start, end);
+      segments = segments.flatMap((segment) => {
+        if (segment.isMath) {
+          return [segment];
+        }
+        const parts: MathSegment[] = [];
+        let lastIndex = 0;
+        for (const match of segment.text.matchAll(pattern)) {
+          const index = match.index ?? 0;
+          parts.push(
+            {
+              text: segment.text.slice(lastIndex, index),
+              isMath: false,
+              displayMode: false,
+            },
+            { text: match[1].trim(), isMath: true, displayMode },
+          );
+          lastIndex = index + match[0].length;
+        }
+        parts.push({
+          text: segment.text.slice(lastIndex),
+          isMath: false,
+          displayMode: false,
+        });
+        return parts;
+      });
+    }
+
+    return segments.filter((segment) => segment.isMath || segment.text);
+  }
 
-    if (config.math.renderingOption === MathRenderingOption.None) {
+  /**
+   * Process markdown content and replace math expressions with rendered HTML.
+   * The label of a `\label{...}` becomes the id of the rendered math, so
+   * that links can point to it.
+   */
+  processMathInContent(content: string): string {
+    if (this.mathConfig.renderingOption === MathRenderingOption.None) {
       return content;
     }
 
     let result = content;
 
     // Process block math first (to avoid conflicts with inline)
-    for (const [start, end] of config.math.blockDelimiters) {
+    for (const [start, end] of this.mathConfig.blockDelimiters) {
       result = this.processMathDelimiters(result, start, end, true);
     }
 
     // Process inline math
-    for (const [start, end] of config.math.inlineDelimiters) {
+    for (const [start, end] of this.mathConfig.inlineDelimiters) {
       result = this.processMathDelimiters(result, start, end, false);
     }
 
@@ -122,32 +242,19 @@ export class KatexRenderer {
     endDelimiter: string,
     displayMode: boolean,
   ): string {
-    const escapedStart = this.escapeRegex(startDelimiter);
-    const escapedEnd = this.escapeRegex(endDelimiter);
+    const pattern = this.getDelimiterPattern(startDelimiter, endDelimiter);
 
-    // Create regex pattern
-    // For single $ delimiter, be more careful to avoid false positives
-    let pattern: RegExp;
-    if (startDelimiter === '$' && endDelimiter === '$') {
-      // Don't match $$ (that's for block math)
-      // Don't match $ followed by whitespace or at start of line
-      // Don't match $ preceded by \ (escaped)
-      pattern = /(?<!\\)(?<!\$)\$(?!\$)(.+?)(?<!\\)\$(?!\$)/g;
-    } else if (startDelimiter === '$$' && endDelimiter === '$$') {
-      pattern = /(?<!\\)\$\$([\s\S]+?)(?<!\\)\$\$/g;
-    } else {
-      pattern = new RegExp(`${escapedStart}([\\s\\S]+?)${escapedEnd}`, 'g');
-    }
-
-    return content.replace(pattern, (_, expression: string) => {
+    return content.replace(pattern, (_, latex: string) => {
+      const { expression, label } = extractLabel(latex.trim());
       const trimmedExpression = expression.trim();
       const result = this.render(trimmedExpression, displayMode);
+      const idAttr = label ? ` id="${this.escapeHtmlAttribute(label)}"` : '';
 
       if (displayMode) {
         // Block math with control panel
         const escapedSource = this.escapeHtmlAttribute(trimmedExpression);
         return (
-          `<div class="math-container">` +
+          `<div class="math-container"${idAttr}>` +
           `<div class="math-controls">` +
           `<button class="math-toggle-btn" title="Toggle controls">⋯</button>` +
           `<div class="math-controls-expanded">` +
@@ -159,11 +266,34 @@ export class KatexRenderer {
           `</div>`
         );
       } else {
-        return `<span class="math-inline">${result.html}</span>`;
+        return `<span class="math-inline"${idAttr}>${result.html}</span>`;
       }
     });
   }
 
+  /**
+   * Create the regex matching math between the given delimiters
+   */
+  private getDelimiterPattern(
+    startDelimiter: string,
+    endDelimiter: string,
+  ): RegExp {
+    const escapedStart = this.escapeRegex(startDelimiter);
+    const escapedEnd = this.escapeRegex(endDelimiter);
+
+    // For single $ delimiter, be more careful to avoid false positives
+    if (startDelimiter === '$' && endDelimiter === '$') {
+      // Don't match $$ (that's for block math)
+      // Don't match $ followed by whitespace or at start of line
+      // Don't match $ preceded by \ (escaped)
+      return /(?<!\\)(?<!\$)\$(?!\$)(.+?)(?<!\\)\$(?!\$)/g;
+    }
+    if (startDelimiter === '$$' && endDelimiter === '$$') {
+      return /(?<!\\)\$\$([\s\S]+?)(?<!\\)\$\$/g;
+    }
+    return new RegExp(`${escapedStart}([\\s\\S]+?)${escapedEnd}`, 'g');
+  }
+
   /**
    * Render content for MathJax (just wrap in appropriate delimiters)
    */
@@ -308,13 +438,3 @@ export class KatexRenderer {
     return 'https://cdn.jsdelivr.net/npm/katex@0.16.21/dist/katex.min.css';
   }
 }
-
-// Singleton instance
-let katexRenderer: KatexRenderer | null = null;
-
-export function getKatexRenderer(): KatexRenderer {
-  if (!katexRenderer) {
-    katexRenderer = new KatexRenderer();
-  }
-  return katexRenderer;
-}
@@ -3,4 +3,5 @@
  */
 
 export * from './CodeRenderer';
+export * from './DiagramRenderer';
 export * from './KatexRenderer';
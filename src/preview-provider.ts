@@ -10,7 +10,10 @@ import { tmpdir } from 'node:os';
 import * as path from 'node:path';
 import { Mutex } from 'async-mutex';
 import * as vscode from 'vscode';
-import { getMLPConfig } from './config';
+import { getCodeChunkManager } from './code-chunk';
+import { getFullConfig, getMLPConfig } from './config';
+import { DependencyWatcher } from './dependency-watcher';
+import { saveAsHtml } from './export/HtmlExporter';
 import {
   clearAllEngineCaches,
   getMarkdownEngine,
@@ -56,6 +59,10 @@ export class PreviewProvider {
     new Map();
   private initializedPreviews: Set<vscode.WebviewPanel> = new Set();
   private jsAndCssFilesMaps: { [key: string]: string[] } = {};
+  // Imported and embedded files of the previewed documents
+  private dependencyWatcher = new DependencyWatcher((fileUri) =>
+    this.updateDependentPreviews(fileUri),
+  );
 
   /**
    * Timestamp of the most recent user-initiated preview close.
@@ -76,6 +83,7 @@ export class PreviewProvider {
   ) {
     this.context = context;
     this.previewManager.initialize(context);
+    context.subscriptions.push(this.dependencyWatcher);
     return this;
   }
 
@@ -221,38 +229,9 @@ export class PreviewProvider {
           (message) => {
             if (!message.command) return;
 
-            // Handle saveAsHtml — show save dialog and write HTML file
+            // Handle saveAsHtml — export a self-contained page rendered from source
             if (message.command === 'saveAsHtml') {
-              const htmlContent = message.args?.[0] as string;
-              if (!htmlContent) return;
-              const defaultName = `${path.basename(
-                sourceUri.fsPath,
-                path.extname(sourceUri.fsPath),
-              )}.html`;
-              const workspaceFolder = getWorkspaceFolderUri(sourceUri);
-              const defaultUri = workspaceFolder
-                ? vscode.Uri.joinPath(workspaceFolder, defaultName)
-                : vscode.Uri.file(
-                    path.join(path.dirname(sourceUri.fsPath), defaultName),
-                  );
-              vscode.window
-                .showSaveDialog({
-                  defaultUri,
-                  filters: { 'HTML Files': ['html', 'htm'] },
-                })
-                .then((saveUri) => {
-                  if (!saveUri) return;
-                  try {
-                    fs.writeFileSync(saveUri.fsPath, htmlContent, 'utf-8');
-                    vscode.window.showInformationMessage(
-                      `Saved to ${saveUri.fsPath}`,
-                    );
-                  } catch (err) {
-                    vscode.window.showErrorMessage(
-                      `Failed to save HTML: ${err}`,
-                    );
-                  }
-                });
+              saveAsHtml(sourceUri, message.args?.[0] as string);
               return;
             }
 
@@ -324,6 +303,7 @@ export class PreviewProvider {
                     contentSecurityPolicy: '',
                     vscodePreviewPanel: previewPanel,
                     isVSCodeWebExtension: isVSCodeWebExtension(),
+                    assetsBaseUri: this.getAssetsBaseUri(previewPanel),
                   });
                   // Force webview reload by appending a unique nonce comment.
                   // VS Code skips reload when webview.html is identical to the previous value.
@@ -332,6 +312,7 @@ export class PreviewProvider {
                     `<!-- refresh-${Date.now()} -->\n</html>`,
                   );
                   previewPanel.webview.html = nonceHtml;
+                  this.watchDependencies(currentUri);
                 })
                 .catch((err) => {
                   console.error('[MLP] refreshPreview error:', err);
@@ -463,6 +444,7 @@ export class PreviewProvider {
         contentSecurityPolicy: '',
         vscodePreviewPanel: previewPanel,
         isVSCodeWebExtension: isVSCodeWebExtension(),
+        assetsBaseUri: this.getAssetsBaseUri(previewPanel),
       });
 
       if (
@@ -475,6 +457,7 @@ export class PreviewProvider {
       }
 
       previewPanel.webview.html = html;
+      this.watchDependencies(sourceUri);
     } catch (error) {
       vscode.window.showErrorMessage(String(error));
       console.error(error);
@@ -536,6 +519,7 @@ export class PreviewProvider {
       this.previewMaps = new Map();
       this.latestInitRequestBySourceUri.clear();
       this.latestRenderRequestBySourceUri.clear();
+      this.dependencyWatcher.unwatchAll();
     } else {
       const previews = this.getPreviews(sourceUri);
       if (previews) {
@@ -547,6 +531,7 @@ export class PreviewProvider {
       const sourceUriString = sourceUri.toString();
       this.latestInitRequestBySourceUri.delete(sourceUriString);
       this.latestRenderRequestBySourceUri.delete(sourceUriString);
+      this.dependencyWatcher.unwatch(sourceUri);
     }
   }
 
@@ -554,8 +539,19 @@ export class PreviewProvider {
     // Engine cleanup is handled by the engine cache
   }
 
+  /**
+   * Webview URI of the runtime assets bundled with the extension (out/assets)
+   */
+  private getAssetsBaseUri(previewPanel: vscode.WebviewPanel): string {
+    return previewPanel.webview
+      .asWebviewUri(
+        vscode.Uri.joinPath(this.context.extensionUri, 'out', 'assets'),
+      )
+      .toString();
+  }
+
   private getEngine(sourceUri: vscode.Uri): MarkdownEngine {
-    return getMarkdownEngine(sourceUri.fsPath);
+    return getMarkdownEngine(sourceUri.fsPath, getFullConfig());
   }
 
   public refreshAllPreviews(): void {
@@ -599,6 +595,54 @@ export class PreviewProvider {
     }
   }
 
+  /**
+   * Update the previews of the documents that import or embed the file
+   */
+  public updateDependentPreviews(fileUri: vscode.Uri): void {
+    for (const [sourceUriString] of this.previewMaps) {
+      const sourceUri = vscode.Uri.parse(sourceUriString);
+      if (
+        sourceUri.fsPath !== fileUri.fsPath &&
+        this.getEngine(sourceUri).dependsOn(fileUri.fsPath)
+      ) {
+        this.updateMarkdown(sourceUri);
+      }
+    }
+  }
+
+  /**
+   * Show the outputs of the document's code chunks from their last run,
+   * which the rendered HTML leaves empty
+   */
+  private async postCachedChunkOutputs(
+    sourceUri: vscode.Uri,
+    markdown: string,
+  ): Promise<void> {
+    const manager = getCodeChunkManager(sourceUri.toString());
+    manager.parseChunks(markdown);
+    for (const { chunkId, output, stale } of manager.getCachedOutputs()) {
+      await this.postMessageToPreview(sourceUri, {
+        command: 'codeChunkResult',
+        chunkId,
+        html: output.result,
+        status: output.status,
+        stale,
+      });
+    }
+  }
+
+  /**
+   * Watch the files that the last render of the document imports or embeds
+   */
+  private watchDependencies(sourceUri: vscode.Uri): void {
+    this.dependencyWatcher.watch(
+      sourceUri,
+      this.getEngine(sourceUri)
+        .getDependencies()
+        .map((dependency) => dependency.path),
+    );
+  }
+
   public closeAllPreviews(previewMode: PreviewMode): void {
     if (previewMode === PreviewMode.SinglePreview) {
       if (PreviewProvider.singlePreviewPanel) {
@@ -619,6 +663,7 @@ export class PreviewProvider {
     this.updateTimeouts.clear();
     this.latestInitRequestBySourceUri.clear();
     this.latestRenderRequestBySourceUri.clear();
+    this.dependencyWatcher.unwatchAll();
     PreviewProvider.singlePreviewPanel = null;
     PreviewProvider.singlePreviewPanelSourceUriTarget = null;
   }
@@ -741,6 +786,7 @@ export class PreviewProvider {
           ) {
             return;
           }
+          this.watchDependencies(sourceUri);
 
           const normalizedResources = this.normalizeResourceList(JSAndCssFiles);
           const previousResources = this.normalizeResourceList(
@@ -767,6 +813,7 @@ export class PreviewProvider {
               id: yamlConfig.id || '',
               class: yamlConfig.class || '',
             });
+            await this.postCachedChunkOutputs(sourceUri, text);
           }
           return;
         } catch (error) {
@@ -6,6 +6,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as vscode from 'vscode';
 import { getFullConfig, getMLPConfig, updateMLPConfig } from '../config/ConfigManager';
+import { saveAsHtml } from '../export/HtmlExporter';
 import { MarkdownEngine } from '../markdown/MarkdownEngine';
 import {
   getWorkspaceFolderUri,
@@ -40,7 +41,7 @@ export class PreviewPanel {
     this.panel = panel;
     this.sourceUri = sourceUri;
     this.document = document;
-    this.engine = new MarkdownEngine();
+    this.engine = new MarkdownEngine(getFullConfig());
 
     // Set up message handler
     this.panel.webview.onDidReceiveMessage(
@@ -211,9 +212,9 @@ export class PreviewPanel {
   private handleMessage(message: { command: string; args?: unknown[] }): void {
     if (!message.command) return;
 
-    // Handle saveAsHtml — show save dialog and write HTML file
+    // Handle saveAsHtml — export a self-contained page rendered from source
     if (message.command === 'saveAsHtml') {
-      this.handleSaveAsHtml(message.args?.[0] as string);
+      saveAsHtml(this.sourceUri, message.args?.[0] as string);
       return;
     }
 
@@ -288,38 +289,6 @@ export class PreviewPanel {
     }
   }
 
-  /**
-   * Handle "Save as HTML" action from the context menu
-   */
-  private async handleSaveAsHtml(htmlContent: string): Promise<void> {
-    if (!htmlContent) return;
-
-    const defaultName = `${path.basename(
-      this.sourceUri.fsPath,
-      path.extname(this.sourceUri.fsPath),
-    )}.html`;
-    const workspaceFolder = getWorkspaceFolderUri(this.sourceUri);
-    const defaultUri = workspaceFolder
-      ? vscode.Uri.joinPath(workspaceFolder, defaultName)
-      : vscode.Uri.file(
-          path.join(path.dirname(this.sourceUri.fsPath), defaultName),
-        );
-
-    const saveUri = await vscode.window.showSaveDialog({
-      defaultUri,
-      filters: { 'HTML Files': ['html', 'htm'] },
-    });
-
-    if (!saveUri) return;
-
-    try {
-      fs.writeFileSync(saveUri.fsPath, htmlContent, 'utf-8');
-      vscode.window.showInformationMessage(`Saved to ${saveUri.fsPath}`);
-    } catch (err) {
-      vscode.window.showErrorMessage(`Failed to save HTML: ${err}`);
-    }
-  }
-
   /**
    * Handle file download (SVG/PNG) from the context menu
    */
@@ -106,6 +106,26 @@ export type WikiLinkTargetFileNameChangeCase =
   | 'lowerCase'
   | 'upperCase';
 
+// Where the preview loads its runtime libraries (KaTeX, Mermaid, Reveal.js, ...) from
+export type AssetsMode = 'cdn' | 'local';
+
+// Paper sizes for PDF export
+export type PdfPageSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
+
+// A `::: type` container declared in settings or front matter
+export interface CustomContainerType {
+  // Text, emoji or HTML shown before the title
+  icon?: string;
+  // CSS colour of the border and background
+  color?: string;
+  // Title when the container gives none
+  title?: string;
+  // Render as a <details> block that folds
+  collapsible?: boolean;
+  // Collapsible containers start expanded
+  open?: boolean;
+}
+
 // Main configuration interface
 export interface MarkdownLivePreviewConfig {
   preview: {
@@ -135,6 +155,7 @@ export interface MarkdownLivePreviewConfig {
     enableIndentedCodeBlock: boolean;
     indentedCodeBlockSpaces: number;
     frontMatterRenderingOption: FrontMatterRenderingOption;
+    customContainers: Record<string, CustomContainerType>;
   };
 
   math: {
@@ -163,19 +184,38 @@ export interface MarkdownLivePreviewConfig {
 
   misc: {
     jsdelivrCdnHost: string;
+    assets: AssetsMode;
+    assetsCdnFallback: boolean;
     hideDefaultVSCodeMarkdownPreviewButtons: boolean;
     markdownFileExtensions: string[];
     configPath: string;
   };
 
+  export: {
+    chromePath: string;
+    pdfPageSize: PdfPageSize;
+    pdfMargin: string;
+    pandocPath: string;
+    pandocArguments: string[];
+    siteOutputDirectory: string;
+  };
+
   codeChunk: {
     enableScriptExecution: boolean;
     defaultShell: string;
     latexEngine: string;
     executionTimeout: number;
+    sessionBackend: CodeChunkSessionBackend;
   };
 }
 
+// Per-section partial configuration (e.g. a JSON file passed to the CLI)
+export type MarkdownLivePreviewConfigOverrides = {
+  [K in keyof MarkdownLivePreviewConfig]?: Partial<
+    MarkdownLivePreviewConfig[K]
+  >;
+};
+
 // Parsed markdown result
 export interface ParsedMarkdownResult {
   html: string;
@@ -256,6 +296,13 @@ export type CodeChunkOutputFormat =
   | 'png'
   | 'none';
 
+// How `continue` code chunks keep state: an interpreter REPL process or a
+// Jupyter kernel
+export type CodeChunkSessionBackend = 'process' | 'jupyter';
+
+// Rich output of a Jupyter kernel: the data of one output by MIME type
+export type MimeBundle = Record<string, unknown>;
+
 // Code chunk execution status
 export type CodeChunkStatus = 'idle' | 'running' | 'success' | 'error';
 
@@ -277,6 +324,8 @@ export interface CodeChunkAttributes {
   latex_width: string;
   latex_height: string;
   latex_engine: string;
+  // Kernelspec name of the Jupyter kernel that runs the chunk's session
+  kernel: string;
 }
 
 // Code chunk data
@@ -287,6 +336,8 @@ export interface CodeChunk {
   attrs: CodeChunkAttributes;
   line: number;
   result: string;
+  // Raw output of the last run, for exporters that render it themselves
+  stdout: string;
   status: CodeChunkStatus;
   running: boolean;
   error: string;
@@ -0,0 +1,43 @@
+const { spawnSync } = require('node:child_process');
+const { readdirSync } = require('node:fs');
+const path = require('node:path');
+const { build } = require('esbuild');
+
+/**
+ * Unit tests: bundle each test/unit/*.test.ts like the CLI, without the
+ * `vscode` module, and run them with the Node test runner
+ */
+async function main() {
+  const unitDir = path.resolve(__dirname, 'unit');
+  const outDir = path.resolve(__dirname, '../out/test');
+  const tests = readdirSync(unitDir)
+    .filter((file) => file.endsWith('.test.ts'))
+    .sort();
+
+  await build({
+    entryPoints: tests.map((file) => path.join(unitDir, file)),
+    bundle: true,
+    platform: 'node',
+    outdir: outDir,
+    target: 'node18',
+    format: 'cjs',
+    sourcemap: true,
+    logLevel: 'warning',
+  });
+
+  const result = spawnSync(
+    process.execPath,
+    [
+      '--enable-source-maps',
+      '--test',
+      ...tests.map((file) => path.join(outDir, file.replace(/\.ts$/, '.js'))),
+    ],
+    { stdio: 'inherit' },
+  );
+  process.exit(result.status ?? 1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,250 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { defaultConfig } from '../../src/config/defaults';
+import { CitationProcessor } from '../../src/markdown/Citations';
+import {
+  type GlossaryEntry,
+  MarkdownParser,
+  parseAttributes,
+  parseCitationCluster,
+} from '../../src/markdown/MarkdownParser';
+
+const parser = new MarkdownParser(JSON.parse(JSON.stringify(defaultConfig)));
+
+// Rendered without data-line attributes; what the rules leave in the
+// environment stays in `env`
+function render(markdown: string, env: Record<string, unknown> = {}): string {
+  return parser
+    .render(markdown, Object.assign(env, { noSourceLines: true }))
+    .trim();
+}
+
+describe('citations', () => {
+  const citations = () =>
+    new CitationProcessor([
+      {
+        id: 'doe2020',
+        type: 'book',
+        title: 'A Book',
+        author: [{ family: 'Doe', given: 'J' }],
+        issued: { 'date-parts': [[2020]] },
+      },
+    ]);
+
+  it('parses prefixes, locators and suffixes', () => {
+    assert.deepEqual(
+      parseCitationCluster('see @doe2020, p. 12; -@roe, chap. 3, note'),
+      [
+        { id: 'doe2020', prefix: 'see', label: 'page', locator: '12' },
+        {
+          id: 'roe',
+          'suppress-author': true,
+          label: 'chapter',
+          locator: '3',
+          suffix: ', note',
+        },
+      ],
+    );
+    assert.equal(parseCitationCluster('mail me@example.com'), null);
+  });
+
+  it('formats citations with the bibliography', () => {
+    assert.equal(
+      render('See [@doe2020, p. 3].', { citations: citations() }),
+      '<p>See <span class="citation" data-cites="doe2020" title="Doe, J. (2020). A Book.">(Doe, 2020, p. 3)</span>.</p>',
+    );
+  });
+
+  it('marks clusters with unknown keys', () => {
+    assert.equal(
+      render('[@doe2020; @nope]', { citations: citations() }),
+      '<p><span class="citation citation-missing" data-cites="doe2020 nope" title="Citation not found: nope">[@doe2020; @nope]</span></p>',
+    );
+  });
+
+  it('leaves the text as written without a bibliography', () => {
+    assert.equal(render('See [@doe2020].'), '<p>See [@doe2020].</p>');
+  });
+});
+
+describe('cross-references', () => {
+  it('numbers figures and tables and links references to them', () => {
+    const env: Record<string, unknown> = {};
+    const html = render(
+      [
+        '![Cat](cat.png){#fig:cat}',
+        '',
+        'See @fig:cat and [@tbl:data].',
+        '',
+        '| a |',
+        '|---|',
+        '| 1 |',
+        '',
+        ': Data {#tbl:data}',
+      ].join('\n'),
+      env,
+    );
+    assert.match(
+      html,
+      /<figure id="fig:cat" class="figure"><img src="cat.png" alt="Cat"><figcaption>Figure 1: Cat<\/figcaption><\/figure>/,
+    );
+    assert.match(
+      html,
+      /See <a href="#fig:cat" class="cross-ref">Figure 1<\/a> and <a href="#tbl:data" class="cross-ref">Table 1<\/a>\./,
+    );
+    assert.match(
+      html,
+      /<table id="tbl:data">\n<caption>Table 1: Data<\/caption>/,
+    );
+    assert.deepEqual(env.crossReferences, {
+      labels: new Map([
+        ['fig:cat', 1],
+        ['tbl:data', 1],
+      ]),
+      unresolved: [],
+    });
+  });
+
+  it('tags labelled equations and leaves the label to the math renderer', () => {
+    const env: Record<string, unknown> = {};
+    const html = render('$$\nx = 1 \\label{eq:one}\n$$\n\nSee @eq:one.', env);
+    assert.match(html, /^<p>\$\$<br>\nx = 1 \\tag\{1\}\\label\{eq:one\}<br>/);
+    assert.match(html, /<a href="#eq:one" class="cross-ref">Equation 1<\/a>/);
+    assert.doesNotMatch(html, /<p id=/);
+  });
+
+  it('marks unresolved references', () => {
+    const env: Record<string, unknown> = {};
+    assert.equal(
+      render('Missing [@fig:none; @eq:one].', env),
+      '<p>Missing <span class="cross-ref cross-ref-missing" title="Unresolved reference">@fig:none</span>, <span class="cross-ref cross-ref-missing" title="Unresolved reference">@eq:one</span>.</p>',
+    );
+    assert.deepEqual(
+      (env.crossReferences as { unresolved: string[] }).unresolved,
+      ['fig:none', 'eq:one'],
+    );
+  });
+});
+
+describe('attributes', () => {
+  it('parses ids, classes and key=value pairs', () => {
+    assert.deepEqual(parseAttributes('#intro .lead .wide key="a b"'), {
+      id: 'intro',
+      class: 'lead wide',
+      key: 'a b',
+    });
+  });
+
+  it('applies trailing attributes to headings and paragraphs', () => {
+    assert.equal(
+      render('# Title {#intro .lead}\n\nText\n{.note}'),
+      '<h1 id="intro" class="lead">Title</h1>\n<p class="note">Text</p>',
+    );
+  });
+
+  it('applies attributes to inline elements and spans', () => {
+    assert.equal(
+      render('*word*{.hl} [link](u){target=_blank} [span]{#s key=v}'),
+      '<p><em class="hl">word</em> <a href="u" target="_blank">link</a> <span id="s" key="v">span</span></p>',
+    );
+  });
+
+  it('applies an attribute paragraph to the block before it', () => {
+    assert.equal(
+      render('> quote\n\n{.aside}'),
+      '<blockquote class="aside">\n<p>quote</p>\n</blockquote>',
+    );
+  });
+
+  it('leaves other text in braces alone', () => {
+    assert.equal(render('Set {a, b} and {x}'), '<p>Set {a, b} and {x}</p>');
+  });
+});
+
+describe('containers', () => {
+  const containers = new Map([
+    ['note', { icon: 'i' }],
+    ['details', { collapsible: true }],
+    ['exercise', { icon: '✍', color: '#8e44ad', collapsible: true }],
+  ]);
+
+  it('renders a callout titled with its type by default', () => {
+    assert.equal(
+      render('::: note\nBody\n:::', { containers }),
+      '<div class="callout callout-note custom-container"><p><strong class="callout-title"><span class="callout-icon">i</span> Note</strong></p>\n<p>Body</p>\n</div>',
+    );
+  });
+
+  it('renders collapsible and colored types', () => {
+    assert.equal(
+      render('::: Exercise Try it\nDo\n:::', { containers }),
+      '<details class="callout callout-exercise custom-container" style="border-left-color: #8e44ad; background-color: color-mix(in srgb, #8e44ad 10%, transparent)"><summary><strong class="callout-title"><span class="callout-icon">✍</span> Try it</strong></summary>\n<p>Do</p>\n</details>',
+    );
+  });
+
+  it('nests containers opened with fewer colons', () => {
+    assert.equal(
+      render(':::: note\nOuter\n:::details[More]\nIn\n:::\n::::', {
+        containers,
+      }),
+      [
+        '<div class="callout callout-note custom-container"><p><strong class="callout-title"><span class="callout-icon">i</span> Note</strong></p>',
+        '<p>Outer</p>',
+        '<details class="callout callout-details custom-container"><summary><strong class="callout-title">More</strong></summary>',
+        '<p>In</p>',
+        '</details>',
+        '</div>',
+      ].join('\n'),
+    );
+  });
+
+  it('leaves unknown types as text', () => {
+    assert.equal(
+      render('::: unknown\nBody\n:::', { containers }),
+      '<p>::: unknown<br>\nBody<br>\n:::</p>',
+    );
+  });
+});
+
+describe('definition lists, abbreviations and glossary', () => {
+  it('renders definition lists', () => {
+    assert.equal(
+      render('Term\n: Definition'),
+      '<dl>\n<dt>Term</dt>\n<dd>Definition</dd>\n</dl>',
+    );
+  });
+
+  it('expands abbreviations', () => {
+    assert.equal(
+      render('*[HTML]: Hyper Text Markup Language\n\nThe HTML spec.'),
+      '<p>The <abbr title="Hyper Text Markup Language">HTML</abbr> spec.</p>',
+    );
+  });
+
+  it('links glossary terms outside headings and links', () => {
+    const glossary = new Map<string, GlossaryEntry>([
+      [
+        'api',
+        { term: 'API', definition: 'Application *programming* interface' },
+      ],
+      ['sdk', { term: 'SDK', definition: 'Software development kit' }],
+    ]);
+    const env: Record<string, unknown> = { glossary };
+    const link =
+      '<a href="#glossary-api" class="glossary-term" title="Application programming interface">';
+    assert.equal(
+      render('# API\n\nAn API, an api and [the API](u). APIs', env),
+      `<h1 id="api">API</h1>\n<p>An ${link}API</a>, an ${link}api</a> and <a href="u">the API</a>. APIs</p>`,
+    );
+    assert.deepEqual(env.glossaryTerms, ['API']);
+  });
+});
+
+describe('block ids', () => {
+  it('moves a trailing ^id marker to the block id', () => {
+    assert.equal(
+      render('Para ^blk-1\n\n- item ^i2'),
+      '<p id="blk-1">Para</p>\n<ul>\n<li id="i2">item</li>\n</ul>',
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  CACHE_DIR,
+  type CachedOutput,
+  hashChunk,
+  OutputCache,
+} from '../../src/code-chunk/OutputCache';
+
+function output(code: string): CachedOutput {
+  return {
+    hash: hashChunk([code]),
+    result: `<pre>${code}</pre>`,
+    stdout: code,
+    status: 'success',
+    error: '',
+  };
+}
+
+describe('OutputCache', () => {
+  let dir: string;
+  let cache: OutputCache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mlp-cache-'));
+    cache = new OutputCache(path.join(dir, 'notes.md'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores outputs next to the document', () => {
+    const first = output('print(1)');
+    cache.set('chunk-0', first, ['chunk-0']);
+    assert.equal(cache.file, path.join(dir, CACHE_DIR, 'notes.md.json'));
+    assert.deepEqual(cache.get('chunk-0', first.hash), first);
+    assert.equal(
+      new OutputCache(path.join(dir, 'notes.md')).get('chunk-0', first.hash)
+        ?.stdout,
+      'print(1)',
+    );
+  });
+
+  it('finds an output by hash when the chunk id changed', () => {
+    const first = output('print(1)');
+    cache.set('chunk-0', first, ['chunk-0']);
+    assert.deepEqual(cache.get('chunk-1', first.hash), first);
+    assert.equal(cache.get('chunk-1', hashChunk(['print(2)'])), undefined);
+  });
+
+  it('returns the stale output of the chunk when nothing matches', () => {
+    const first = output('print(1)');
+    cache.set('chunk-0', first, ['chunk-0']);
+    assert.deepEqual(cache.get('chunk-0', hashChunk(['print(2)'])), first);
+  });
+
+  it('prunes the outputs of chunks that are gone', () => {
+    cache.set('chunk-0', output('a'), ['chunk-0']);
+    cache.set('chunk-1', output('b'), ['chunk-0', 'chunk-1']);
+    cache.set('chunk-2', output('c'), ['chunk-1', 'chunk-2']);
+    assert.deepEqual(
+      Object.keys(JSON.parse(fs.readFileSync(cache.file, 'utf-8'))),
+      ['chunk-1', 'chunk-2'],
+    );
+    assert.equal(cache.get('chunk-0', output('a').hash), undefined);
+  });
+
+  it('treats a damaged file as empty', () => {
+    fs.mkdirSync(path.dirname(cache.file));
+    fs.writeFileSync(cache.file, '[1, 2]');
+    assert.equal(cache.get('chunk-0', output('a').hash), undefined);
+    fs.writeFileSync(cache.file, '{');
+    assert.equal(cache.get('chunk-0', output('a').hash), undefined);
+  });
+
+  it('removes the cache folder when cleared', () => {
+    cache.set('chunk-0', output('a'), ['chunk-0']);
+    cache.clear();
+    assert.equal(fs.existsSync(path.join(dir, CACHE_DIR)), false);
+  });
+});